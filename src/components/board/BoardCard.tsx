@@ -0,0 +1,73 @@
+import { useSortable } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { format } from "date-fns";
+import { CalendarDays } from "lucide-react";
+
+import { Card } from "@/components/ui/card";
+import TaskAssigneeAvatar from "@/components/tasks/TaskAssigneeAvatar";
+import TaskPriorityBadge from "@/components/tasks/TaskPriorityBadge";
+import { isTaskOverdue } from "@/lib/tasks";
+import { cn } from "@/lib/utils";
+import type { Task } from "@/types/task";
+
+interface BoardCardProps {
+  task: Task;
+  overlay?: boolean;
+  onOpen?: (task: Task) => void;
+}
+
+export const BoardCardContent = ({ task, overlay, onOpen }: BoardCardProps) => (
+  <Card
+    className={cn(
+      "cursor-grab space-y-2 p-3 active:cursor-grabbing",
+      overlay && "rotate-2 shadow-lg"
+    )}
+    onDoubleClick={() => onOpen?.(task)}
+  >
+    <p className="text-sm font-medium leading-snug">{task.title}</p>
+    <div className="flex items-center gap-2">
+      <TaskPriorityBadge priority={task.priority} />
+      {task.dueDate && (
+        <span
+          className={cn(
+            "inline-flex items-center gap-1 text-xs text-muted-foreground",
+            isTaskOverdue(task) && "text-destructive"
+          )}
+        >
+          <CalendarDays className="h-3 w-3" />
+          {format(new Date(task.dueDate), "MMM d")}
+        </span>
+      )}
+      <TaskAssigneeAvatar assignee={task.assignee} className="ml-auto" />
+    </div>
+  </Card>
+);
+
+const BoardCard = ({ task, onOpen }: BoardCardProps) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: task.id });
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn(
+        "touch-none rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        isDragging && "opacity-40"
+      )}
+      aria-label={task.title}
+      {...attributes}
+      {...listeners}
+    >
+      <BoardCardContent task={task} onOpen={onOpen} />
+    </li>
+  );
+};
+
+export default BoardCard;
@@ -0,0 +1,79 @@
+import { useMemo, useRef } from "react";
+import { useDroppable } from "@dnd-kit/core";
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+
+import { Badge } from "@/components/ui/badge";
+import { useVirtualList } from "@/hooks/use-virtual-list";
+import { isOverWipLimit } from "@/lib/board";
+import { cn } from "@/lib/utils";
+import type { BoardColumn } from "@/types/board";
+import type { Task } from "@/types/task";
+import BoardCard from "./BoardCard";
+
+interface BoardColumnViewProps {
+  column: BoardColumn;
+  tasks: Task[];
+  onOpenTask: (task: Task) => void;
+}
+
+const BoardColumnView = ({ column, tasks, onOpenTask }: BoardColumnViewProps) => {
+  const { setNodeRef, isOver } = useDroppable({ id: column.status });
+  const overLimit = isOverWipLimit(column, tasks.length);
+  const ids = useMemo(() => tasks.map((task) => task.id), [tasks]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { listRef, items, paddingStart, paddingEnd } = useVirtualList<HTMLUListElement>({
+    keys: ids,
+    estimateSize: 84,
+    gap: 8,
+    scrollRef,
+  });
+
+  return (
+    <section
+      className={cn(
+        "flex max-h-[calc(100vh-10rem)] w-72 shrink-0 flex-col rounded-lg border bg-muted/40",
+        isOver && "ring-2 ring-ring"
+      )}
+      aria-label={column.name}
+    >
+      <header
+        className="flex items-center gap-2 border-t-4 px-3 py-2"
+        style={{ borderTopColor: column.color }}
+      >
+        <h2 className="text-sm font-semibold">{column.name}</h2>
+        <Badge
+          variant={overLimit ? "destructive" : "secondary"}
+          className="ml-auto"
+        >
+          {tasks.length}
+          {column.wipLimit !== null && ` / ${column.wipLimit}`}
+        </Badge>
+      </header>
+      <SortableContext
+        id={column.status}
+        items={ids}
+        strategy={verticalListSortingStrategy}
+      >
+        <div ref={scrollRef} className="min-h-0 flex-1 overflow-y-auto p-2">
+          <ul
+            ref={(node) => {
+              setNodeRef(node);
+              listRef.current = node;
+            }}
+            className="flex min-h-24 flex-col gap-2"
+            style={{ paddingTop: paddingStart, paddingBottom: paddingEnd }}
+          >
+            {items.map(({ index }) => (
+              <BoardCard key={ids[index]} task={tasks[index]} onOpen={onOpenTask} />
+            ))}
+          </ul>
+        </div>
+      </SortableContext>
+    </section>
+  );
+};
+
+export default BoardColumnView;
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { BoardColumn } from "@/types/board";
+import { statusLabels } from "@/types/task";
+
+interface BoardColumnsDialogProps {
+  open: boolean;
+  columns: BoardColumn[];
+  scopeLabel: string;
+  onOpenChange: (open: boolean) => void;
+  onSave: (columns: BoardColumn[]) => void;
+  onReset?: () => void;
+}
+
+const BoardColumnsDialog = ({
+  open,
+  columns,
+  scopeLabel,
+  onOpenChange,
+  onSave,
+  onReset,
+}: BoardColumnsDialogProps) => {
+  const [draft, setDraft] = useState(columns);
+
+  useEffect(() => {
+    if (open) setDraft(columns);
+  }, [open, columns]);
+
+  const patchColumn = (index: number, patch: Partial<BoardColumn>) =>
+    setDraft((current) =>
+      current.map((column, i) => (i === index ? { ...column, ...patch } : column))
+    );
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSave(
+      draft.map((column) => ({
+        ...column,
+        name: column.name.trim() || statusLabels[column.status],
+      }))
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Board columns</DialogTitle>
+            <DialogDescription>
+              Names, work-in-progress limits and colors for {scopeLabel}.
+            </DialogDescription>
+          </DialogHeader>
+          {draft.map((column, index) => (
+            <fieldset
+              key={column.status}
+              className="grid grid-cols-[1fr_6rem_3rem] items-end gap-2"
+            >
+              <div className="grid gap-1">
+                <Label htmlFor={`column-name-${column.status}`}>
+                  {statusLabels[column.status]}
+                </Label>
+                <Input
+                  id={`column-name-${column.status}`}
+                  value={column.name}
+                  onChange={(event) =>
+                    patchColumn(index, { name: event.target.value })
+                  }
+                />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor={`column-wip-${column.status}`}>WIP limit</Label>
+                <Input
+                  id={`column-wip-${column.status}`}
+                  type="number"
+                  min={1}
+                  placeholder="None"
+                  value={column.wipLimit ?? ""}
+                  onChange={(event) =>
+                    patchColumn(index, {
+                      wipLimit: event.target.value
+                        ? Math.max(1, Number(event.target.value))
+                        : null,
+                    })
+                  }
+                />
+              </div>
+              <Input
+                type="color"
+                className="h-10 p-1"
+                aria-label={`${column.name} color`}
+                value={column.color}
+                onChange={(event) =>
+                  patchColumn(index, { color: event.target.value })
+                }
+              />
+            </fieldset>
+          ))}
+          <DialogFooter>
+            {onReset && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="mr-auto"
+                onClick={() => {
+                  onReset();
+                  onOpenChange(false);
+                }}
+              >
+                Use workspace columns
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit">Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BoardColumnsDialog;
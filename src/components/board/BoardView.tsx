@@ -0,0 +1,152 @@
+import { useMemo, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  closestCorners,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragOverEvent,
+  type DragStartEvent,
+  type UniqueIdentifier,
+} from "@dnd-kit/core";
+import { arrayMove, sortableKeyboardCoordinates } from "@dnd-kit/sortable";
+
+import { groupTasksByStatus } from "@/lib/board";
+import type { BoardColumn } from "@/types/board";
+import type { Task, TaskStatus } from "@/types/task";
+import { BoardCardContent } from "./BoardCard";
+import BoardColumnView from "./BoardColumnView";
+
+type Layout = Record<TaskStatus, string[]>;
+
+interface BoardViewProps {
+  tasks: Task[];
+  columns: BoardColumn[];
+  onOpenTask: (task: Task) => void;
+  /** Called once per drop with the card's final column and position. */
+  onMove: (task: Task, status: TaskStatus, before?: Task, after?: Task) => void;
+}
+
+function findColumn(layout: Layout, id: UniqueIdentifier) {
+  if (id in layout) return id as TaskStatus;
+  return (Object.keys(layout) as TaskStatus[]).find((status) =>
+    layout[status].includes(String(id))
+  );
+}
+
+const BoardView = ({ tasks, columns, onOpenTask, onMove }: BoardViewProps) => {
+  const byId = useMemo(
+    () => new Map(tasks.map((task) => [task.id, task])),
+    [tasks]
+  );
+  const layout = useMemo(() => {
+    const groups = groupTasksByStatus(tasks);
+    return Object.fromEntries(
+      Object.entries(groups).map(([status, group]) => [
+        status,
+        group.map((task) => task.id),
+      ])
+    ) as Layout;
+  }, [tasks]);
+
+  // While dragging, cards move between columns in this local copy; the store
+  // is only written once, on drop.
+  const [dragLayout, setDragLayout] = useState<Layout | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const current = dragLayout ?? layout;
+
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, {
+      activationConstraint: { delay: 200, tolerance: 5 },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    setActiveId(String(active.id));
+    setDragLayout(layout);
+  };
+
+  const handleDragOver = ({ active, over }: DragOverEvent) => {
+    if (!over) return;
+    setDragLayout((prev) => {
+      if (!prev) return prev;
+      const from = findColumn(prev, active.id);
+      const to = findColumn(prev, over.id);
+      if (!from || !to || from === to) return prev;
+
+      const target = prev[to];
+      const overIndex = target.indexOf(String(over.id));
+      const index = overIndex === -1 ? target.length : overIndex;
+      return {
+        ...prev,
+        [from]: prev[from].filter((id) => id !== active.id),
+        [to]: [...target.slice(0, index), String(active.id), ...target.slice(index)],
+      };
+    });
+  };
+
+  const reset = () => {
+    setActiveId(null);
+    setDragLayout(null);
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const task = byId.get(String(active.id));
+    const finalLayout = dragLayout;
+    reset();
+    if (!task || !over || !finalLayout) return;
+
+    const status = findColumn(finalLayout, active.id);
+    if (!status) return;
+
+    let ids = finalLayout[status];
+    const from = ids.indexOf(task.id);
+    const to = ids.indexOf(String(over.id));
+    if (to !== -1 && from !== to) ids = arrayMove(ids, from, to);
+
+    const index = ids.indexOf(task.id);
+    const unchanged =
+      status === task.status &&
+      layout[status].indexOf(task.id) === index;
+    if (unchanged) return;
+
+    onMove(task, status, byId.get(ids[index - 1]), byId.get(ids[index + 1]));
+  };
+
+  const activeTask = activeId ? byId.get(activeId) : undefined;
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCorners}
+      onDragStart={handleDragStart}
+      onDragOver={handleDragOver}
+      onDragEnd={handleDragEnd}
+      onDragCancel={reset}
+    >
+      <div className="flex flex-1 gap-4 overflow-x-auto pb-4">
+        {columns.map((column) => (
+          <BoardColumnView
+            key={column.status}
+            column={column}
+            tasks={current[column.status].map((id) => byId.get(id)!)}
+            onOpenTask={onOpenTask}
+          />
+        ))}
+      </div>
+      <DragOverlay>
+        {activeTask && <BoardCardContent task={activeTask} overlay />}
+      </DragOverlay>
+    </DndContext>
+  );
+};
+
+export default BoardView;
@@ -0,0 +1,84 @@
+import { useDroppable } from "@dnd-kit/core";
+import { format, isToday } from "date-fns";
+
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { dayKey } from "@/lib/calendar";
+import { compareTasks } from "@/lib/tasks";
+import { cn } from "@/lib/utils";
+import CalendarTaskChip from "./CalendarTaskChip";
+import { usePlanner } from "./planner-context";
+
+interface CalendarDayCellProps {
+  date: Date;
+  /** How many tasks to show before collapsing the rest into "+N more". */
+  maxVisible?: number;
+  muted?: boolean;
+  className?: string;
+}
+
+const CalendarDayCell = ({
+  date,
+  maxVisible = 3,
+  muted,
+  className,
+}: CalendarDayCellProps) => {
+  const { tasksByDay, onOpenTask } = usePlanner();
+  const key = dayKey(date);
+  const { setNodeRef, isOver } = useDroppable({ id: `day:${key}` });
+
+  const tasks = [...(tasksByDay.get(key) ?? [])].sort(compareTasks);
+  const visible = tasks.slice(0, maxVisible);
+  const hidden = tasks.length - visible.length;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "flex h-full min-h-28 flex-col gap-1 p-1 text-left",
+        muted && "bg-muted/40 text-muted-foreground",
+        isOver && "bg-accent",
+        className
+      )}
+    >
+      <span
+        className={cn(
+          "flex h-6 w-6 items-center justify-center self-end rounded-full text-xs",
+          isToday(date) && "bg-primary text-primary-foreground"
+        )}
+      >
+        {format(date, "d")}
+      </span>
+      {visible.map((task) => (
+        <CalendarTaskChip key={task.id} task={task} onOpen={onOpenTask} />
+      ))}
+      {hidden > 0 && (
+        <Popover>
+          <PopoverTrigger className="rounded px-1.5 text-left text-xs text-muted-foreground hover:bg-accent hover:text-accent-foreground">
+            +{hidden} more
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-1 p-2" align="start">
+            <p className="px-1 pb-1 text-sm font-medium">
+              {format(date, "EEEE, MMM d")}
+            </p>
+            {tasks.map((task) => (
+              <button
+                key={task.id}
+                type="button"
+                className="block w-full truncate rounded px-1.5 py-1 text-left text-sm hover:bg-accent"
+                onClick={() => onOpenTask(task)}
+              >
+                {task.title}
+              </button>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
+
+export default CalendarDayCell;
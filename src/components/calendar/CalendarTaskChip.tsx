@@ -0,0 +1,57 @@
+import { useDraggable } from "@dnd-kit/core";
+import { format } from "date-fns";
+
+import { hasTimeOfDay } from "@/lib/calendar";
+import { isTaskDone } from "@/lib/tasks";
+import { cn } from "@/lib/utils";
+import type { Task } from "@/types/task";
+
+interface CalendarTaskChipProps {
+  task: Task;
+  onOpen?: (task: Task) => void;
+  overlay?: boolean;
+}
+
+export const CalendarTaskChipContent = ({
+  task,
+  overlay,
+}: Omit<CalendarTaskChipProps, "onOpen">) => (
+  <span
+    className={cn(
+      "flex items-center gap-1 truncate rounded bg-primary/10 px-1.5 py-0.5 text-xs",
+      isTaskDone(task) && "text-muted-foreground line-through",
+      overlay && "bg-primary text-primary-foreground shadow-md"
+    )}
+  >
+    {task.dueDate && hasTimeOfDay(task.dueDate) && (
+      <span className="shrink-0 tabular-nums opacity-70">
+        {format(new Date(task.dueDate), "p")}
+      </span>
+    )}
+    <span className="truncate">{task.title}</span>
+  </span>
+);
+
+const CalendarTaskChip = ({ task, onOpen }: CalendarTaskChipProps) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: task.id,
+  });
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      className={cn(
+        "block w-full touch-none rounded text-left focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        isDragging && "opacity-40"
+      )}
+      onDoubleClick={() => onOpen?.(task)}
+      {...attributes}
+      {...listeners}
+    >
+      <CalendarTaskChipContent task={task} />
+    </button>
+  );
+};
+
+export default CalendarTaskChip;
@@ -0,0 +1,51 @@
+import { format, isSameMonth } from "date-fns";
+import type { DayProps } from "react-day-picker";
+
+import { Calendar } from "@/components/ui/calendar";
+import { dayKey, getWeekDays } from "@/lib/calendar";
+import CalendarDayCell from "./CalendarDayCell";
+
+const MonthDay = ({ date, displayMonth }: DayProps) => (
+  <CalendarDayCell date={date} muted={!isSameMonth(date, displayMonth)} />
+);
+
+export const MonthView = ({ month }: { month: Date }) => (
+  <Calendar
+    month={month}
+    disableNavigation
+    className="p-0"
+    classNames={{
+      months: "w-full",
+      month: "w-full",
+      table: "w-full table-fixed border-collapse rounded-lg border",
+      head_row: "grid grid-cols-7 border-b",
+      head_cell: "py-2 text-xs font-normal text-muted-foreground",
+      row: "grid grid-cols-7 border-b last:border-b-0",
+      cell: "border-l p-0 first:border-l-0",
+    }}
+    components={{ Day: MonthDay, Caption: () => null }}
+  />
+);
+
+export const WeekView = ({ date }: { date: Date }) => (
+  <div className="grid grid-cols-7 rounded-lg border">
+    {getWeekDays(date).map((day) => (
+      <div key={dayKey(day)} className="border-l first:border-l-0">
+        <div className="border-b py-2 text-center text-xs text-muted-foreground">
+          {format(day, "EEE")}
+        </div>
+        <CalendarDayCell date={day} maxVisible={12} className="min-h-96" />
+      </div>
+    ))}
+  </div>
+);
+
+export const DayView = ({ date }: { date: Date }) => (
+  <div className="rounded-lg border">
+    <CalendarDayCell
+      date={date}
+      maxVisible={Infinity}
+      className="min-h-96 gap-2 p-3"
+    />
+  </div>
+);
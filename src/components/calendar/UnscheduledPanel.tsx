@@ -0,0 +1,38 @@
+import { useDroppable } from "@dnd-kit/core";
+
+import { cn } from "@/lib/utils";
+import type { Task } from "@/types/task";
+import CalendarTaskChip from "./CalendarTaskChip";
+
+export const UNSCHEDULED_DROP_ID = "unscheduled";
+
+interface UnscheduledPanelProps {
+  tasks: Task[];
+  onOpenTask: (task: Task) => void;
+}
+
+const UnscheduledPanel = ({ tasks, onOpenTask }: UnscheduledPanelProps) => {
+  const { setNodeRef, isOver } = useDroppable({ id: UNSCHEDULED_DROP_ID });
+
+  return (
+    <aside
+      ref={setNodeRef}
+      className={cn(
+        "flex w-full flex-col gap-2 rounded-lg border p-3 lg:w-64 lg:shrink-0",
+        isOver && "ring-2 ring-ring"
+      )}
+    >
+      <h2 className="text-sm font-semibold">Unscheduled · {tasks.length}</h2>
+      <p className="text-xs text-muted-foreground">
+        Drag onto a day to schedule, or back here to clear the date.
+      </p>
+      <div className="flex flex-col gap-1 overflow-y-auto">
+        {tasks.map((task) => (
+          <CalendarTaskChip key={task.id} task={task} onOpen={onOpenTask} />
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default UnscheduledPanel;
@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react";
+
+import type { Task } from "@/types/task";
+
+interface PlannerContextValue {
+  tasksByDay: Map<string, Task[]>;
+  onOpenTask: (task: Task) => void;
+}
+
+export const PlannerContext = createContext<PlannerContextValue | null>(null);
+
+export function usePlanner() {
+  const context = useContext(PlannerContext);
+  if (!context) {
+    throw new Error("usePlanner must be used within a PlannerContext.");
+  }
+  return context;
+}
@@ -0,0 +1,525 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { addDays, addWeeks, format, startOfDay, startOfWeek } from "date-fns";
+import { useTheme } from "next-themes";
+import {
+  CalendarClock,
+  CalendarX,
+  CheckCircle2,
+  Circle,
+  CircleCheck,
+  ClipboardCopy,
+  FolderInput,
+  Hash,
+  Inbox,
+  Keyboard,
+  Monitor,
+  Moon,
+  Pencil,
+  Redo2,
+  Sun,
+  SunMoon,
+  Undo2,
+  X,
+} from "lucide-react";
+
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { navItems, settingsNavItem } from "@/components/layout/nav-items";
+import ProjectColorDot from "@/components/projects/ProjectColorDot";
+import TaskEditDialog from "@/components/tasks/TaskEditDialog";
+import { useCommandPalette, type CommandPage } from "@/hooks/use-command-palette";
+import { undoable, useHistory } from "@/hooks/use-history";
+import { useProjects } from "@/hooks/use-projects";
+import { useSettings } from "@/hooks/use-settings";
+import { runShortcut, useShortcutBindings, useShortcuts } from "@/hooks/use-shortcuts";
+import { useTaskSelection } from "@/hooks/use-task-selection";
+import { useTasks } from "@/hooks/use-tasks";
+import { toast } from "@/hooks/use-toast";
+import { rescheduleToDay } from "@/lib/calendar";
+import { fuzzyScoreAny } from "@/lib/fuzzy";
+import { formatShortcut } from "@/lib/keyboard";
+import { exportMarkdown } from "@/lib/markdown";
+import { sortedSections } from "@/lib/projects";
+import { parseQuickAdd } from "@/lib/quick-add";
+import { isTaskDone } from "@/lib/tasks";
+import { THEME_CHOICES, themeLabels, type ThemeChoice } from "@/lib/theme";
+import { pluralize } from "@/lib/utils";
+import type { Task } from "@/types/task";
+
+const MAX_RECENT = 5;
+
+// Workspaces can hold tens of thousands of tasks; only the best matches render.
+const MAX_TASK_RESULTS = 50;
+
+interface PaletteCommand {
+  /** Stable identity, also what the recents list stores. */
+  id: string;
+  label: string;
+  group: string;
+  icon?: ReactNode;
+  keywords?: string[];
+  /** Id of the shortcut that runs this command, see `shortcutDefinitions`. */
+  shortcut?: string;
+  /** Opens a sub-page instead of running immediately. */
+  page?: CommandPage;
+  run?: () => void;
+}
+
+const themeIcons: Record<ThemeChoice, ReactNode> = {
+  light: <Sun />,
+  dark: <Moon />,
+  system: <Monitor />,
+};
+
+const pagePlaceholders: Record<CommandPage, string> = {
+  move: "Move to project…",
+  due: "Set due date, e.g. “next friday 9am”…",
+};
+
+// Recent commands outrank everything else that matches, however weakly.
+function rankMatch(score: number, recent: boolean) {
+  if (score === 0) return 0;
+  return recent ? 0.5 + score / 2 : score / 2;
+}
+
+const CommandPalette = () => {
+  const navigate = useNavigate();
+  const { open, page, openCommandPalette, closeCommandPalette } =
+    useCommandPalette();
+  const { tasks, completeTask, updateTask } = useTasks();
+  const { projects } = useProjects();
+  const { settings, updateSettings } = useSettings();
+  const { selectedIds, setSelection, clearSelection } = useTaskSelection();
+  const { theme, resolvedTheme, setTheme } = useTheme();
+  const { keysFor } = useShortcutBindings();
+  const { canUndo, canRedo, undoLabel, redoLabel, undo, redo } = useHistory();
+  const [pages, setPages] = useState<CommandPage[]>([]);
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<Task | null>(null);
+
+  const currentPage = pages[pages.length - 1];
+  const selected = tasks.filter((task) => selectedIds.includes(task.id));
+
+  useEffect(() => {
+    setPages(page ? [page] : []);
+    setSearch("");
+  }, [open, page]);
+
+  const buildCommands = () => {
+    const list: PaletteCommand[] = [];
+    const count = selected.length;
+
+    if (count > 0) {
+      list.push(
+        {
+          id: "action:complete",
+          label: `Complete ${count} selected`,
+          group: "Actions",
+          icon: <CircleCheck />,
+          shortcut: "tasks.complete",
+          run: () =>
+            undoable(`Completed ${pluralize(count, "task")}`, () =>
+              selected.forEach((task) => completeTask(task.id))
+            ),
+        },
+        {
+          id: "action:edit",
+          label: "Edit selected task",
+          group: "Actions",
+          icon: <Pencil />,
+          shortcut: "tasks.edit",
+          run: () => setEditing(selected[selected.length - 1]),
+        },
+        {
+          id: "action:move",
+          label: "Move to project…",
+          group: "Actions",
+          icon: <FolderInput />,
+          shortcut: "tasks.move",
+          page: "move",
+        },
+        {
+          id: "action:due",
+          label: "Set due date…",
+          group: "Actions",
+          icon: <CalendarClock />,
+          shortcut: "tasks.due",
+          page: "due",
+        },
+        {
+          id: "action:copy-markdown",
+          label: "Copy selected as Markdown",
+          group: "Actions",
+          icon: <ClipboardCopy />,
+          keywords: ["checklist", "export"],
+          run: async () => {
+            try {
+              await navigator.clipboard.writeText(
+                exportMarkdown(selected, { projects, headings: false })
+              );
+              toast({ title: `Copied ${pluralize(count, "task")} as Markdown` });
+            } catch {
+              toast({ variant: "destructive", title: "Couldn't copy to the clipboard" });
+            }
+          },
+        },
+        {
+          id: "action:clear-selection",
+          label: "Clear selection",
+          group: "Actions",
+          icon: <X />,
+          shortcut: "tasks.clear-selection",
+          run: clearSelection,
+        }
+      );
+    }
+    if (canUndo) {
+      list.push({
+        id: "action:undo",
+        label: `Undo: ${undoLabel}`,
+        group: "Actions",
+        icon: <Undo2 />,
+        shortcut: "history.undo",
+        run: undo,
+      });
+    }
+    if (canRedo) {
+      list.push({
+        id: "action:redo",
+        label: `Redo: ${redoLabel}`,
+        group: "Actions",
+        icon: <Redo2 />,
+        shortcut: "history.redo",
+        run: redo,
+      });
+    }
+    list.push({
+      id: "action:theme",
+      label: "Toggle theme",
+      group: "Actions",
+      icon: <SunMoon />,
+      keywords: ["dark mode", "light mode"],
+      shortcut: "theme.toggle",
+      run: () => setTheme(resolvedTheme === "dark" ? "light" : "dark"),
+    });
+    THEME_CHOICES.filter((choice) => choice !== theme).forEach((choice) =>
+      list.push({
+        id: `action:theme:${choice}`,
+        label: `Use ${themeLabels[choice].toLowerCase()} theme`,
+        group: "Actions",
+        icon: themeIcons[choice],
+        keywords: ["appearance", "dark mode", "light mode"],
+        run: () => setTheme(choice),
+      })
+    );
+    list.push({
+      id: "action:shortcuts",
+      label: "Keyboard shortcuts",
+      group: "Actions",
+      icon: <Keyboard />,
+      keywords: ["hotkeys", "keybindings"],
+      shortcut: "shortcuts.help",
+      run: () => runShortcut("shortcuts.help"),
+    });
+
+    navItems.forEach(({ to, label, icon: Icon, shortcut }) =>
+      list.push({
+        id: `view:${to}`,
+        label,
+        group: "Views",
+        icon: <Icon />,
+        shortcut,
+        run: () => navigate(to),
+      })
+    );
+    list.push({
+      id: `view:${settingsNavItem.to}`,
+      label: settingsNavItem.label,
+      group: "Views",
+      icon: <settingsNavItem.icon />,
+      keywords: ["preferences", "appearance", "custom theme"],
+      run: () => navigate(settingsNavItem.to),
+    });
+
+    projects.forEach((project) => {
+      const name = project.archived ? `${project.name} (archived)` : project.name;
+      list.push({
+        id: `project:${project.id}`,
+        label: name,
+        group: "Projects",
+        icon: <ProjectColorDot color={project.color} className="mx-1" />,
+        run: () => navigate(`/projects/${project.id}`),
+      });
+      sortedSections(project).forEach((section) =>
+        list.push({
+          id: `section:${section.id}`,
+          label: `${project.name} › ${section.name}`,
+          group: "Projects",
+          icon: <ProjectColorDot color={project.color} className="mx-1" />,
+          run: () => navigate(`/projects/${project.id}?section=${section.id}`),
+        })
+      );
+    });
+
+    // Collecting tags reads every task, so only while they can be shown.
+    if (open) {
+      const tags = [...new Set(tasks.flatMap((task) => task.tags))].sort();
+      tags.forEach((tag) =>
+        list.push({
+          id: `tag:${tag}`,
+          label: `#${tag}`,
+          group: "Tags",
+          icon: <Hash />,
+          run: () => navigate(`/?tag=${encodeURIComponent(tag)}`),
+        })
+      );
+    }
+
+    return list;
+  };
+  const commands = buildCommands();
+
+  const buildTaskCommand = (task: Task, keywords: string[]): PaletteCommand => ({
+    id: `task:${task.id}`,
+    label: task.title,
+    group: "Tasks",
+    icon: isTaskDone(task) ? <CheckCircle2 /> : <Circle />,
+    keywords,
+    run: () => {
+      setSelection([task.id]);
+      setEditing(task);
+    },
+  });
+
+  const taskKeywords = (task: Task, projectName: string | undefined) => [
+    ...task.tags.map((tag) => `#${tag}`),
+    ...(projectName ? [projectName] : []),
+  ];
+
+  // Tasks are only searched once something is typed, and only the top
+  // matches become commands, ranked the same way the list filters them.
+  const buildTaskCommands = () => {
+    if (!open || currentPage || !search) return [];
+    const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+    return tasks
+      .map((task) => {
+        const keywords = taskKeywords(task, projectNames.get(task.projectId ?? ""));
+        return { task, keywords, score: fuzzyScoreAny([task.title, ...keywords], search) };
+      })
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_TASK_RESULTS)
+      .map(({ task, keywords }) => buildTaskCommand(task, keywords));
+  };
+  const taskCommands = buildTaskCommands();
+
+  const findRecent = (id: string) => {
+    const command = commands.find((c) => c.id === id);
+    if (command || !open || !id.startsWith("task:")) return command;
+    const task = tasks.find((t) => `task:${t.id}` === id);
+    const project = task && projects.find((p) => p.id === task.projectId);
+    return task && buildTaskCommand(task, taskKeywords(task, project?.name));
+  };
+
+  const recent = settings.recentCommands.map(findRecent).filter(Boolean) as PaletteCommand[];
+
+  const runCommand = (command: PaletteCommand) => {
+    updateSettings({
+      recentCommands: [
+        command.id,
+        ...settings.recentCommands.filter((id) => id !== command.id),
+      ].slice(0, MAX_RECENT),
+    });
+    if (command.page) {
+      openCommandPalette(command.page);
+      return;
+    }
+    closeCommandPalette();
+    command.run?.();
+  };
+
+  useShortcuts({
+    "palette.open": () => (open ? closeCommandPalette() : openCommandPalette()),
+    ...Object.fromEntries(
+      commands
+        .filter((command) => command.shortcut)
+        .map((command) => [command.shortcut, () => runCommand(command)])
+    ),
+  });
+
+  const setDueDate = (date: Date | null, hasTime = false) => {
+    undoable(`Rescheduled ${pluralize(selected.length, "task")}`, () =>
+      selected.forEach((task) =>
+        updateTask(task.id, {
+          dueDate:
+            date && (hasTime ? date.toISOString() : rescheduleToDay(task, date)),
+        })
+      )
+    );
+    closeCommandPalette();
+  };
+
+  const moveToProject = (projectId: string | null) => {
+    const name = projects.find((p) => p.id === projectId)?.name ?? "Inbox";
+    undoable(`Moved ${pluralize(selected.length, "task")} to ${name}`, () =>
+      selected.forEach((task) => updateTask(task.id, { projectId, sectionId: null }))
+    );
+    closeCommandPalette();
+  };
+
+  const renderCommand = (command: PaletteCommand, value = command.id) => (
+    <CommandItem
+      key={value}
+      value={value}
+      keywords={[command.label, ...(command.keywords ?? [])]}
+      onSelect={() => runCommand(command)}
+    >
+      {command.icon}
+      <span className="truncate">{command.label}</span>
+      {command.shortcut && keysFor(command.shortcut) && (
+        <CommandShortcut>{formatShortcut(keysFor(command.shortcut))}</CommandShortcut>
+      )}
+    </CommandItem>
+  );
+
+  const renderRoot = () => {
+    const groups = ["Actions", "Views", "Projects", "Tags", "Tasks"];
+    // Tags and tasks would drown out everything else before the user types.
+    const searchOnly = ["Tags", "Tasks"];
+
+    return (
+      <>
+        {!search && recent.length > 0 && (
+          <CommandGroup heading="Recent">
+            {recent.map((command) => renderCommand(command, `recent:${command.id}`))}
+          </CommandGroup>
+        )}
+        {groups
+          .filter((group) => search || !searchOnly.includes(group))
+          .map((group) => (
+            <CommandGroup key={group} heading={group}>
+              {(group === "Tasks" ? taskCommands : commands)
+                .filter((command) => command.group === group)
+                .map((command) => renderCommand(command))}
+            </CommandGroup>
+          ))}
+      </>
+    );
+  };
+
+  const renderMovePage = () => (
+    <CommandGroup heading={`Move ${selected.length} selected to`}>
+      <CommandItem value="inbox" keywords={["Inbox"]} onSelect={() => moveToProject(null)}>
+        <Inbox />
+        Inbox
+      </CommandItem>
+      {projects
+        .filter((project) => !project.archived)
+        .map((project) => (
+          <CommandItem
+            key={project.id}
+            value={project.id}
+            keywords={[project.name]}
+            onSelect={() => moveToProject(project.id)}
+          >
+            <ProjectColorDot color={project.color} className="mx-1" />
+            {project.name}
+          </CommandItem>
+        ))}
+    </CommandGroup>
+  );
+
+  const renderDuePage = () => {
+    const today = startOfDay(new Date());
+    const presets = [
+      { label: "Today", date: today },
+      { label: "Tomorrow", date: addDays(today, 1) },
+      { label: "Next week", date: startOfWeek(addWeeks(today, 1), { weekStartsOn: 1 }) },
+    ];
+    const parsed = search ? parseQuickAdd(search) : null;
+
+    return (
+      <CommandGroup heading={`Set due date for ${selected.length} selected`}>
+        {parsed?.dueDate && (
+          <CommandItem
+            value="parsed"
+            forceMount
+            onSelect={() => setDueDate(parsed.dueDate, parsed.hasTime)}
+          >
+            <CalendarClock />
+            {format(parsed.dueDate, parsed.hasTime ? "EEE, MMM d 'at' p" : "EEE, MMM d")}
+          </CommandItem>
+        )}
+        {presets.map(({ label, date }) => (
+          <CommandItem
+            key={label}
+            value={label}
+            keywords={[label]}
+            onSelect={() => setDueDate(date)}
+          >
+            <CalendarClock />
+            {label}
+            <CommandShortcut>{format(date, "EEE, MMM d")}</CommandShortcut>
+          </CommandItem>
+        ))}
+        <CommandItem value="none" keywords={["No due date", "clear"]} onSelect={() => setDueDate(null)}>
+          <CalendarX />
+          No due date
+        </CommandItem>
+      </CommandGroup>
+    );
+  };
+
+  return (
+    <>
+      <CommandDialog
+        open={open}
+        onOpenChange={(value) => !value && closeCommandPalette()}
+        commandProps={{
+          filter: (value, query, keywords) =>
+            rankMatch(
+              fuzzyScoreAny(keywords ?? [value], query),
+              settings.recentCommands.includes(value)
+            ),
+          onKeyDown: (event) => {
+            // Backspace on an empty input steps back out of a sub-page.
+            if (event.key === "Backspace" && !search && pages.length > 0) {
+              event.preventDefault();
+              setPages((stack) => stack.slice(0, -1));
+            }
+          },
+        }}
+      >
+        <CommandInput
+          value={search}
+          onValueChange={setSearch}
+          placeholder={
+            currentPage
+              ? pagePlaceholders[currentPage]
+              : "Search tasks, projects, tags or run a command…"
+          }
+        />
+        <CommandList>
+          <CommandEmpty>No results found.</CommandEmpty>
+          {currentPage === "move" && renderMovePage()}
+          {currentPage === "due" && renderDuePage()}
+          {!currentPage && renderRoot()}
+        </CommandList>
+      </CommandDialog>
+      <TaskEditDialog
+        task={editing}
+        onOpenChange={(value) => !value && setEditing(null)}
+      />
+    </>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Archive, Download, RotateCcw, Trash2, Upload } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getLocalBackup,
+  readArchive,
+  useBackups,
+  useStoragePersistence,
+  type LocalBackupInfo,
+} from "@/hooks/use-backups";
+import { useSettings } from "@/hooks/use-settings";
+import { toast } from "@/hooks/use-toast";
+import { archiveFileName, exportArchive, upgradeArchive } from "@/lib/backup";
+import { downloadFile } from "@/lib/utils";
+import {
+  BACKUP_INTERVALS,
+  BACKUP_RETENTION_CHOICES,
+  backupIntervalLabels,
+  backupTriggerLabels,
+  type BackupArchive,
+  type BackupInterval,
+} from "@/types/backup";
+import RestoreDialog from "./RestoreDialog";
+
+function downloadArchive(archive: BackupArchive) {
+  downloadFile(exportArchive(archive), archiveFileName(archive), "application/json");
+}
+
+const persistenceDescriptions = {
+  persisted: "The browser keeps this app's data even when disk space runs low.",
+  "best-effort":
+    "The browser may clear this app's data, local backups included, when disk space runs low. Download a backup now and then, or ask it to keep the data.",
+};
+
+/**
+ * The whole workspace as one file, restores from such files, and backups kept
+ * in the browser on a schedule.
+ */
+const BackupCard = () => {
+  const { settings, updateSettings } = useSettings();
+  const { backups, createLocalBackup, deleteLocalBackup, pruneLocalBackups } = useBackups();
+  const { state: persistence, requestPersistence } = useStoragePersistence();
+  const [restoring, setRestoring] = useState<{ archive: BackupArchive | null } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const failed = (title: string) => (error: unknown) =>
+    toast({
+      variant: "destructive",
+      title,
+      description: error instanceof Error ? error.message : undefined,
+    });
+
+  const keepData = async () => {
+    if (await requestPersistence()) return;
+    toast({
+      title: "The browser declined",
+      description:
+        "Local backups can be cleared along with everything else, so download one now and then. Browsers tend to allow keeping data for sites that are bookmarked, installed or used often.",
+    });
+  };
+
+  const backUpNow = async () => {
+    setBusy(true);
+    try {
+      await createLocalBackup("manual");
+      toast({ title: "Backed up" });
+    } catch (error) {
+      failed("Couldn't back up")(error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Local backups keep the schema they were made with, so they are upgraded like files.
+  const openLocalBackup = async (backup: LocalBackupInfo, action: "restore" | "download") => {
+    const stored = await getLocalBackup(backup.id);
+    if (!stored) return;
+    if (action === "download") {
+      downloadArchive(stored.archive);
+      return;
+    }
+    try {
+      setRestoring({ archive: upgradeArchive(stored.archive) });
+    } catch (error) {
+      failed("Couldn't restore that backup")(error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-start justify-between gap-4 space-y-0">
+        <div className="flex flex-col gap-1.5">
+          <CardTitle className="text-lg">Backup & restore</CardTitle>
+          <CardDescription>
+            One file with every task, project, tag, setting, custom theme and notification.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setRestoring({ archive: null })}>
+            <Upload />
+            Restore…
+          </Button>
+          <Button
+            onClick={() =>
+              readArchive().then(downloadArchive).catch(failed("Couldn't export a backup"))
+            }
+          >
+            <Download />
+            Export backup
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {persistence && persistence !== "unsupported" && (
+          <div className="flex flex-wrap items-center gap-3 rounded-md border px-3 py-2">
+            <p className="mr-auto text-sm text-muted-foreground">
+              {persistenceDescriptions[persistence]}
+            </p>
+            {persistence === "best-effort" && (
+              <Button variant="outline" size="sm" onClick={() => void keepData()}>
+                Keep data
+              </Button>
+            )}
+          </div>
+        )}
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="backup-interval">Automatic backups</Label>
+            <Select
+              value={settings.backupInterval}
+              onValueChange={(value) => {
+                updateSettings({ backupInterval: value as BackupInterval });
+                if (value !== "off" && persistence === "best-effort") void keepData();
+              }}
+            >
+              <SelectTrigger id="backup-interval" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BACKUP_INTERVALS.map((interval) => (
+                  <SelectItem key={interval} value={interval}>
+                    {backupIntervalLabels[interval]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="backup-retention">Keep</Label>
+            <Select
+              value={String(settings.backupRetention)}
+              onValueChange={(value) => {
+                updateSettings({ backupRetention: Number(value) });
+                void pruneLocalBackups(Number(value));
+              }}
+            >
+              <SelectTrigger id="backup-retention" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BACKUP_RETENTION_CHOICES.map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    Last {count} backups
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" disabled={busy} onClick={() => void backUpNow()}>
+            <Archive />
+            Back up now
+          </Button>
+        </div>
+        {backups.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No backups in this browser yet.
+          </p>
+        ) : (
+          <ul className="flex flex-col divide-y">
+            {backups.map((backup) => (
+              <li key={backup.id} className="flex flex-wrap items-center gap-3 py-3">
+                <div className="mr-auto flex flex-col">
+                  <span className="font-medium">
+                    {format(new Date(backup.createdAt), "PPp")}
+                  </span>
+                  <span className="text-sm text-muted-foreground">{backup.description}</span>
+                </div>
+                <Badge variant="outline" className="font-normal">
+                  {backupTriggerLabels[backup.trigger]}
+                </Badge>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Restore this backup"
+                    onClick={() => void openLocalBackup(backup, "restore")}
+                  >
+                    <RotateCcw />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Download this backup"
+                    onClick={() => void openLocalBackup(backup, "download")}
+                  >
+                    <Download />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Delete this backup"
+                    onClick={() => void deleteLocalBackup(backup.id)}
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+      <RestoreDialog
+        open={restoring !== null}
+        onOpenChange={(open) => !open && setRestoring(null)}
+        archive={restoring?.archive}
+      />
+    </Card>
+  );
+};
+
+export default BackupCard;
@@ -0,0 +1,131 @@
+import { useId, useState } from "react";
+import { Copy, Download } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useProjects } from "@/hooks/use-projects";
+import { toast } from "@/hooks/use-toast";
+import { exportICalendar, subscriptionUrls } from "@/lib/ical";
+import { exportFileName } from "@/lib/import";
+import { downloadFile, pluralize } from "@/lib/utils";
+import type { Task } from "@/types/task";
+
+const DEFAULT_SERVER = "http://localhost:8080/";
+
+const CopyField = ({ label, value }: { label: string; value: string }) => {
+  const id = useId();
+  return (
+    <div className="flex flex-col gap-1.5">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          value={value}
+          readOnly
+          className="font-mono text-xs"
+          onFocus={(event) => event.target.select()}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label={`Copy ${label.toLowerCase()}`}
+          onClick={async () => {
+            try {
+              await navigator.clipboard.writeText(value);
+              toast({ title: "Copied to the clipboard" });
+            } catch {
+              toast({ variant: "destructive", title: "Couldn't copy to the clipboard" });
+            }
+          }}
+        >
+          <Copy />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface CalendarExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Names the calendar in subscribing apps and the downloaded file. */
+  name: string;
+  tasks: Task[];
+}
+
+/**
+ * Downloads tasks as an iCalendar file and works out the addresses calendar
+ * apps can subscribe to once the file is served locally.
+ */
+const CalendarExportDialog = ({ open, onOpenChange, name, tasks }: CalendarExportDialogProps) => {
+  const { projects } = useProjects();
+  const [server, setServer] = useState(DEFAULT_SERVER);
+  const serverId = useId();
+  const fileName = exportFileName(name, "ics");
+  const urls = subscriptionUrls(server, fileName);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export “{name}” to a calendar</DialogTitle>
+          <DialogDescription>
+            {pluralize(tasks.length, "task")} as an .ics file that calendar and reminder apps
+            can import.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor={serverId}>Subscribe through a local server</Label>
+            <Input
+              id={serverId}
+              value={server}
+              onChange={(event) => setServer(event.target.value)}
+              placeholder={DEFAULT_SERVER}
+            />
+            <p className="text-sm text-muted-foreground">
+              Save {fileName} into the folder a static file server shares, e.g. with{" "}
+              <code className="text-xs">npx serve -p 8080</code>. Subscriptions are read-only
+              and pick up a new download within an hour.
+            </p>
+          </div>
+          {urls ? (
+            <>
+              <CopyField label="Calendar app link" value={urls.webcal} />
+              <CopyField label="Web address" value={urls.http} />
+            </>
+          ) : (
+            <p className="text-sm text-destructive">
+              Enter an address starting with http:// or https://.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() =>
+              downloadFile(
+                exportICalendar(tasks, { name, projects }),
+                fileName,
+                "text/calendar"
+              )
+            }
+          >
+            <Download />
+            Download {fileName}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarExportDialog;
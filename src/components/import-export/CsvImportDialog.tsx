@@ -0,0 +1,336 @@
+import { useMemo, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { applyImportPlan } from "@/hooks/use-import";
+import { useProjects } from "@/hooks/use-projects";
+import { useTableView } from "@/hooks/use-table-view";
+import { useTasks } from "@/hooks/use-tasks";
+import {
+  CSV_DATE_FORMATS,
+  CSV_DELIMITERS,
+  csvTargets,
+  detectDelimiter,
+  guessCsvMapping,
+  parseCsv,
+  planCsvImport,
+  validateCsvRows,
+  type CsvDelimiter,
+  type CsvRowResult,
+} from "@/lib/csv";
+import { countImportActions, type ImportPlan } from "@/lib/import";
+import { pluralize } from "@/lib/utils";
+import ImportPlanPreview from "./ImportPlanPreview";
+import ImportSourceField from "./ImportSourceField";
+
+// Select items can't have an empty value, so ignored columns need a stand-in.
+const IGNORE = "__ignore";
+const PREVIEW_ROWS = 5;
+const LISTED_ERRORS = 100;
+
+type Step = "source" | "columns" | "review";
+
+const stepDescriptions: Record<Step, string> = {
+  source: "Paste CSV or choose a file exported from a spreadsheet.",
+  columns: "Choose the task field each column holds. Columns left on Ignore aren't imported.",
+  review:
+    "Rows with problems are skipped. Rows with the title and project of an existing task update it.",
+};
+
+const RowErrors = ({ results }: { results: CsvRowResult[] }) => {
+  const failed = results.filter((result) => result.errors.length > 0);
+  if (failed.length === 0) return null;
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-sm font-medium text-destructive">
+        {pluralize(failed.length, "row")} can't be imported:
+      </p>
+      <ul className="max-h-32 overflow-y-auto rounded-md border px-3 py-2 text-sm">
+        {failed.slice(0, LISTED_ERRORS).map((result) => (
+          <li key={result.row}>
+            <span className="text-muted-foreground">Row {result.row}:</span>{" "}
+            {result.errors.join("; ")}
+          </li>
+        ))}
+        {failed.length > LISTED_ERRORS && (
+          <li className="text-muted-foreground">
+            and {pluralize(failed.length - LISTED_ERRORS, "more row")}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Imports a spreadsheet in three steps: the CSV itself, which column holds
+ * which field, and a review of what will be created, merged or skipped.
+ */
+const CsvImportDialog = ({ open, onOpenChange }: CsvImportDialogProps) => {
+  const { tasks } = useTasks();
+  const { projects } = useProjects();
+  const { columns, customFields } = useTableView();
+  const [step, setStep] = useState<Step>("source");
+  const [text, setText] = useState("");
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(",");
+  const [hasHeader, setHasHeader] = useState(true);
+  const [dateFormat, setDateFormat] = useState(CSV_DATE_FORMATS[0]);
+  const [mapping, setMapping] = useState<(string | null)[]>([]);
+  const [review, setReview] = useState<{ results: CsvRowResult[]; plan: ImportPlan } | null>(
+    null
+  );
+
+  const targets = useMemo(() => csvTargets(columns, customFields), [columns, customFields]);
+  const rows = useMemo(() => parseCsv(text, delimiter), [text, delimiter]);
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const dataRows = rows.slice(hasHeader ? 1 : 0);
+  const counts = review && countImportActions(review.plan);
+  const writes = counts ? counts.create + counts.merge : 0;
+
+  const guessMapping = (parsed: string[][], header: boolean) =>
+    setMapping(
+      header
+        ? guessCsvMapping(parsed[0] ?? [], targets)
+        : Array.from({ length: parsed[0]?.length ?? 0 }, () => null)
+    );
+
+  const close = (value: boolean) => {
+    onOpenChange(value);
+    if (!value) {
+      setStep("source");
+      setText("");
+      setReview(null);
+    }
+  };
+
+  const chooseDelimiter = (value: CsvDelimiter) => {
+    setDelimiter(value);
+    guessMapping(parseCsv(text, value), hasHeader);
+  };
+
+  const mapColumn = (column: number, target: string) =>
+    setMapping((current) =>
+      Array.from({ length: width }, (_, index) =>
+        index === column ? (target === IGNORE ? null : target) : (current[index] ?? null)
+      )
+    );
+
+  const toReview = () => {
+    const results = validateCsvRows(rows, mapping, targets, { hasHeader, dateFormat });
+    setReview({ results, plan: planCsvImport(results, tasks, { projects }) });
+    setStep("review");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import CSV</DialogTitle>
+          <DialogDescription>{stepDescriptions[step]}</DialogDescription>
+        </DialogHeader>
+        {step === "source" && (
+          <ImportSourceField
+            value={text}
+            onChange={setText}
+            accept=".csv,.tsv,text/csv,text/tab-separated-values,text/plain"
+            placeholder={"Title,Due,Priority,Tags\nCall the bank,2026-10-05,High,\"finance, phone\""}
+          />
+        )}
+        {step === "columns" && (
+          <div className="flex min-w-0 flex-col gap-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="flex flex-col gap-1.5">
+                <Label htmlFor="csv-delimiter">Separator</Label>
+                <Select value={delimiter} onValueChange={chooseDelimiter}>
+                  <SelectTrigger id="csv-delimiter" className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DELIMITERS.map(({ value, label }) => (
+                      <SelectItem key={label} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <Label htmlFor="csv-date-format">Dates</Label>
+                <Select value={dateFormat} onValueChange={setDateFormat}>
+                  <SelectTrigger id="csv-date-format" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DATE_FORMATS.map((pattern) => (
+                      <SelectItem key={pattern} value={pattern}>
+                        {pattern.toUpperCase()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex h-10 items-center gap-2">
+                <Switch
+                  id="csv-has-header"
+                  checked={hasHeader}
+                  onCheckedChange={(checked) => {
+                    setHasHeader(checked);
+                    guessMapping(rows, checked);
+                  }}
+                />
+                <Label htmlFor="csv-has-header">First row names the columns</Label>
+              </div>
+            </div>
+            <div className="max-h-80 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {Array.from({ length: width }, (_, column) => {
+                      const target = mapping[column] ?? null;
+                      return (
+                        <TableHead key={column} className="min-w-40 py-2 align-top">
+                          <div className="flex flex-col gap-1.5">
+                            <span className="truncate text-xs">
+                              {hasHeader && rows[0]?.[column]
+                                ? rows[0][column]
+                                : `Column ${column + 1}`}
+                            </span>
+                            <Select
+                              value={target ?? IGNORE}
+                              onValueChange={(value) => mapColumn(column, value)}
+                            >
+                              <SelectTrigger
+                                className="h-8"
+                                aria-label={`Field for column ${column + 1}`}
+                              >
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={IGNORE}>Ignore</SelectItem>
+                                {targets.map((option) => (
+                                  <SelectItem
+                                    key={option.id}
+                                    value={option.id}
+                                    disabled={
+                                      option.id !== target && mapping.includes(option.id)
+                                    }
+                                  >
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </TableHead>
+                      );
+                    })}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dataRows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <TableRow key={index}>
+                      {Array.from({ length: width }, (_, column) => (
+                        <TableCell
+                          key={column}
+                          className={
+                            mapping[column] ? "max-w-60 truncate" : "max-w-60 truncate opacity-50"
+                          }
+                        >
+                          {row[column] ?? ""}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {dataRows.length > PREVIEW_ROWS
+                ? `Showing ${PREVIEW_ROWS} of ${pluralize(dataRows.length, "row")}.`
+                : pluralize(dataRows.length, "row")}
+              {!mapping.includes("title") && " Choose the column holding the task titles."}
+            </p>
+          </div>
+        )}
+        {step === "review" && review && (
+          <div className="flex flex-col gap-4">
+            <RowErrors results={review.results} />
+            <ImportPlanPreview plan={review.plan} />
+          </div>
+        )}
+        <DialogFooter>
+          {step === "source" && (
+            <Button
+              disabled={!text.trim()}
+              onClick={() => {
+                const detected = detectDelimiter(text);
+                setDelimiter(detected);
+                guessMapping(parseCsv(text, detected), hasHeader);
+                setStep("columns");
+              }}
+            >
+              Next
+            </Button>
+          )}
+          {step === "columns" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("source")}>
+                Back
+              </Button>
+              <Button disabled={!mapping.includes("title")} onClick={toReview}>
+                Next
+              </Button>
+            </>
+          )}
+          {step === "review" && review && (
+            <>
+              <Button variant="outline" onClick={() => setStep("columns")}>
+                Back
+              </Button>
+              <Button
+                disabled={writes === 0}
+                onClick={() => {
+                  applyImportPlan("Imported CSV", review.plan);
+                  close(false);
+                }}
+              >
+                Import {pluralize(writes, "task")}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvImportDialog;
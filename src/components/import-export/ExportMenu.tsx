@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useProjects } from "@/hooks/use-projects";
+import { useTableView } from "@/hooks/use-table-view";
+import { toast } from "@/hooks/use-toast";
+import { exportTasksCsv } from "@/lib/csv";
+import { exportFileName } from "@/lib/import";
+import { exportMarkdown } from "@/lib/markdown";
+import { downloadFile, pluralize } from "@/lib/utils";
+import type { Task } from "@/types/task";
+import CalendarExportDialog from "./CalendarExportDialog";
+
+interface ExportMenuProps {
+  /** Names the downloaded files and the calendar. */
+  name: string;
+  tasks: Task[];
+}
+
+/**
+ * Exports the tasks of a view: as CSV with the table's visible columns, as a
+ * Markdown checklist, or to a calendar.
+ */
+const ExportMenu = ({ name, tasks }: ExportMenuProps) => {
+  const { projects } = useProjects();
+  const { visibleColumns } = useTableView();
+  const [calendar, setCalendar] = useState(false);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Export">
+            <Download />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onSelect={() =>
+              downloadFile(
+                exportTasksCsv(tasks, visibleColumns, { projects }),
+                exportFileName(name, "csv"),
+                "text/csv"
+              )
+            }
+          >
+            CSV
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() =>
+              downloadFile(
+                exportMarkdown(tasks, { projects }),
+                exportFileName(name, "md"),
+                "text/markdown"
+              )
+            }
+          >
+            Markdown
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={async () => {
+              try {
+                await navigator.clipboard.writeText(exportMarkdown(tasks, { projects }));
+                toast({ title: `Copied ${pluralize(tasks.length, "task")} as Markdown` });
+              } catch {
+                toast({ variant: "destructive", title: "Couldn't copy to the clipboard" });
+              }
+            }}
+          >
+            Copy as Markdown
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setCalendar(true)}>
+            Calendar (.ics)…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <CalendarExportDialog
+        open={calendar}
+        onOpenChange={setCalendar}
+        name={name}
+        tasks={tasks}
+      />
+    </>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,102 @@
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { applyImportPlan } from "@/hooks/use-import";
+import { countImportActions, type ImportPlan } from "@/lib/import";
+import { pluralize } from "@/lib/utils";
+import ImportPlanPreview from "./ImportPlanPreview";
+import ImportSourceField from "./ImportSourceField";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  /** File types offered by the file picker, as for `<input accept>`. */
+  accept: string;
+  placeholder?: string;
+  /** Names the step in the undo history. */
+  label: string;
+  plan: (text: string) => ImportPlan;
+}
+
+/**
+ * Takes a file or pasted text, shows what importing it would create, merge
+ * or skip, and only then writes anything.
+ */
+const ImportDialog = ({
+  open,
+  onOpenChange,
+  title,
+  description,
+  accept,
+  placeholder,
+  label,
+  plan: buildPlan,
+}: ImportDialogProps) => {
+  const [text, setText] = useState("");
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const counts = plan && countImportActions(plan);
+  const writes = counts ? counts.create + counts.merge : 0;
+
+  const close = (value: boolean) => {
+    onOpenChange(value);
+    if (!value) {
+      setText("");
+      setPlan(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        {plan ? (
+          <ImportPlanPreview plan={plan} />
+        ) : (
+          <ImportSourceField
+            value={text}
+            onChange={setText}
+            accept={accept}
+            placeholder={placeholder}
+          />
+        )}
+        <DialogFooter>
+          {plan ? (
+            <>
+              <Button variant="outline" onClick={() => setPlan(null)}>
+                Back
+              </Button>
+              <Button
+                disabled={writes === 0}
+                onClick={() => {
+                  applyImportPlan(label, plan);
+                  close(false);
+                }}
+              >
+                Import {pluralize(writes, "task")}
+              </Button>
+            </>
+          ) : (
+            <Button disabled={!text.trim()} onClick={() => setPlan(buildPlan(text))}>
+              Preview
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Download, Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useProjects } from "@/hooks/use-projects";
+import { useSettings } from "@/hooks/use-settings";
+import { useTableView } from "@/hooks/use-table-view";
+import { useTasks } from "@/hooks/use-tasks";
+import { exportTasksCsv } from "@/lib/csv";
+import { planICalendarImport } from "@/lib/ical";
+import { exportMarkdown, planMarkdownImport } from "@/lib/markdown";
+import { exportTodoTxt, planTodoTxtImport } from "@/lib/todotxt";
+import { downloadFile } from "@/lib/utils";
+import CalendarExportDialog from "./CalendarExportDialog";
+import CsvImportDialog from "./CsvImportDialog";
+import ImportDialog from "./ImportDialog";
+
+type ImportFormat = "todotxt" | "ical" | "csv" | "markdown";
+
+interface FormatRowProps {
+  name: string;
+  description: string;
+  onImport: () => void;
+  onExport: () => void;
+}
+
+const FormatRow = ({ name, description, onImport, onExport }: FormatRowProps) => (
+  <li className="flex flex-wrap items-center gap-3 py-3">
+    <div className="mr-auto flex flex-col">
+      <span className="font-medium">{name}</span>
+      <span className="text-sm text-muted-foreground">{description}</span>
+    </div>
+    <Button variant="outline" onClick={onImport}>
+      <Upload />
+      Import…
+    </Button>
+    <Button variant="outline" onClick={onExport}>
+      <Download />
+      Export
+    </Button>
+  </li>
+);
+
+/** Moving tasks in and out of the app in other tools' formats. */
+const ImportExportCard = () => {
+  const [importing, setImporting] = useState<ImportFormat | null>(null);
+  const [exportingCalendar, setExportingCalendar] = useState(false);
+  const { tasks } = useTasks();
+  const { projects } = useProjects();
+  const { settings } = useSettings();
+  const { visibleColumns } = useTableView();
+  const context = { projects, customFields: settings.customFields };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Import & export</CardTitle>
+        <CardDescription>
+          Imports show what they will create, merge or skip before changing anything.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="flex flex-col divide-y">
+          <FormatRow
+            name="todo.txt"
+            description="One task per line, with priorities, +projects, @contexts and due dates."
+            onImport={() => setImporting("todotxt")}
+            onExport={() =>
+              downloadFile(exportTodoTxt(tasks, context), "todo.txt", "text/plain")
+            }
+          />
+          <FormatRow
+            name="CSV"
+            description="Spreadsheet rows, with a column mapping step. Exports the table's visible columns."
+            onImport={() => setImporting("csv")}
+            onExport={() =>
+              downloadFile(
+                exportTasksCsv(tasks, visibleColumns, { projects }),
+                "tasks.csv",
+                "text/csv"
+              )
+            }
+          />
+          <FormatRow
+            name="Markdown"
+            description="Checklists like “- [ ] task”, with indented subtasks and a heading per project."
+            onImport={() => setImporting("markdown")}
+            onExport={() =>
+              downloadFile(exportMarkdown(tasks, { projects }), "tasks.md", "text/markdown")
+            }
+          />
+          <FormatRow
+            name="iCalendar"
+            description="Tasks as VTODOs for calendar and reminder apps, with a subscription link."
+            onImport={() => setImporting("ical")}
+            onExport={() => setExportingCalendar(true)}
+          />
+        </ul>
+      </CardContent>
+      <ImportDialog
+        open={importing === "todotxt"}
+        onOpenChange={(open) => !open && setImporting(null)}
+        title="Import todo.txt"
+        description="Paste the contents of a todo.txt file or choose one. Tasks with the same text and project are merged."
+        accept=".txt,text/plain"
+        placeholder="(A) 2026-10-01 Call the bank +Finance @phone due:2026-10-05"
+        label="Imported todo.txt"
+        plan={(text) => planTodoTxtImport(text, tasks, context)}
+      />
+      <ImportDialog
+        open={importing === "ical"}
+        onOpenChange={(open) => !open && setImporting(null)}
+        title="Import iCalendar"
+        description="Paste the contents of an .ics file or choose one. Tasks are matched by their UID, so importing an export again only applies what changed."
+        accept=".ics,text/calendar"
+        placeholder={"BEGIN:VCALENDAR\nBEGIN:VTODO\nSUMMARY:Call the bank\n…"}
+        label="Imported calendar"
+        plan={(text) => planICalendarImport(text, tasks, context)}
+      />
+      <ImportDialog
+        open={importing === "markdown"}
+        onOpenChange={(open) => !open && setImporting(null)}
+        title="Import Markdown"
+        description="Paste a checklist or outline, or choose a file. Each line becomes a task and indented lines become subtasks of the line above."
+        accept=".md,.markdown,.txt,text/markdown,text/plain"
+        placeholder={"## Work\n- [ ] Ship the release (due 2026-10-05) #launch\n  - [x] Write release notes"}
+        label="Imported Markdown"
+        plan={(text) => planMarkdownImport(text, tasks, { projects })}
+      />
+      <CsvImportDialog
+        open={importing === "csv"}
+        onOpenChange={(open) => !open && setImporting(null)}
+      />
+      <CalendarExportDialog
+        open={exportingCalendar}
+        onOpenChange={setExportingCalendar}
+        name="Tasks"
+        tasks={tasks}
+      />
+    </Card>
+  );
+};
+
+export default ImportExportCard;
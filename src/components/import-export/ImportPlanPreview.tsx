@@ -0,0 +1,85 @@
+import { useMemo, useRef } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { useVirtualList } from "@/hooks/use-virtual-list";
+import {
+  countImportActions,
+  importActionLabels,
+  type ImportAction,
+  type ImportPlan,
+} from "@/lib/import";
+import { pluralize } from "@/lib/utils";
+
+const actionVariants: Record<ImportAction, "default" | "secondary" | "outline"> = {
+  create: "default",
+  merge: "secondary",
+  skip: "outline",
+};
+
+/** Every item of the plan; imports can run to thousands of lines. */
+const ImportPreviewList = ({ plan }: { plan: ImportPlan }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const keys = useMemo(() => plan.items.map((_, index) => String(index)), [plan]);
+  const { listRef, items, paddingStart, paddingEnd } = useVirtualList<HTMLUListElement>({
+    keys,
+    estimateSize: 44,
+    scrollRef,
+  });
+
+  return (
+    <div ref={scrollRef} className="max-h-72 overflow-y-auto rounded-md border">
+      <ul
+        ref={listRef}
+        className="divide-y"
+        style={{ paddingTop: paddingStart, paddingBottom: paddingEnd }}
+      >
+        {items.map(({ index }) => {
+          const item = plan.items[index];
+          return (
+            <li key={index} className="flex items-start gap-3 px-3 py-2 text-sm">
+              <span className="w-8 shrink-0 text-right text-xs tabular-nums text-muted-foreground">
+                {item.line}
+              </span>
+              <div className="min-w-0 flex-1">
+                <p className="truncate">{item.title}</p>
+                {item.detail && (
+                  <p className="truncate text-xs text-muted-foreground">{item.detail}</p>
+                )}
+              </div>
+              <Badge variant={actionVariants[item.action]} className="shrink-0 font-normal">
+                {importActionLabels[item.action]}
+              </Badge>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+/** What an import would create, merge and skip, item by item. */
+const ImportPlanPreview = ({ plan }: { plan: ImportPlan }) => {
+  const counts = countImportActions(plan);
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge>{counts.create} to create</Badge>
+        <Badge variant="secondary">{counts.merge} to merge</Badge>
+        <Badge variant="outline">{counts.skip} to skip</Badge>
+      </div>
+      {plan.projects.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Also creates {pluralize(plan.projects.length, "project")}:{" "}
+          {plan.projects.map((project) => project.name).join(", ")}
+        </p>
+      )}
+      {plan.items.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">Nothing to import.</p>
+      ) : (
+        <ImportPreviewList plan={plan} />
+      )}
+    </div>
+  );
+};
+
+export default ImportPlanPreview;
@@ -0,0 +1,51 @@
+import { useRef } from "react";
+import { Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface ImportSourceFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** File types offered by the file picker, as for `<input accept>`. */
+  accept: string;
+  placeholder?: string;
+}
+
+/** Pasted text, or the contents of a chosen file. */
+const ImportSourceField = ({ value, onChange, accept, placeholder }: ImportSourceFieldProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Textarea
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder={placeholder}
+        aria-label="Text to import"
+        className="min-h-48 font-mono text-xs"
+      />
+      <Button
+        variant="outline"
+        className="self-start"
+        onClick={() => fileInput.current?.click()}
+      >
+        <Upload />
+        Choose file…
+      </Button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept={accept}
+        className="hidden"
+        onChange={async (event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) onChange(await file.text());
+        }}
+      />
+    </div>
+  );
+};
+
+export default ImportSourceField;
@@ -0,0 +1,272 @@
+import { useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { applyRestorePlan, createLocalBackup } from "@/hooks/use-backups";
+import { useNotifications } from "@/hooks/use-notifications";
+import { useProjects } from "@/hooks/use-projects";
+import { useSettings } from "@/hooks/use-settings";
+import { useTasks } from "@/hooks/use-tasks";
+import { toast } from "@/hooks/use-toast";
+import {
+  describeArchive,
+  parseArchive,
+  planRestore,
+  restoreCollectionLabels,
+  type RestoreCollection,
+  type RestoreConflict,
+  type RestoreMode,
+} from "@/lib/backup";
+import { pluralize } from "@/lib/utils";
+import type { BackupArchive } from "@/types/backup";
+
+const LISTED_CONFLICTS = 100;
+
+const modeOptions: { mode: RestoreMode; label: string; description: string }[] = [
+  {
+    mode: "merge",
+    label: "Merge",
+    description:
+      "Adds what this device is missing. Where both sides changed a task or project, the later edit wins. Your preferences stay.",
+  },
+  {
+    mode: "replace",
+    label: "Replace everything",
+    description:
+      "Makes the app match the backup, including settings. Anything created since the backup is deleted.",
+  },
+];
+
+const ConflictList = ({ conflicts }: { conflicts: RestoreConflict[] }) => {
+  if (conflicts.length === 0) {
+    return <p className="text-sm text-muted-foreground">No conflicts.</p>;
+  }
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-sm font-medium">
+        {pluralize(conflicts.length, "conflict")}: changed both here and in the backup
+      </p>
+      <ul className="max-h-40 overflow-y-auto rounded-md border px-3 py-2 text-sm">
+        {conflicts.slice(0, LISTED_CONFLICTS).map((conflict) => (
+          <li key={`${conflict.collection}:${conflict.id}`} className="flex gap-2">
+            <span className="min-w-0 flex-1 truncate">
+              <span className="text-muted-foreground">
+                {restoreCollectionLabels[conflict.collection]}:
+              </span>{" "}
+              {conflict.name}
+            </span>
+            <span className="shrink-0 text-muted-foreground">
+              {conflict.kept === "backup" ? "uses the backup" : "keeps this device's"}
+            </span>
+          </li>
+        ))}
+        {conflicts.length > LISTED_CONFLICTS && (
+          <li className="text-muted-foreground">
+            and {pluralize(conflicts.length - LISTED_CONFLICTS, "more conflict")}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+interface RestoreDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** A backup that is already read, e.g. a local one; otherwise a file is asked for. */
+  archive?: BackupArchive | null;
+}
+
+/**
+ * Restores a backup file: checks and upgrades it, then shows what replacing
+ * or merging would change before anything is written. The current data is
+ * backed up locally first.
+ */
+const RestoreDialog = ({ open, onOpenChange, archive: given = null }: RestoreDialogProps) => {
+  const { tasks } = useTasks();
+  const { projects } = useProjects();
+  const { settings } = useSettings();
+  const { notifications } = useNotifications();
+  const [chosen, setChosen] = useState<BackupArchive | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [restoring, setRestoring] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const archive = given ?? chosen;
+
+  const plan = useMemo(
+    () => archive && planRestore(archive, { tasks, projects, settings, notifications }, mode),
+    [archive, tasks, projects, settings, notifications, mode]
+  );
+
+  const close = (value: boolean) => {
+    onOpenChange(value);
+    if (!value) {
+      setChosen(null);
+      setError(null);
+      setMode("merge");
+    }
+  };
+
+  const readFile = async (file: File) => {
+    try {
+      setChosen(parseArchive(await file.text()));
+      setError(null);
+    } catch (reason) {
+      setError(reason instanceof Error ? reason.message : "The file couldn't be read.");
+    }
+  };
+
+  const restore = async () => {
+    setRestoring(true);
+    try {
+      await createLocalBackup("restore");
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Couldn't back up the current data first",
+        description: "The restore went ahead; undo it right away if that was a mistake.",
+      });
+    }
+    await applyRestorePlan(plan);
+    setRestoring(false);
+    close(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Restore a backup</DialogTitle>
+          <DialogDescription>
+            {archive
+              ? `Made ${format(new Date(archive.createdAt), "PPp")}: ${describeArchive(archive)}.`
+              : "Choose a backup file exported from Todo Gopher."}
+          </DialogDescription>
+        </DialogHeader>
+        {!archive && (
+          <div className="flex flex-col gap-2">
+            <Button
+              variant="outline"
+              className="self-start"
+              onClick={() => fileInput.current?.click()}
+            >
+              <Upload />
+              Choose backup file…
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) void readFile(file);
+              }}
+            />
+            {error && (
+              <p className="text-sm text-destructive">This backup can't be restored. {error}</p>
+            )}
+          </div>
+        )}
+        {plan && (
+          <div className="flex min-w-0 flex-col gap-4">
+            <RadioGroup
+              value={mode}
+              onValueChange={(value) => setMode(value as RestoreMode)}
+              className="gap-3"
+            >
+              {modeOptions.map((option) => (
+                <div key={option.mode} className="flex items-start gap-2">
+                  <RadioGroupItem
+                    value={option.mode}
+                    id={`restore-${option.mode}`}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor={`restore-${option.mode}`} className="flex flex-col gap-1">
+                    <span>{option.label}</span>
+                    <span className="font-normal text-muted-foreground">
+                      {option.description}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    <TableHead className="text-right">Added</TableHead>
+                    <TableHead className="text-right">Updated</TableHead>
+                    <TableHead className="text-right">Deleted</TableHead>
+                    <TableHead className="text-right">Unchanged</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(plan.counts) as RestoreCollection[]).map((collection) => {
+                    const counts = plan.counts[collection];
+                    return (
+                      <TableRow key={collection}>
+                        <TableCell className="font-medium">
+                          {restoreCollectionLabels[collection]}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{counts.added}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {counts.updated}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {counts.removed}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {counts.unchanged}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <ConflictList conflicts={plan.conflicts} />
+          </div>
+        )}
+        <DialogFooter>
+          {chosen && !given && (
+            <Button variant="outline" onClick={() => setChosen(null)}>
+              Back
+            </Button>
+          )}
+          <Button
+            variant={mode === "replace" ? "destructive" : "default"}
+            disabled={!plan || restoring}
+            onClick={() => void restore()}
+          >
+            {mode === "replace" ? "Replace everything" : "Merge backup"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RestoreDialog;
@@ -0,0 +1,86 @@
+import { Outlet } from "react-router-dom";
+import { Search } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import CommandPalette from "@/components/command/CommandPalette";
+import NotificationBell from "@/components/notifications/NotificationBell";
+import KeyboardShortcutsDialog from "@/components/shortcuts/KeyboardShortcutsDialog";
+import ShortcutKeys from "@/components/shortcuts/ShortcutKeys";
+import TaskDeepLink from "@/components/tasks/TaskDeepLink";
+import ThemeToggle from "@/components/theme/ThemeToggle";
+import { useBackupScheduler } from "@/hooks/use-backups";
+import { openCommandPalette } from "@/hooks/use-command-palette";
+import { redo, undo } from "@/hooks/use-history";
+import { useReminderScheduler } from "@/hooks/use-reminders";
+import { useShortcutBindings, useShortcuts } from "@/hooks/use-shortcuts";
+import { useStorageError } from "@/hooks/use-storage";
+import { toast } from "@/hooks/use-toast";
+import AppSidebar from "./AppSidebar";
+import StorageErrorScreen from "./StorageErrorScreen";
+
+// SidebarProvider writes this cookie on every toggle; read it back so the
+// sidebar reopens the way it was left.
+const sidebarDefaultOpen = !document.cookie
+  .split("; ")
+  .includes("sidebar:state=false");
+
+const AppLayout = () => {
+  const { keysFor } = useShortcutBindings();
+  const storageError = useStorageError();
+  useReminderScheduler();
+  useBackupScheduler();
+
+  useShortcuts({
+    "history.undo": () => {
+      const entry = undo();
+      if (entry) toast({ title: `Undone: ${entry.label}` });
+    },
+    "history.redo": () => {
+      const entry = redo();
+      if (entry) toast({ title: `Redone: ${entry.label}` });
+    },
+  });
+
+  if (storageError) return <StorageErrorScreen error={storageError} />;
+
+  return (
+    <SidebarProvider defaultOpen={sidebarDefaultOpen}>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="sticky top-0 z-10 flex h-14 shrink-0 items-center gap-2 border-b bg-background/95 px-4 backdrop-blur">
+          <SidebarTrigger className="-ml-1" />
+          <Separator orientation="vertical" className="mr-2 h-4" />
+          <div className="flex-1" />
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-56 justify-start text-muted-foreground"
+            onClick={() => openCommandPalette()}
+          >
+            <Search />
+            Search…
+            {keysFor("palette.open") && (
+              <ShortcutKeys keys={keysFor("palette.open")} className="ml-auto" />
+            )}
+          </Button>
+          <ThemeToggle />
+          <NotificationBell />
+        </header>
+        <main className="flex flex-1 flex-col">
+          <Outlet />
+        </main>
+      </SidebarInset>
+      <CommandPalette />
+      <KeyboardShortcutsDialog />
+      <TaskDeepLink />
+    </SidebarProvider>
+  );
+};
+
+export default AppLayout;
@@ -0,0 +1,271 @@
+import { useMemo, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Archive, ChevronRight, ListTodo, Plus } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarRail,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import ProjectFormDialog, {
+  type ProjectFormValues,
+} from "@/components/projects/ProjectFormDialog";
+import ProjectMenuItem, {
+  type ProjectMenuActions,
+} from "@/components/projects/ProjectMenuItem";
+import SectionFormDialog from "@/components/projects/SectionFormDialog";
+import { useProjects } from "@/hooks/use-projects";
+import { useShortcuts } from "@/hooks/use-shortcuts";
+import { useTasks } from "@/hooks/use-tasks";
+import { buildProjectTree } from "@/lib/projects";
+import { isTaskDone } from "@/lib/tasks";
+import type { Project } from "@/types/project";
+import { navItems, settingsNavItem } from "./nav-items";
+
+type DialogState =
+  | { kind: "project"; project?: Project; parentId?: string | null }
+  | { kind: "section"; project: Project }
+  | { kind: "delete"; project: Project }
+  | null;
+
+const AppSidebar = () => {
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+  const { tasks } = useTasks();
+  const {
+    projects,
+    createProject,
+    updateProject,
+    moveProject,
+    archiveProject,
+    deleteProject,
+    addSection,
+  } = useProjects();
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const { toggleSidebar } = useSidebar();
+
+  useShortcuts({ "sidebar.toggle": toggleSidebar });
+
+  const counts = useMemo(() => {
+    const map = new Map<string, number>();
+    tasks.forEach((task) => {
+      if (task.projectId && !isTaskDone(task)) {
+        map.set(task.projectId, (map.get(task.projectId) ?? 0) + 1);
+      }
+    });
+    return map;
+  }, [tasks]);
+
+  const activeTree = useMemo(
+    () => buildProjectTree(projects.filter((p) => !p.archived)),
+    [projects]
+  );
+  const archived = projects.filter((p) => p.archived);
+
+  const actions: ProjectMenuActions = {
+    onEdit: (project) => setDialog({ kind: "project", project }),
+    onAddChild: (project) => setDialog({ kind: "project", parentId: project.id }),
+    onAddSection: (project) => setDialog({ kind: "section", project }),
+    onMove: (project, direction) => moveProject(project.id, direction),
+    onArchive: (project, value) => archiveProject(project.id, value),
+    onDelete: (project) => setDialog({ kind: "delete", project }),
+  };
+
+  const handleProjectSubmit = (values: ProjectFormValues) => {
+    if (dialog?.kind !== "project") return;
+    if (dialog.project) {
+      updateProject(dialog.project.id, values);
+    } else {
+      const project = createProject(values);
+      navigate(`/projects/${project.id}`);
+    }
+  };
+
+  const handleDelete = () => {
+    if (dialog?.kind !== "delete") return;
+    deleteProject(dialog.project.id);
+    if (pathname === `/projects/${dialog.project.id}`) navigate("/");
+  };
+
+  return (
+    <Sidebar collapsible="icon">
+      <SidebarHeader>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton size="lg" asChild>
+              <Link to="/">
+                <div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-sidebar-primary text-sidebar-primary-foreground">
+                  <ListTodo className="size-4" />
+                </div>
+                <span className="font-semibold">Todo Gopher</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Views</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {navItems.map(({ to, label, icon: Icon }) => (
+                <SidebarMenuItem key={to}>
+                  <SidebarMenuButton
+                    asChild
+                    isActive={pathname === to}
+                    tooltip={label}
+                  >
+                    <Link to={to}>
+                      <Icon />
+                      <span>{label}</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        <SidebarGroup>
+          <SidebarGroupLabel>Projects</SidebarGroupLabel>
+          <SidebarGroupAction
+            title="New project"
+            onClick={() => setDialog({ kind: "project" })}
+          >
+            <Plus />
+            <span className="sr-only">New project</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {activeTree.map((node) => (
+                <ProjectMenuItem
+                  key={node.project.id}
+                  node={node}
+                  counts={counts}
+                  actions={actions}
+                />
+              ))}
+              {activeTree.length === 0 && (
+                <SidebarMenuItem>
+                  <SidebarMenuButton
+                    tooltip="New project"
+                    className="text-sidebar-foreground/70"
+                    onClick={() => setDialog({ kind: "project" })}
+                  >
+                    <Plus />
+                    <span>Add a project</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        {archived.length > 0 && (
+          <Collapsible className="group/collapsible">
+            <SidebarGroup>
+              <SidebarGroupLabel asChild>
+                <CollapsibleTrigger>
+                  <Archive className="mr-2" />
+                  Archived · {archived.length}
+                  <ChevronRight className="ml-auto transition-transform group-data-[state=open]/collapsible:rotate-90" />
+                </CollapsibleTrigger>
+              </SidebarGroupLabel>
+              <CollapsibleContent>
+                <SidebarGroupContent>
+                  <SidebarMenu>
+                    {archived.map((project) => (
+                      <ProjectMenuItem
+                        key={project.id}
+                        node={{ project, children: [] }}
+                        counts={counts}
+                        actions={actions}
+                      />
+                    ))}
+                  </SidebarMenu>
+                </SidebarGroupContent>
+              </CollapsibleContent>
+            </SidebarGroup>
+          </Collapsible>
+        )}
+      </SidebarContent>
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              asChild
+              isActive={pathname === settingsNavItem.to}
+              tooltip={settingsNavItem.label}
+            >
+              <Link to={settingsNavItem.to}>
+                <settingsNavItem.icon />
+                <span>{settingsNavItem.label}</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+      <SidebarRail />
+
+      <ProjectFormDialog
+        open={dialog?.kind === "project"}
+        project={dialog?.kind === "project" ? dialog.project : undefined}
+        defaultParentId={dialog?.kind === "project" ? dialog.parentId : null}
+        projects={projects}
+        onOpenChange={(open) => !open && setDialog(null)}
+        onSubmit={handleProjectSubmit}
+      />
+      <SectionFormDialog
+        open={dialog?.kind === "section"}
+        onOpenChange={(open) => !open && setDialog(null)}
+        onSubmit={(name) =>
+          dialog?.kind === "section" && addSection(dialog.project.id, name)
+        }
+      />
+      <AlertDialog
+        open={dialog?.kind === "delete"}
+        onOpenChange={(open) => !open && setDialog(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {dialog?.kind === "delete" ? dialog.project.name : "project"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Its tasks move to the inbox and its sub-projects move up a level.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
+
+export default AppSidebar;
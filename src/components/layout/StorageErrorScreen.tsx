@@ -0,0 +1,44 @@
+import { DatabaseZap } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { StorageOpenError } from "@/lib/db";
+
+const messages = {
+  blocked: {
+    title: "Close this app's other tabs",
+    description:
+      "Another tab is still using an older version of your data, so this one can't update it yet. Close the other tabs, then try again.",
+  },
+  migration: {
+    title: "Your data couldn't be updated",
+    description:
+      "Nothing was changed: your data stays as it was saved. Reloading tries the update again.",
+  },
+};
+
+/**
+ * Shown instead of the app when its storage can't be opened, rather than
+ * starting an empty workspace next to the real one.
+ */
+const StorageErrorScreen = ({ error }: { error: Error }) => {
+  const known = error instanceof StorageOpenError;
+  const message = known
+    ? messages[error.reason]
+    : { title: "Couldn't open your data", description: "Reloading may help." };
+  // The blocked message already says everything the error does.
+  const detail = known && error.reason === "blocked" ? null : error.message;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-6">
+      <div className="flex max-w-md flex-col items-center gap-4 text-center">
+        <DatabaseZap className="size-10 text-muted-foreground" />
+        <h1 className="text-2xl font-bold">{message.title}</h1>
+        <p className="text-muted-foreground">{message.description}</p>
+        {detail && <p className="text-sm text-muted-foreground">{detail}</p>}
+        <Button onClick={() => window.location.reload()}>Try again</Button>
+      </div>
+    </div>
+  );
+};
+
+export default StorageErrorScreen;
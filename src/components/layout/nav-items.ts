@@ -0,0 +1,22 @@
+import {
+  BarChart3,
+  CalendarCheck,
+  CalendarDays,
+  KanbanSquare,
+  ListTodo,
+  Settings,
+  Table2,
+} from "lucide-react";
+
+/** Top-level views, shared by the sidebar and the command palette. */
+export const navItems = [
+  { to: "/", label: "List", icon: ListTodo, shortcut: "go.list" },
+  { to: "/today", label: "Today", icon: CalendarCheck, shortcut: "go.today" },
+  { to: "/board", label: "Board", icon: KanbanSquare, shortcut: "go.board" },
+  { to: "/table", label: "Table", icon: Table2, shortcut: "go.table" },
+  { to: "/calendar", label: "Calendar", icon: CalendarDays, shortcut: "go.calendar" },
+  { to: "/stats", label: "Stats", icon: BarChart3, shortcut: "go.stats" },
+];
+
+/** Lives in the sidebar footer rather than with the views. */
+export const settingsNavItem = { to: "/settings", label: "Settings", icon: Settings };
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { AlertCircle, AlarmClock, Bell, BellRing, CheckCheck, History } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useNotifications } from "@/hooks/use-notifications";
+import { snoozeReminder, useNotificationPermission } from "@/hooks/use-reminders";
+import { useTasks } from "@/hooks/use-tasks";
+import { toast } from "@/hooks/use-toast";
+import { taskLink } from "@/lib/notifications";
+import { snoozeOptions, type SnoozeOption } from "@/lib/reminders";
+import { cn } from "@/lib/utils";
+import {
+  NOTIFICATION_KINDS,
+  notificationKindLabels,
+  type AppNotification,
+  type NotificationKind,
+} from "@/types/notification";
+
+const kindIcons: Record<NotificationKind, typeof Bell> = {
+  reminder: BellRing,
+  error: AlertCircle,
+  activity: History,
+};
+
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { tasks } = useTasks();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState<NotificationKind | "all">("all");
+  const { permission, requestPermission } = useNotificationPermission();
+
+  const visible =
+    filter === "all"
+      ? notifications
+      : notifications.filter((notification) => notification.kind === filter);
+
+  const handleSelect = (notification: AppNotification) => {
+    markRead([notification.id]);
+    const task = tasks.find((t) => t.id === notification.taskId);
+    if (task) {
+      setOpen(false);
+      navigate(taskLink(task));
+    }
+  };
+
+  const handleSnooze = (notification: AppNotification, option: SnoozeOption) => {
+    markRead([notification.id]);
+    const until = snoozeReminder(notification.taskId, notification.reminderId, option);
+    toast({ title: `Snoozed until ${format(until, "EEE p")}` });
+  };
+
+  const canSnooze = (notification: AppNotification) =>
+    tasks.some(
+      (t) =>
+        t.id === notification.taskId &&
+        t.status !== "done" &&
+        t.reminders.some((r) => r.id === notification.reminderId)
+    );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={
+            unreadCount ? `Notifications, ${unreadCount} unread` : "Notifications"
+          }
+        >
+          <Bell />
+          {unreadCount > 0 && (
+            <span className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h2 className="text-sm font-semibold">Notifications</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7"
+            disabled={unreadCount === 0}
+            onClick={markAllRead}
+          >
+            <CheckCheck />
+            Mark all read
+          </Button>
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={filter}
+          onValueChange={(value) => value && setFilter(value as typeof filter)}
+          className="justify-start border-b px-2 py-1.5"
+        >
+          <ToggleGroupItem value="all">All</ToggleGroupItem>
+          {NOTIFICATION_KINDS.map((kind) => (
+            <ToggleGroupItem key={kind} value={kind}>
+              {notificationKindLabels[kind]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        {permission === "default" && (
+          <div className="flex items-center gap-2 border-b bg-muted/50 px-4 py-2 text-xs">
+            <span className="flex-1 text-muted-foreground">
+              Get reminders even when this tab is in the background.
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7"
+              onClick={() => void requestPermission()}
+            >
+              Enable
+            </Button>
+          </div>
+        )}
+        <ScrollArea className="h-80">
+          {visible.length === 0 ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">
+              Nothing here yet.
+            </p>
+          ) : (
+            <ul className="flex flex-col">
+              {visible.map((notification) => {
+                const Icon = kindIcons[notification.kind];
+                const linked = tasks.some((t) => t.id === notification.taskId);
+
+                return (
+                  <li
+                    key={notification.id}
+                    className={cn(
+                      "flex items-start border-b last:border-0",
+                      !notification.read && "bg-accent/40"
+                    )}
+                  >
+                    <button
+                      type="button"
+                      className="flex min-w-0 flex-1 items-start gap-3 px-4 py-3 text-left text-sm hover:bg-muted/50"
+                      onClick={() => handleSelect(notification)}
+                    >
+                      <Icon
+                        className={cn(
+                          "mt-0.5 h-4 w-4 shrink-0 text-muted-foreground",
+                          notification.kind === "error" && "text-destructive"
+                        )}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className={cn(!notification.read && "font-medium")}>
+                          {notification.title}
+                        </p>
+                        {notification.description && (
+                          <p className="truncate text-xs text-muted-foreground">
+                            {notification.description}
+                          </p>
+                        )}
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(notification.createdAt), {
+                            addSuffix: true,
+                          })}
+                          {linked && " · Open task"}
+                        </p>
+                      </div>
+                      {!notification.read && (
+                        <span
+                          className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary"
+                          aria-label="Unread"
+                        />
+                      )}
+                    </button>
+                    {notification.kind === "reminder" && canSnooze(notification) && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="mr-2 mt-2 h-7 w-7 shrink-0"
+                            aria-label="Snooze reminder"
+                          >
+                            <AlarmClock />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Snooze</DropdownMenuLabel>
+                          {snoozeOptions.map((option) => (
+                            <DropdownMenuItem
+                              key={option.id}
+                              onSelect={() => handleSnooze(notification, option.id)}
+                            >
+                              {option.label}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
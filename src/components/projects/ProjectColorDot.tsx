@@ -0,0 +1,16 @@
+import { cn } from "@/lib/utils";
+
+interface ProjectColorDotProps {
+  color: string;
+  className?: string;
+}
+
+const ProjectColorDot = ({ color, className }: ProjectColorDotProps) => (
+  <span
+    aria-hidden
+    className={cn("inline-block h-2.5 w-2.5 shrink-0 rounded-full", className)}
+    style={{ backgroundColor: color }}
+  />
+);
+
+export default ProjectColorDot;
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { Check } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PROJECT_COLORS, getDescendantIds } from "@/lib/projects";
+import { cn } from "@/lib/utils";
+import type { Project } from "@/types/project";
+
+export interface ProjectFormValues {
+  name: string;
+  color: string;
+  parentId: string | null;
+}
+
+interface ProjectFormDialogProps {
+  open: boolean;
+  /** The project being edited; omit to create one. */
+  project?: Project;
+  defaultParentId?: string | null;
+  projects: Project[];
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: ProjectFormValues) => void;
+}
+
+const TOP_LEVEL = "none";
+
+const ProjectFormDialog = ({
+  open,
+  project,
+  defaultParentId = null,
+  projects,
+  onOpenChange,
+  onSubmit,
+}: ProjectFormDialogProps) => {
+  const [values, setValues] = useState<ProjectFormValues>({
+    name: "",
+    color: PROJECT_COLORS[0],
+    parentId: null,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setValues(
+      project
+        ? { name: project.name, color: project.color, parentId: project.parentId }
+        : {
+            name: "",
+            color: PROJECT_COLORS[projects.length % PROJECT_COLORS.length],
+            parentId: defaultParentId,
+          }
+    );
+  }, [open, project, defaultParentId, projects.length]);
+
+  // A project cannot be nested under itself or one of its own descendants.
+  const excluded = new Set(
+    project ? [project.id, ...getDescendantIds(projects, project.id)] : []
+  );
+  const parents = projects.filter((p) => !p.archived && !excluded.has(p.id));
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!values.name.trim()) return;
+    onSubmit({ ...values, name: values.name.trim() });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{project ? "Edit project" : "New project"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="project-name">Name</Label>
+            <Input
+              id="project-name"
+              autoFocus
+              value={values.name}
+              onChange={(event) =>
+                setValues((v) => ({ ...v, name: event.target.value }))
+              }
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {PROJECT_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  aria-label={color}
+                  aria-pressed={values.color === color}
+                  className="flex h-7 w-7 items-center justify-center rounded-full ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  style={{ backgroundColor: color }}
+                  onClick={() => setValues((v) => ({ ...v, color }))}
+                >
+                  <Check
+                    className={cn(
+                      "h-4 w-4 text-white",
+                      values.color !== color && "invisible"
+                    )}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Parent project</Label>
+            <Select
+              value={values.parentId ?? TOP_LEVEL}
+              onValueChange={(value) =>
+                setValues((v) => ({
+                  ...v,
+                  parentId: value === TOP_LEVEL ? null : value,
+                }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TOP_LEVEL}>None (top level)</SelectItem>
+                {parents.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!values.name.trim()}>
+              {project ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectFormDialog;
@@ -0,0 +1,156 @@
+import { Link, useLocation, useSearchParams } from "react-router-dom";
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowDown,
+  ArrowUp,
+  FolderPlus,
+  MoreHorizontal,
+  Pencil,
+  Rows3,
+  Trash2,
+} from "lucide-react";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
+} from "@/components/ui/sidebar";
+import { sortedSections } from "@/lib/projects";
+import type { Project, ProjectNode } from "@/types/project";
+import ProjectColorDot from "./ProjectColorDot";
+
+export interface ProjectMenuActions {
+  onEdit: (project: Project) => void;
+  onAddChild: (project: Project) => void;
+  onAddSection: (project: Project) => void;
+  onMove: (project: Project, direction: -1 | 1) => void;
+  onArchive: (project: Project, archived: boolean) => void;
+  onDelete: (project: Project) => void;
+}
+
+interface ProjectMenuItemProps {
+  node: ProjectNode;
+  counts: Map<string, number>;
+  actions: ProjectMenuActions;
+}
+
+const ProjectMenuItem = ({ node, counts, actions }: ProjectMenuItemProps) => {
+  const { project, children } = node;
+  const { pathname } = useLocation();
+  const [searchParams] = useSearchParams();
+  const path = `/projects/${project.id}`;
+  const isActive = pathname === path;
+  const count = counts.get(project.id) ?? 0;
+  const sections = sortedSections(project);
+
+  return (
+    <SidebarMenuItem>
+      <SidebarMenuButton
+        asChild
+        isActive={isActive && !searchParams.get("section")}
+        tooltip={count ? `${project.name} (${count})` : project.name}
+      >
+        <Link to={path}>
+          <ProjectColorDot color={project.color} className="m-[3px]" />
+          <span>{project.name}</span>
+        </Link>
+      </SidebarMenuButton>
+      {count > 0 && (
+        <SidebarMenuBadge className="group-focus-within/menu-item:opacity-0 group-hover/menu-item:opacity-0">
+          {count}
+        </SidebarMenuBadge>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover aria-label={`${project.name} options`}>
+            <MoreHorizontal />
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          {project.archived ? (
+            <DropdownMenuItem onSelect={() => actions.onArchive(project, false)}>
+              <ArchiveRestore className="mr-2 h-4 w-4" />
+              Unarchive
+            </DropdownMenuItem>
+          ) : (
+            <>
+              <DropdownMenuItem onSelect={() => actions.onEdit(project)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit…
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => actions.onAddChild(project)}>
+                <FolderPlus className="mr-2 h-4 w-4" />
+                Add sub-project…
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => actions.onAddSection(project)}>
+                <Rows3 className="mr-2 h-4 w-4" />
+                Add section…
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => actions.onMove(project, -1)}>
+                <ArrowUp className="mr-2 h-4 w-4" />
+                Move up
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => actions.onMove(project, 1)}>
+                <ArrowDown className="mr-2 h-4 w-4" />
+                Move down
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => actions.onArchive(project, true)}>
+                <Archive className="mr-2 h-4 w-4" />
+                Archive
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuItem
+            className="text-destructive focus:text-destructive"
+            onSelect={() => actions.onDelete(project)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {(sections.length > 0 || children.length > 0) && !project.archived && (
+        <SidebarMenuSub>
+          {sections.map((section) => (
+            <SidebarMenuSubItem key={section.id}>
+              <SidebarMenuSubButton
+                asChild
+                size="sm"
+                isActive={isActive && searchParams.get("section") === section.id}
+              >
+                <Link to={`${path}?section=${section.id}`}>
+                  <Rows3 />
+                  <span>{section.name}</span>
+                </Link>
+              </SidebarMenuSubButton>
+            </SidebarMenuSubItem>
+          ))}
+          {children.map((child) => (
+            <ProjectMenuItem
+              key={child.project.id}
+              node={child}
+              counts={counts}
+              actions={actions}
+            />
+          ))}
+        </SidebarMenuSub>
+      )}
+    </SidebarMenuItem>
+  );
+};
+
+export default ProjectMenuItem;
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface SectionFormDialogProps {
+  open: boolean;
+  /** Current name when renaming; omit to add a section. */
+  name?: string;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (name: string) => void;
+}
+
+const SectionFormDialog = ({
+  open,
+  name: initialName,
+  onOpenChange,
+  onSubmit,
+}: SectionFormDialogProps) => {
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    if (open) setName(initialName ?? "");
+  }, [open, initialName]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onSubmit(name.trim());
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>
+              {initialName === undefined ? "New section" : "Rename section"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="section-name">Name</Label>
+            <Input
+              id="section-name"
+              autoFocus
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SectionFormDialog;
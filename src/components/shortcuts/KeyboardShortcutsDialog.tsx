@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { AlertTriangle, RotateCcw } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useSettings } from "@/hooks/use-settings";
+import { useShortcutBindings, useShortcuts } from "@/hooks/use-shortcuts";
+import { eventToChord } from "@/lib/keyboard";
+import { findConflicts, resolveShortcuts } from "@/lib/shortcuts";
+import ShortcutKeys from "./ShortcutKeys";
+
+const MAX_SEQUENCE_LENGTH = 3;
+
+interface Recording {
+  id: string;
+  chords: string[];
+  error?: string;
+}
+
+const KeyboardShortcutsDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const { settings } = useSettings();
+  const { shortcuts, conflicts, setShortcutKeys, resetShortcuts } =
+    useShortcutBindings();
+
+  useShortcuts({ "shortcuts.help": () => setOpen(true) });
+
+  const groups = [...new Set(shortcuts.map((s) => s.group))];
+  const descriptionOf = (id: string) =>
+    shortcuts.find((s) => s.id === id)?.description ?? id;
+
+  const save = ({ id, chords }: Recording) => {
+    const keys = chords.join(" ");
+    const clashes = findConflicts(
+      resolveShortcuts({ ...settings.shortcuts, [id]: keys })
+    ).get(id);
+    if (clashes) {
+      setRecording({
+        id,
+        chords,
+        error: `Already used by “${clashes.map(descriptionOf).join("”, “")}”.`,
+      });
+      return;
+    }
+    setShortcutKeys(id, keys);
+    setRecording(null);
+  };
+
+  const renderKeys = (keys: string, isRecording: boolean) =>
+    keys ? (
+      <ShortcutKeys keys={keys} />
+    ) : (
+      <span className="text-xs text-muted-foreground">
+        {isRecording ? "Press keys…" : "Unassigned"}
+      </span>
+    );
+
+  const handleRecordKeyDown = (event: React.KeyboardEvent) => {
+    if (!recording) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const { chords } = recording;
+    if (event.key === "Escape") {
+      setRecording(null);
+    } else if (event.key === "Enter") {
+      if (chords.length > 0) save(recording);
+    } else if (event.key === "Backspace") {
+      setRecording({ id: recording.id, chords: chords.slice(0, -1) });
+    } else {
+      const chord = eventToChord(event.nativeEvent);
+      if (chord && chords.length < MAX_SEQUENCE_LENGTH) {
+        setRecording({ id: recording.id, chords: [...chords, chord] });
+      }
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        setRecording(null);
+      }}
+    >
+      <DialogContent
+        className="sm:max-w-lg"
+        // Escape cancels a recording instead of closing the dialog.
+        onEscapeKeyDown={(event) => recording && event.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>
+            Click a shortcut to change it, press the new keys, then Enter.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="-mr-3 max-h-[60vh] overflow-y-auto pr-3">
+          <div className="flex flex-col gap-5">
+            {groups.map((group) => (
+              <section key={group}>
+                <h3 className="mb-2 text-sm font-medium text-muted-foreground">
+                  {group}
+                </h3>
+                <ul className="flex flex-col gap-1">
+                  {shortcuts
+                    .filter((shortcut) => shortcut.group === group)
+                    .map((shortcut) => {
+                      const isRecording = recording?.id === shortcut.id;
+                      const clashes = conflicts.get(shortcut.id);
+
+                      return (
+                        <li key={shortcut.id} className="flex flex-col gap-1 text-sm">
+                          <div className="flex items-center gap-2">
+                            <span className="mr-auto">
+                              {shortcut.description}
+                              {shortcut.scope === "list" && (
+                                <Badge variant="outline" className="ml-2 font-normal">
+                                  in task lists
+                                </Badge>
+                              )}
+                            </span>
+                            {clashes && (
+                              <AlertTriangle
+                                className="h-4 w-4 text-destructive"
+                                aria-label={`Conflicts with ${clashes.map(descriptionOf).join(", ")}`}
+                              />
+                            )}
+                            {shortcut.custom && !isRecording && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                aria-label={`Reset ${shortcut.description}`}
+                                onClick={() => setShortcutKeys(shortcut.id, null)}
+                              >
+                                <RotateCcw />
+                              </Button>
+                            )}
+                            <Button
+                              variant={isRecording ? "secondary" : "ghost"}
+                              size="sm"
+                              className="h-7 min-w-16 justify-end"
+                              onClick={() =>
+                                setRecording(
+                                  isRecording ? null : { id: shortcut.id, chords: [] }
+                                )
+                              }
+                              onKeyDown={isRecording ? handleRecordKeyDown : undefined}
+                            >
+                              {renderKeys(
+                                isRecording ? recording.chords.join(" ") : shortcut.keys,
+                                isRecording
+                              )}
+                            </Button>
+                          </div>
+                          {isRecording && recording.error && (
+                            <p className="text-xs text-destructive">{recording.error}</p>
+                          )}
+                          {!isRecording && clashes && (
+                            <p className="text-xs text-destructive">
+                              Conflicts with {clashes.map(descriptionOf).join(", ")}.
+                            </p>
+                          )}
+                        </li>
+                      );
+                    })}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={Object.keys(settings.shortcuts).length === 0}
+            onClick={() => {
+              resetShortcuts();
+              setRecording(null);
+            }}
+          >
+            Reset all to defaults
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyboardShortcutsDialog;
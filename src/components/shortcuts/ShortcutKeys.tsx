@@ -0,0 +1,23 @@
+import { formatShortcut } from "@/lib/keyboard";
+import { cn } from "@/lib/utils";
+
+interface ShortcutKeysProps {
+  keys: string;
+  className?: string;
+}
+
+/** Renders a binding such as `g t` as one key cap per chord. */
+const ShortcutKeys = ({ keys, className }: ShortcutKeysProps) => (
+  <span className={cn("inline-flex items-center gap-1", className)}>
+    {keys.split(" ").map((chord, index) => (
+      <kbd
+        key={index}
+        className="rounded border bg-muted px-1.5 py-0.5 font-mono text-[10px] font-medium text-muted-foreground"
+      >
+        {formatShortcut(chord)}
+      </kbd>
+    ))}
+  </span>
+);
+
+export default ShortcutKeys;
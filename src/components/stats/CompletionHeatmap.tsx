@@ -0,0 +1,240 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { CheckCircle2, Flame, Trophy } from "lucide-react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import ProjectColorDot from "@/components/projects/ProjectColorDot";
+import { taskLink } from "@/lib/notifications";
+import {
+  HEATMAP_LEVELS,
+  completionHeatmap,
+  completionStreaks,
+  filterStatsTasks,
+  tasksCompletedOn,
+  type HeatmapDay,
+} from "@/lib/stats";
+import { pluralize } from "@/lib/utils";
+import type { Project } from "@/types/project";
+import type { Task } from "@/types/task";
+
+const ALL = "all";
+const WEEKDAY_LABELS = ["Mon", "", "Wed", "", "Fri", "", ""];
+
+/** Theme tokens rather than fixed colors, so custom and dark themes apply. */
+function levelColor(level: number) {
+  return level === 0
+    ? "hsl(var(--muted))"
+    : `hsl(var(--primary) / ${(0.25 + (0.75 * level) / HEATMAP_LEVELS).toFixed(2)})`;
+}
+
+interface CompletionHeatmapProps {
+  tasks: Task[];
+  projects: Project[];
+}
+
+const CompletionHeatmap = ({ tasks, projects }: CompletionHeatmapProps) => {
+  const navigate = useNavigate();
+  const [scope, setScope] = useState(ALL);
+  const [openDay, setOpenDay] = useState<Date | null>(null);
+
+  const tags = useMemo(
+    () => [...new Set(tasks.flatMap((task) => task.tags))].sort(),
+    [tasks]
+  );
+
+  const scoped = useMemo(() => {
+    const [kind, value] = scope.split(/:(.*)/);
+    return filterStatsTasks(tasks, {
+      projectIds: kind === "project" ? [value] : [],
+      tag: kind === "tag" ? value : null,
+    });
+  }, [tasks, scope]);
+
+  const weeks = useMemo(() => completionHeatmap(scoped), [scoped]);
+  const streaks = useMemo(() => completionStreaks(scoped), [scoped]);
+  const total = weeks.flat().reduce((sum, day) => sum + day.count, 0);
+  const dayTasks = openDay ? tasksCompletedOn(scoped, openDay) : [];
+
+  const renderDay = (day: HeatmapDay) =>
+    day.future ? (
+      <span key={day.key} className="h-[11px] w-[11px]" />
+    ) : (
+      <Tooltip key={day.key} delayDuration={0}>
+        <TooltipTrigger asChild>
+          <button
+            type="button"
+            className="h-[11px] w-[11px] rounded-[2px] outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            style={{ backgroundColor: levelColor(day.level) }}
+            aria-label={`${pluralize(day.count, "task")} completed on ${format(day.date, "PPP")}`}
+            onClick={() => day.count > 0 && setOpenDay(day.date)}
+          />
+        </TooltipTrigger>
+        <TooltipContent>
+          <span className="font-medium">
+            {day.count === 0 ? "No tasks" : pluralize(day.count, "task")}
+          </span>{" "}
+          completed on {format(day.date, "EEE, MMM d, yyyy")}
+        </TooltipContent>
+      </Tooltip>
+    );
+
+  return (
+    <Card>
+      <CardHeader className="flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="flex flex-col gap-1.5">
+          <CardTitle className="text-lg">Completion history</CardTitle>
+          <CardDescription>
+            {pluralize(total, "task")} completed in the last year
+          </CardDescription>
+        </div>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All tasks</SelectItem>
+            {projects.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Projects</SelectLabel>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={`project:${project.id}`}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+            {tags.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Tags</SelectLabel>
+                {tags.map((tag) => (
+                  <SelectItem key={tag} value={`tag:${tag}`}>
+                    #{tag}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <div className="flex gap-6 text-sm">
+          <span className="flex items-center gap-2">
+            <Flame className="h-4 w-4 text-muted-foreground" />
+            Current streak
+            <span className="font-semibold tabular-nums">
+              {pluralize(streaks.current, "day")}
+            </span>
+          </span>
+          <span className="flex items-center gap-2">
+            <Trophy className="h-4 w-4 text-muted-foreground" />
+            Longest streak
+            <span className="font-semibold tabular-nums">
+              {pluralize(streaks.longest, "day")}
+            </span>
+          </span>
+        </div>
+        <div className="overflow-x-auto pb-2">
+          <div className="inline-flex flex-col gap-1 text-[10px] text-muted-foreground">
+            <div className="ml-8 flex gap-[3px]">
+              {weeks.map((week) => (
+                <span key={week[0].key} className="w-[11px] overflow-visible whitespace-nowrap">
+                  {week[0].date.getDate() <= 7 ? format(week[0].date, "MMM") : ""}
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-[3px]">
+              <div className="flex w-8 shrink-0 flex-col gap-[3px]">
+                {WEEKDAY_LABELS.map((label, index) => (
+                  <span key={index} className="h-[11px] leading-[11px]">
+                    {label}
+                  </span>
+                ))}
+              </div>
+              {weeks.map((week) => (
+                <div key={week[0].key} className="flex flex-col gap-[3px]">
+                  {week.map(renderDay)}
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-end gap-[3px]">
+              <span className="mr-1">Less</span>
+              {Array.from({ length: HEATMAP_LEVELS + 1 }, (_, level) => (
+                <span
+                  key={level}
+                  className="h-[11px] w-[11px] rounded-[2px]"
+                  style={{ backgroundColor: levelColor(level) }}
+                />
+              ))}
+              <span className="ml-1">More</span>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+      <Dialog open={!!openDay} onOpenChange={(open) => !open && setOpenDay(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{openDay && format(openDay, "EEEE, MMMM d, yyyy")}</DialogTitle>
+            <DialogDescription>
+              {pluralize(dayTasks.length, "task")} completed
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="-mx-2 flex max-h-[60vh] flex-col overflow-y-auto">
+            {dayTasks.map((task) => {
+              const project = projects.find((p) => p.id === task.projectId);
+              return (
+                <li key={task.id}>
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 rounded-md px-2 py-2 text-left text-sm hover:bg-muted"
+                    onClick={() => {
+                      setOpenDay(null);
+                      navigate(taskLink(task));
+                    }}
+                  >
+                    <CheckCircle2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="flex-1 truncate">{task.title}</span>
+                    {project && (
+                      <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                        <ProjectColorDot color={project.color} />
+                        {project.name}
+                      </span>
+                    )}
+                    <span className="text-xs tabular-nums text-muted-foreground">
+                      {format(new Date(task.completedAt), "p")}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default CompletionHeatmap;
@@ -0,0 +1,153 @@
+import { format } from "date-fns";
+import { CalendarRange, FolderKanban } from "lucide-react";
+import type { DateRange } from "react-day-picker";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import ProjectColorDot from "@/components/projects/ProjectColorDot";
+import {
+  rangePresetLabels,
+  type RangePreset,
+  type StatsGranularity,
+  type StatsRange,
+} from "@/lib/stats";
+import type { Project } from "@/types/project";
+
+interface StatsFilterBarProps {
+  preset: RangePreset;
+  range: StatsRange;
+  granularity: StatsGranularity;
+  projects: Project[];
+  projectIds: (string | null)[];
+  onPresetChange: (preset: RangePreset) => void;
+  onRangeChange: (range: StatsRange) => void;
+  onGranularityChange: (granularity: StatsGranularity) => void;
+  onProjectIdsChange: (projectIds: (string | null)[]) => void;
+}
+
+const StatsFilterBar = ({
+  preset,
+  range,
+  granularity,
+  projects,
+  projectIds,
+  onPresetChange,
+  onRangeChange,
+  onGranularityChange,
+  onProjectIdsChange,
+}: StatsFilterBarProps) => {
+  const toggleProject = (id: string | null, checked: boolean) =>
+    onProjectIdsChange(
+      checked ? [...projectIds, id] : projectIds.filter((projectId) => projectId !== id)
+    );
+
+  const projectLabel =
+    projectIds.length === 0
+      ? "All projects"
+      : projectIds.length === 1
+        ? (projects.find((p) => p.id === projectIds[0])?.name ?? "Inbox")
+        : `${projectIds.length} projects`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={preset} onValueChange={(value: RangePreset) => onPresetChange(value)}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(rangePresetLabels) as RangePreset[]).map((value) => (
+            <SelectItem key={value} value={value}>
+              {rangePresetLabels[value]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {preset === "custom" && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="font-normal">
+              <CalendarRange />
+              {format(range.start, "MMM d, yyyy")} – {format(range.end, "MMM d, yyyy")}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              numberOfMonths={2}
+              defaultMonth={range.start}
+              selected={{ from: range.start, to: range.end }}
+              onSelect={(selected: DateRange | undefined) =>
+                selected?.from &&
+                onRangeChange({ start: selected.from, end: selected.to ?? selected.from })
+              }
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        value={granularity}
+        onValueChange={(value) => value && onGranularityChange(value as StatsGranularity)}
+      >
+        <ToggleGroupItem value="day">Daily</ToggleGroupItem>
+        <ToggleGroupItem value="week">Weekly</ToggleGroupItem>
+      </ToggleGroup>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="font-normal">
+            <FolderKanban />
+            {projectLabel}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+          <DropdownMenuItem
+            disabled={projectIds.length === 0}
+            onSelect={() => onProjectIdsChange([])}
+          >
+            All projects
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuCheckboxItem
+            checked={projectIds.includes(null)}
+            onSelect={(event) => event.preventDefault()}
+            onCheckedChange={(checked) => toggleProject(null, checked)}
+          >
+            Inbox
+          </DropdownMenuCheckboxItem>
+          {projects.map((project) => (
+            <DropdownMenuCheckboxItem
+              key={project.id}
+              checked={projectIds.includes(project.id)}
+              onSelect={(event) => event.preventDefault()}
+              onCheckedChange={(checked) => toggleProject(project.id, checked)}
+            >
+              <ProjectColorDot color={project.color} className="mr-2" />
+              {project.name}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+export default StatsFilterBar;
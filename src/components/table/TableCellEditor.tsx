@@ -0,0 +1,101 @@
+import { useRef } from "react";
+
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { INBOX_FILTER, editValue, type TableColumn } from "@/lib/table";
+import type { Project } from "@/types/project";
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  priorityLabels,
+  statusLabels,
+  type Task,
+} from "@/types/task";
+
+/** Where the active cell goes after a commit. */
+export type EditorMove = "down" | "right" | "left" | null;
+
+interface TableCellEditorProps {
+  task: Task;
+  column: TableColumn;
+  projects: Project[];
+  onCommit: (value: string, move: EditorMove) => void;
+  onCancel: () => void;
+}
+
+const TableCellEditor = ({ task, column, projects, onCommit, onCancel }: TableCellEditorProps) => {
+  // Radix reports closing after a pick too; only a close without one cancels.
+  const picked = useRef(false);
+  const initial = editValue(task, column);
+
+  const options =
+    column.kind === "status"
+      ? TASK_STATUSES.map((value) => ({ value, label: statusLabels[value] }))
+      : column.kind === "priority"
+        ? TASK_PRIORITIES.map((value) => ({ value, label: priorityLabels[value] }))
+        : column.kind === "project"
+          ? [
+              { value: INBOX_FILTER, label: "Inbox" },
+              ...projects.map((p) => ({ value: p.id, label: p.name })),
+            ]
+          : null;
+
+  if (options) {
+    return (
+      <Select
+        defaultOpen
+        defaultValue={initial}
+        onValueChange={(value) => {
+          picked.current = true;
+          onCommit(value, null);
+        }}
+        onOpenChange={(open) => !open && !picked.current && onCancel()}
+      >
+        <SelectTrigger className="h-7 px-2">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      autoFocus
+      type={column.kind === "date" ? "date" : column.kind === "number" ? "number" : "text"}
+      className="h-7 px-2"
+      defaultValue={initial}
+      aria-label={column.label}
+      onFocus={(event) => event.currentTarget.select?.()}
+      onKeyDown={(event) => {
+        // Keys here belong to the editor, not the grid's navigation.
+        event.stopPropagation();
+        if (event.key === "Enter") {
+          event.preventDefault();
+          onCommit(event.currentTarget.value, "down");
+        } else if (event.key === "Tab") {
+          event.preventDefault();
+          onCommit(event.currentTarget.value, event.shiftKey ? "left" : "right");
+        } else if (event.key === "Escape") {
+          event.preventDefault();
+          onCancel();
+        }
+      }}
+      onBlur={(event) => onCommit(event.currentTarget.value, null)}
+    />
+  );
+};
+
+export default TableCellEditor;
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Columns3, Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useTableView } from "@/hooks/use-table-view";
+import type { CustomFieldType } from "@/types/task";
+
+/** Column visibility and order, plus adding and removing custom fields. */
+const TableColumnsMenu = () => {
+  const {
+    columns,
+    hidden,
+    setColumnHidden,
+    reorderColumn,
+    resetTableView,
+    addCustomField,
+    deleteCustomField,
+  } = useTableView();
+  const [fieldName, setFieldName] = useState("");
+  const [fieldType, setFieldType] = useState<CustomFieldType>("text");
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!fieldName.trim()) return;
+    addCustomField(fieldName, fieldType);
+    setFieldName("");
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <Columns3 />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <ul className="flex max-h-72 flex-col gap-1 overflow-y-auto">
+          {columns.map((column, index) => (
+            <li key={column.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                id={`column-${column.id}`}
+                checked={!hidden.includes(column.id)}
+                // The title is what rows are recognised by, so it always stays.
+                disabled={column.id === "title"}
+                onCheckedChange={(checked) => setColumnHidden(column.id, !checked)}
+              />
+              <label htmlFor={`column-${column.id}`} className="flex-1 truncate">
+                {column.label}
+              </label>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label={`Move ${column.label} left`}
+                disabled={index === 0}
+                onClick={() => reorderColumn(column.id, columns[index - 1].id)}
+              >
+                <ArrowUp />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label={`Move ${column.label} right`}
+                disabled={index === columns.length - 1}
+                onClick={() => reorderColumn(column.id, columns[index + 1].id)}
+              >
+                <ArrowDown />
+              </Button>
+              {column.fieldId ? (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Delete field ${column.label}`}
+                  onClick={() => deleteCustomField(column.fieldId)}
+                >
+                  <Trash2 />
+                </Button>
+              ) : (
+                <span className="w-7" />
+              )}
+            </li>
+          ))}
+        </ul>
+        <Separator className="my-3" />
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            placeholder="New field"
+            aria-label="New field name"
+            className="h-8"
+            value={fieldName}
+            onChange={(event) => setFieldName(event.target.value)}
+          />
+          <Select
+            value={fieldType}
+            onValueChange={(value: CustomFieldType) => setFieldType(value)}
+          >
+            <SelectTrigger className="h-8 w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="text">Text</SelectItem>
+              <SelectItem value="number">Number</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            type="submit"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            aria-label="Add field"
+            disabled={!fieldName.trim()}
+          >
+            <Plus />
+          </Button>
+        </form>
+        <Button variant="ghost" size="sm" className="mt-2 w-full" onClick={resetTableView}>
+          Reset layout
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TableColumnsMenu;
@@ -0,0 +1,560 @@
+import { useLayoutEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Download, Maximize2 } from "lucide-react";
+import { format } from "date-fns";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ProjectColorDot from "@/components/projects/ProjectColorDot";
+import TaskEditDialog from "@/components/tasks/TaskEditDialog";
+import TaskPriorityBadge from "@/components/tasks/TaskPriorityBadge";
+import { useTableView } from "@/hooks/use-table-view";
+import { useTaskSelection } from "@/hooks/use-task-selection";
+import { toast } from "@/hooks/use-toast";
+import { updateTask } from "@/hooks/use-tasks";
+import { useVirtualList } from "@/hooks/use-virtual-list";
+import { exportTasksCsv } from "@/lib/csv";
+import { exportFileName } from "@/lib/import";
+import { isEditableTarget } from "@/lib/keyboard";
+import {
+  INBOX_FILTER,
+  MIN_COLUMN_WIDTH,
+  displayValue,
+  dueFilterLabels,
+  matchesTableFilters,
+  parseCellInput,
+  selectRange,
+  sortTableTasks,
+  type TableColumn,
+  type TableFilters,
+  type TableSort,
+} from "@/lib/table";
+import { isTaskOverdue } from "@/lib/tasks";
+import { cn, downloadFile } from "@/lib/utils";
+import type { Project } from "@/types/project";
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  priorityLabels,
+  statusLabels,
+  type Task,
+} from "@/types/task";
+import TableCellEditor, { type EditorMove } from "./TableCellEditor";
+
+// Select items can't have an empty value, so "no filter" needs a stand-in.
+const ANY = "__any";
+const SELECT_COLUMN_WIDTH = 40;
+
+interface Cell {
+  row: number;
+  col: number;
+}
+
+/** Holds the place of rows scrolled out of the rendered window. */
+const SpacerRow = ({ height, columns }: { height: number; columns: number }) =>
+  height > 0 ? (
+    <tr aria-hidden data-virtual-spacer>
+      <td colSpan={columns} className="p-0" style={{ height }} />
+    </tr>
+  ) : null;
+
+interface TaskTableProps {
+  tasks: Task[];
+  projects: Project[];
+}
+
+const TaskTable = ({ tasks, projects }: TaskTableProps) => {
+  const { visibleColumns, setColumnWidth, reorderColumn } = useTableView();
+  const { selectedIds, isSelected, setSelection, toggleSelected } = useTaskSelection();
+  const [sort, setSort] = useState<TableSort | null>(null);
+  const [filters, setFilters] = useState<TableFilters>({});
+  const [active, setActive] = useState<Cell | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [anchorId, setAnchorId] = useState<Task["id"] | null>(null);
+  const [resizing, setResizing] = useState<{ id: string; width: number } | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [opened, setOpened] = useState<Task | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLTableSectionElement>(null);
+  const [headerHeight, setHeaderHeight] = useState(0);
+
+  const context = useMemo(() => ({ projects }), [projects]);
+  const rows = useMemo(
+    () =>
+      sortTableTasks(
+        tasks.filter((task) => matchesTableFilters(task, visibleColumns, filters, context)),
+        sort,
+        visibleColumns,
+        context
+      ),
+    [tasks, visibleColumns, filters, sort, context]
+  );
+  const rowIds = useMemo(() => rows.map((task) => task.id), [rows]);
+  const { listRef, items, paddingStart, paddingEnd, scrollToIndex } =
+    useVirtualList<HTMLTableSectionElement>({
+      keys: rowIds,
+      estimateSize: 40,
+      overscan: 10,
+      scrollRef: gridRef,
+      scrollPaddingStart: headerHeight,
+    });
+
+  useLayoutEffect(() => setHeaderHeight(headerRef.current?.offsetHeight ?? 0), []);
+  const allSelected = rows.length > 0 && rows.every((task) => isSelected(task.id));
+
+  const widthOf = (column: TableColumn) =>
+    resizing?.id === column.id ? resizing.width : column.width;
+  const tableWidth =
+    SELECT_COLUMN_WIDTH + visibleColumns.reduce((sum, column) => sum + widthOf(column), 0);
+
+  const focusCell = (cell: Cell) => {
+    const row = Math.min(Math.max(cell.row, 0), rows.length - 1);
+    const col = Math.min(Math.max(cell.col, 0), visibleColumns.length - 1);
+    if (row < 0 || col < 0) return;
+    setActive({ row, col });
+    // Offscreen rows aren't rendered, so bring the row in first; the cell
+    // exists by the next frame and can then be scrolled to sideways.
+    scrollToIndex(row);
+    requestAnimationFrame(() => {
+      gridRef.current
+        ?.querySelector(`[data-cell="${row}:${col}"]`)
+        ?.scrollIntoView({ block: "nearest", inline: "nearest" });
+    });
+  };
+
+  const selectRow = (row: number, extend: boolean) => {
+    const id = rowIds[row];
+    if (!id) return;
+    if (extend && anchorId) {
+      setSelection(selectRange(rowIds, anchorId, id));
+    } else {
+      setSelection([id]);
+      setAnchorId(id);
+    }
+  };
+
+  const moveTo = (cell: Cell, extend = false) => {
+    focusCell(cell);
+    if (cell.row !== active?.row || extend) {
+      selectRow(Math.min(Math.max(cell.row, 0), rows.length - 1), extend);
+    }
+  };
+
+  const commit = (task: Task, column: TableColumn, input: string, move: EditorMove) => {
+    setEditing(false);
+    const patch = parseCellInput(task, column, input);
+    if (patch === null) {
+      toast({
+        variant: "destructive",
+        title: `Invalid ${column.label.toLowerCase()}`,
+        description: `“${input}” was not saved.`,
+      });
+    } else if (Object.keys(patch).length > 0) {
+      updateTask(task.id, patch);
+    }
+
+    if (active) {
+      if (move === "down") focusCell({ row: active.row + 1, col: active.col });
+      if (move === "right") focusCell({ row: active.row, col: active.col + 1 });
+      if (move === "left") focusCell({ row: active.row, col: active.col - 1 });
+    }
+    gridRef.current?.focus({ preventScroll: true });
+  };
+
+  const cancel = () => {
+    setEditing(false);
+    gridRef.current?.focus({ preventScroll: true });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Filters and editors handle their own keys.
+    if (editing || isEditableTarget(event.target) || rows.length === 0) return;
+    const cell = active ?? { row: 0, col: 0 };
+    const lastCol = visibleColumns.length - 1;
+
+    switch (event.key) {
+      case "ArrowDown":
+        moveTo({ ...cell, row: active ? cell.row + 1 : 0 }, event.shiftKey);
+        break;
+      case "ArrowUp":
+        moveTo({ ...cell, row: cell.row - 1 }, event.shiftKey);
+        break;
+      case "ArrowRight":
+        focusCell({ ...cell, col: cell.col + 1 });
+        break;
+      case "ArrowLeft":
+        focusCell({ ...cell, col: cell.col - 1 });
+        break;
+      case "Tab":
+        if (event.shiftKey ? cell.col === 0 : cell.col === lastCol) return;
+        focusCell({ ...cell, col: cell.col + (event.shiftKey ? -1 : 1) });
+        break;
+      case "Home":
+        focusCell(event.ctrlKey || event.metaKey ? { row: 0, col: 0 } : { ...cell, col: 0 });
+        break;
+      case "End":
+        focusCell(
+          event.ctrlKey || event.metaKey
+            ? { row: rows.length - 1, col: lastCol }
+            : { ...cell, col: lastCol }
+        );
+        break;
+      case "Enter":
+      case "F2":
+        if (!active) return;
+        setEditing(true);
+        break;
+      case " ":
+        if (!active) return;
+        toggleSelected(rowIds[cell.row]);
+        break;
+      default:
+        // Letters are left to the global shortcuts (x, e, m, d…), which act
+        // on the selected rows.
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const handleCellClick = (event: React.MouseEvent, row: number, col: number) => {
+    focusCell({ row, col });
+    const id = rowIds[row];
+    if (event.shiftKey && anchorId) {
+      setSelection(selectRange(rowIds, anchorId, id));
+    } else if (event.metaKey || event.ctrlKey) {
+      toggleSelected(id);
+      setAnchorId(id);
+    } else {
+      setSelection([id]);
+      setAnchorId(id);
+    }
+  };
+
+  const cycleSort = (column: TableColumn) =>
+    setSort((current) =>
+      current?.columnId !== column.id
+        ? { columnId: column.id, direction: "asc" }
+        : current.direction === "asc"
+          ? { columnId: column.id, direction: "desc" }
+          : null
+    );
+
+  const startResize = (event: React.PointerEvent, column: TableColumn) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const handle = event.currentTarget;
+    handle.setPointerCapture(event.pointerId);
+    const startX = event.clientX;
+    let width = column.width;
+
+    const onMove = (move: PointerEvent) => {
+      width = Math.max(MIN_COLUMN_WIDTH, column.width + move.clientX - startX);
+      setResizing({ id: column.id, width });
+    };
+    const onUp = () => {
+      handle.removeEventListener("pointermove", onMove);
+      handle.removeEventListener("pointerup", onUp);
+      setResizing(null);
+      if (width !== column.width) setColumnWidth(column.id, width);
+    };
+    handle.addEventListener("pointermove", onMove);
+    handle.addEventListener("pointerup", onUp);
+  };
+
+  const setFilter = (id: string, value: string) =>
+    setFilters((current) => ({ ...current, [id]: value === ANY ? "" : value }));
+
+  const renderFilter = (column: TableColumn) => {
+    const options =
+      column.kind === "status"
+        ? TASK_STATUSES.map((value) => ({ value, label: statusLabels[value] }))
+        : column.kind === "priority"
+          ? TASK_PRIORITIES.map((value) => ({ value, label: priorityLabels[value] }))
+          : column.kind === "project"
+            ? [
+                { value: INBOX_FILTER, label: "Inbox" },
+                ...projects.map((p) => ({ value: p.id, label: p.name })),
+              ]
+            : column.kind === "date"
+              ? Object.entries(dueFilterLabels).map(([value, label]) => ({ value, label }))
+              : null;
+
+    if (options) {
+      return (
+        <Select
+          value={filters[column.id] || ANY}
+          onValueChange={(value) => setFilter(column.id, value)}
+        >
+          <SelectTrigger className="h-7 px-2 text-xs" aria-label={`Filter ${column.label}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            {options.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        className="h-7 px-2 text-xs"
+        placeholder="Filter…"
+        aria-label={`Filter ${column.label}`}
+        value={filters[column.id] ?? ""}
+        onChange={(event) => setFilter(column.id, event.target.value)}
+      />
+    );
+  };
+
+  const renderValue = (task: Task, column: TableColumn) => {
+    switch (column.kind) {
+      case "priority":
+        return <TaskPriorityBadge priority={task.priority} />;
+      case "project": {
+        const project = projects.find((p) => p.id === task.projectId);
+        return (
+          <span className="flex items-center gap-2 truncate">
+            {project && <ProjectColorDot color={project.color} />}
+            <span className="truncate">{project?.name ?? "Inbox"}</span>
+          </span>
+        );
+      }
+      case "date":
+        return task.dueDate ? (
+          <span className={cn(isTaskOverdue(task) && "text-destructive")}>
+            {format(new Date(task.dueDate), "MMM d, yyyy")}
+          </span>
+        ) : null;
+      case "tags":
+        return (
+          <span className="flex gap-1 overflow-hidden">
+            {task.tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="font-normal">
+                #{tag}
+              </Badge>
+            ))}
+          </span>
+        );
+      default:
+        return <span className="truncate">{displayValue(task, column, context)}</span>;
+    }
+  };
+
+  return (
+    <>
+      <div
+        ref={gridRef}
+        role="grid"
+        aria-label="Tasks"
+        // The two header rows count too.
+        aria-rowcount={rows.length + 2}
+        aria-multiselectable
+        tabIndex={0}
+        className="relative max-h-[calc(100vh-12rem)] overflow-auto rounded-md border focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        style={{ scrollPaddingTop: headerHeight }}
+        onKeyDown={handleKeyDown}
+      >
+        <table className="table-fixed caption-bottom text-sm" style={{ width: tableWidth }}>
+          <colgroup>
+            <col style={{ width: SELECT_COLUMN_WIDTH }} />
+            {visibleColumns.map((column) => (
+              <col key={column.id} style={{ width: widthOf(column) }} />
+            ))}
+          </colgroup>
+          <TableHeader ref={headerRef} className="sticky top-0 z-10 bg-background">
+            <TableRow className="hover:bg-transparent">
+              <TableHead className="px-3">
+                <Checkbox
+                  aria-label="Select all rows"
+                  checked={allSelected}
+                  onCheckedChange={(checked) => setSelection(checked ? rowIds : [])}
+                />
+              </TableHead>
+              {visibleColumns.map((column) => (
+                <TableHead
+                  key={column.id}
+                  draggable
+                  aria-sort={
+                    sort?.columnId === column.id
+                      ? sort.direction === "asc"
+                        ? "ascending"
+                        : "descending"
+                      : undefined
+                  }
+                  className={cn(
+                    "relative cursor-pointer select-none px-3",
+                    column.kind === "number" && "text-right",
+                    dragId && dragId !== column.id && "hover:bg-muted"
+                  )}
+                  onClick={() => cycleSort(column)}
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = "move";
+                    setDragId(column.id);
+                  }}
+                  onDragOver={(event) => dragId && event.preventDefault()}
+                  onDrop={(event) => {
+                    event.preventDefault();
+                    if (dragId && dragId !== column.id) reorderColumn(dragId, column.id);
+                    setDragId(null);
+                  }}
+                  onDragEnd={() => setDragId(null)}
+                >
+                  <span className="flex items-center gap-1 truncate">
+                    <span className="truncate">{column.label}</span>
+                    {sort?.columnId === column.id &&
+                      (sort.direction === "asc" ? (
+                        <ArrowUp className="h-3.5 w-3.5 shrink-0" />
+                      ) : (
+                        <ArrowDown className="h-3.5 w-3.5 shrink-0" />
+                      ))}
+                  </span>
+                  <span
+                    role="separator"
+                    aria-orientation="vertical"
+                    aria-label={`Resize ${column.label}`}
+                    className="absolute inset-y-0 right-0 w-1.5 cursor-col-resize hover:bg-border"
+                    draggable={false}
+                    onClick={(event) => event.stopPropagation()}
+                    onDragStart={(event) => event.preventDefault()}
+                    onPointerDown={(event) => startResize(event, column)}
+                  />
+                </TableHead>
+              ))}
+            </TableRow>
+            <TableRow className="hover:bg-transparent">
+              <TableHead />
+              {visibleColumns.map((column) => (
+                <TableHead key={column.id} className="h-auto px-2 pb-2 font-normal">
+                  {renderFilter(column)}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <tbody ref={listRef}>
+            <SpacerRow height={paddingStart} columns={visibleColumns.length + 1} />
+            {items.map(({ index: row }) => {
+              const task = rows[row];
+              return (
+                <TableRow
+                  key={task.id}
+                  aria-rowindex={row + 3}
+                  aria-selected={isSelected(task.id)}
+                  data-state={isSelected(task.id) ? "selected" : undefined}
+                >
+                  <TableCell className="px-3 py-1.5">
+                    <Checkbox
+                      aria-label={`Select ${task.title}`}
+                      checked={isSelected(task.id)}
+                      onCheckedChange={() => {
+                        toggleSelected(task.id);
+                        setAnchorId(task.id);
+                      }}
+                    />
+                  </TableCell>
+                  {visibleColumns.map((column, col) => {
+                    const isActive = active?.row === row && active.col === col;
+                    return (
+                      <TableCell
+                        key={column.id}
+                        role="gridcell"
+                        data-cell={`${row}:${col}`}
+                        className={cn(
+                          "h-10 overflow-hidden whitespace-nowrap px-3 py-1.5",
+                          column.kind === "number" && "text-right tabular-nums",
+                          isActive && "outline outline-2 -outline-offset-2 outline-ring"
+                        )}
+                        onClick={(event) => handleCellClick(event, row, col)}
+                        onDoubleClick={() => {
+                          focusCell({ row, col });
+                          setEditing(true);
+                        }}
+                      >
+                        {isActive && editing ? (
+                          <TableCellEditor
+                            task={task}
+                            column={column}
+                            projects={projects}
+                            onCommit={(value, move) => commit(task, column, value, move)}
+                            onCancel={cancel}
+                          />
+                        ) : column.id === "title" ? (
+                          <span className="group flex items-center gap-1">
+                            <span
+                              className={cn(
+                                "truncate",
+                                task.status === "done" && "text-muted-foreground line-through"
+                              )}
+                            >
+                              {task.title}
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="ml-auto h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                              aria-label={`Open ${task.title}`}
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                setOpened(task);
+                              }}
+                            >
+                              <Maximize2 />
+                            </Button>
+                          </span>
+                        ) : (
+                          renderValue(task, column)
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+            <SpacerRow height={paddingEnd} columns={visibleColumns.length + 1} />
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="py-10 text-center text-sm text-muted-foreground">
+            {tasks.length === 0 ? "No tasks yet." : "No tasks match these filters."}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-muted-foreground">
+          {rows.length} of {tasks.length} tasks
+          {selectedIds.length > 0 && ` · ${selectedIds.length} selected`}
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={rows.length === 0}
+          onClick={() =>
+            downloadFile(
+              exportTasksCsv(rows, visibleColumns, context),
+              exportFileName("Tasks", "csv"),
+              "text/csv"
+            )
+          }
+        >
+          <Download />
+          Export CSV
+        </Button>
+      </div>
+      <TaskEditDialog task={opened} onOpenChange={(open) => !open && setOpened(null)} />
+    </>
+  );
+};
+
+export default TaskTable;
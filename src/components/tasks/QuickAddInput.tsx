@@ -0,0 +1,69 @@
+import { useRef } from "react";
+
+import { Input } from "@/components/ui/input";
+import type { QuickAddToken } from "@/lib/quick-add";
+import { cn } from "@/lib/utils";
+import { tokenClassNames } from "./token-styles";
+
+interface QuickAddInputProps
+  extends Omit<React.ComponentProps<"input">, "value" | "onChange"> {
+  value: string;
+  tokens: QuickAddToken[];
+  onValueChange: (value: string) => void;
+}
+
+/**
+ * An input that highlights recognized quick-add tokens. The text is drawn by
+ * a mirror layer behind a transparent input so the caret and selection stay
+ * native.
+ */
+const QuickAddInput = ({
+  value,
+  tokens,
+  onValueChange,
+  className,
+  ...props
+}: QuickAddInputProps) => {
+  const mirrorRef = useRef<HTMLDivElement>(null);
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  tokens.forEach((token) => {
+    segments.push(value.slice(cursor, token.start));
+    segments.push(
+      <mark
+        key={token.start}
+        className={cn("rounded-sm text-foreground", tokenClassNames[token.kind])}
+      >
+        {value.slice(token.start, token.end)}
+      </mark>
+    );
+    cursor = token.end;
+  });
+  segments.push(value.slice(cursor));
+
+  return (
+    <div className={cn("relative flex-1 rounded-md bg-background", className)}>
+      <div
+        ref={mirrorRef}
+        aria-hidden
+        className="pointer-events-none absolute inset-0 overflow-hidden whitespace-pre border border-transparent px-3 py-2 text-base md:text-sm"
+      >
+        {segments}
+      </div>
+      <Input
+        value={value}
+        onChange={(event) => onValueChange(event.target.value)}
+        onScroll={(event) => {
+          if (mirrorRef.current) {
+            mirrorRef.current.scrollLeft = event.currentTarget.scrollLeft;
+          }
+        }}
+        className="relative bg-transparent text-transparent caret-foreground selection:bg-primary/30 selection:text-transparent"
+        {...props}
+      />
+    </div>
+  );
+};
+
+export default QuickAddInput;
@@ -0,0 +1,28 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+
+function initials(name: string) {
+  return name
+    .split(/[\s._-]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
+interface TaskAssigneeAvatarProps {
+  assignee: string | null;
+  className?: string;
+}
+
+const TaskAssigneeAvatar = ({ assignee, className }: TaskAssigneeAvatarProps) => {
+  if (!assignee) return null;
+
+  return (
+    <Avatar className={cn("h-6 w-6", className)} title={assignee}>
+      <AvatarFallback className="text-[10px]">{initials(assignee)}</AvatarFallback>
+    </Avatar>
+  );
+};
+
+export default TaskAssigneeAvatar;
@@ -0,0 +1,40 @@
+import { useCallback, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+
+import { useTasks } from "@/hooks/use-tasks";
+import { toast } from "@/hooks/use-toast";
+import TaskEditDialog from "./TaskEditDialog";
+
+/**
+ * Opens the task named by a `?task=<id>` search parameter on any page, so
+ * notifications and other links can point straight at a task.
+ */
+const TaskDeepLink = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { tasks, isLoading } = useTasks();
+  const taskId = searchParams.get("task");
+  const task = taskId ? tasks.find((t) => t.id === taskId) ?? null : null;
+
+  const close = useCallback(
+    () =>
+      setSearchParams(
+        (params) => {
+          params.delete("task");
+          return params;
+        },
+        { replace: true }
+      ),
+    [setSearchParams]
+  );
+
+  useEffect(() => {
+    if (taskId && !isLoading && !task) {
+      toast({ title: "That task no longer exists" });
+      close();
+    }
+  }, [taskId, isLoading, task, close]);
+
+  return <TaskEditDialog task={task} onOpenChange={(open) => !open && close()} />;
+};
+
+export default TaskDeepLink;
@@ -0,0 +1,61 @@
+import { format } from "date-fns";
+import { CalendarDays, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+interface TaskDueDatePickerProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+const TaskDueDatePicker = ({ value, onChange }: TaskDueDatePickerProps) => {
+  const date = value ? new Date(value) : undefined;
+
+  return (
+    <div className="flex gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            className={cn(
+              "flex-1 justify-start font-normal",
+              !date && "text-muted-foreground"
+            )}
+          >
+            <CalendarDays />
+            {date ? format(date, "PPP") : "No due date"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={date}
+            onSelect={(day) => onChange(day ? day.toISOString() : null)}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {date && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => onChange(null)}
+          aria-label="Clear due date"
+        >
+          <X />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TaskDueDatePicker;
@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { skipOccurrence, updateSeries, updateTask } from "@/hooks/use-tasks";
+import { toast } from "@/hooks/use-toast";
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  priorityLabels,
+  statusLabels,
+  type Task,
+  type TaskPatch,
+  type TaskPriority,
+  type TaskStatus,
+} from "@/types/task";
+import TaskDueDatePicker from "./TaskDueDatePicker";
+import TaskRecurrencePicker from "./TaskRecurrencePicker";
+import TaskReminderPicker from "./TaskReminderPicker";
+
+interface TaskEditDialogProps {
+  task: Task | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type SaveScope = "occurrence" | "series";
+
+const TaskEditDialog = ({ task, onOpenChange }: TaskEditDialogProps) => {
+  const [draft, setDraft] = useState<TaskPatch>({});
+
+  useEffect(() => {
+    if (task) {
+      setDraft({
+        title: task.title,
+        notes: task.notes,
+        status: task.status,
+        priority: task.priority,
+        estimate: task.estimate,
+        dueDate: task.dueDate,
+        assignee: task.assignee,
+        recurrence: task.recurrence,
+        reminders: task.reminders,
+      });
+    }
+  }, [task]);
+
+  const recurring = !!task?.series;
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!task || !draft.title?.trim()) return;
+
+    const submitter = (event.nativeEvent as SubmitEvent).submitter;
+    const scope = (submitter?.getAttribute("value") ?? "occurrence") as SaveScope;
+    const patch = { ...draft, title: draft.title.trim() };
+    if (recurring && scope === "series") updateSeries(task.id, patch);
+    else updateTask(task.id, patch);
+    onOpenChange(false);
+  };
+
+  const handleSkip = () => {
+    if (!task) return;
+    if (!skipOccurrence(task.id)) {
+      toast({ title: "This is the last occurrence in the series" });
+      return;
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Edit task</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="task-title">Title</Label>
+            <Input
+              id="task-title"
+              value={draft.title ?? ""}
+              onChange={(event) =>
+                setDraft((d) => ({ ...d, title: event.target.value }))
+              }
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="task-notes">Notes</Label>
+            <Textarea
+              id="task-notes"
+              value={draft.notes ?? ""}
+              onChange={(event) =>
+                setDraft((d) => ({ ...d, notes: event.target.value }))
+              }
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Status</Label>
+              <Select
+                value={draft.status}
+                onValueChange={(status: TaskStatus) =>
+                  setDraft((d) => ({ ...d, status }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {statusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Priority</Label>
+              <Select
+                value={draft.priority}
+                onValueChange={(priority: TaskPriority) =>
+                  setDraft((d) => ({ ...d, priority }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITIES.map((priority) => (
+                    <SelectItem key={priority} value={priority}>
+                      {priorityLabels[priority]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid gap-2">
+            <Label>Due date</Label>
+            <TaskDueDatePicker
+              value={draft.dueDate ?? null}
+              onChange={(dueDate) => setDraft((d) => ({ ...d, dueDate }))}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Repeat</Label>
+            <TaskRecurrencePicker
+              value={draft.recurrence ?? null}
+              dueDate={draft.dueDate ?? null}
+              onChange={(recurrence) => setDraft((d) => ({ ...d, recurrence }))}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Reminders</Label>
+            <TaskReminderPicker
+              value={draft.reminders ?? []}
+              dueDate={draft.dueDate ?? null}
+              onChange={(reminders) => setDraft((d) => ({ ...d, reminders }))}
+            />
+          </div>
+          <div className="grid grid-cols-[minmax(0,1fr)_8rem] gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="task-assignee">Assignee</Label>
+              <Input
+                id="task-assignee"
+                placeholder="Unassigned"
+                value={draft.assignee ?? ""}
+                onChange={(event) =>
+                  setDraft((d) => ({
+                    ...d,
+                    assignee: event.target.value.trim() ? event.target.value : null,
+                  }))
+                }
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="task-estimate">Estimate</Label>
+              <Input
+                id="task-estimate"
+                type="number"
+                min={0}
+                step="any"
+                placeholder="Points"
+                value={draft.estimate ?? ""}
+                onChange={(event) =>
+                  setDraft((d) => ({
+                    ...d,
+                    estimate:
+                      event.target.value === ""
+                        ? null
+                        : Math.max(0, Number(event.target.value)),
+                  }))
+                }
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            {recurring && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="sm:mr-auto"
+                onClick={handleSkip}
+              >
+                Skip occurrence
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            {recurring ? (
+              <>
+                <Button
+                  type="submit"
+                  variant="outline"
+                  value="occurrence"
+                  disabled={!draft.title?.trim()}
+                >
+                  This occurrence
+                </Button>
+                <Button
+                  type="submit"
+                  value="series"
+                  disabled={!draft.title?.trim()}
+                >
+                  All future
+                </Button>
+              </>
+            ) : (
+              <Button type="submit" disabled={!draft.title?.trim()}>
+                Save
+              </Button>
+            )}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskEditDialog;
@@ -0,0 +1,120 @@
+import { format } from "date-fns";
+import { CalendarDays, Pencil, Repeat, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { isTaskDone, isTaskOverdue } from "@/lib/tasks";
+import { cn } from "@/lib/utils";
+import type { Task } from "@/types/task";
+import TaskPriorityBadge from "./TaskPriorityBadge";
+
+interface TaskItemProps {
+  task: Task;
+  /** Nesting level of a subtask; each level indents the row. */
+  depth?: number;
+  selected?: boolean;
+  onToggle: (task: Task, completed: boolean) => void;
+  onEdit: (task: Task) => void;
+  onDelete: (task: Task) => void;
+  /** Called instead of `onEdit` when the title is Ctrl/⌘-clicked. */
+  onSelect?: (task: Task) => void;
+}
+
+const TaskItem = ({
+  task,
+  depth = 0,
+  selected = false,
+  onToggle,
+  onEdit,
+  onDelete,
+  onSelect,
+}: TaskItemProps) => {
+  const done = isTaskDone(task);
+
+  return (
+    <li
+      data-task-id={task.id}
+      data-selected={selected || undefined}
+      className="group flex items-start gap-3 rounded-md px-2 py-2 hover:bg-muted/50 data-[selected]:bg-accent"
+      style={depth > 0 ? { paddingLeft: `${0.5 + depth * 1.5}rem` } : undefined}
+    >
+      <Checkbox
+        className="mt-0.5"
+        checked={done}
+        onCheckedChange={(checked) => onToggle(task, checked === true)}
+        aria-label={done ? "Mark as not done" : "Mark as done"}
+      />
+      <div className="min-w-0 flex-1">
+        <button
+          type="button"
+          className={cn(
+            "block w-full truncate text-left text-sm",
+            done && "text-muted-foreground line-through"
+          )}
+          onClick={(event) =>
+            onSelect && (event.metaKey || event.ctrlKey)
+              ? onSelect(task)
+              : onEdit(task)
+          }
+        >
+          {task.title}
+        </button>
+        {task.notes && (
+          <p className="truncate text-xs text-muted-foreground">{task.notes}</p>
+        )}
+        {(task.dueDate ||
+          task.priority !== "none" ||
+          task.recurrence ||
+          task.tags.length > 0) && (
+          <div className="mt-1 flex flex-wrap items-center gap-2">
+            {task.dueDate && (
+              <span
+                className={cn(
+                  "inline-flex items-center gap-1 text-xs text-muted-foreground",
+                  isTaskOverdue(task) && "text-destructive"
+                )}
+              >
+                <CalendarDays className="h-3 w-3" />
+                {format(new Date(task.dueDate), "MMM d")}
+              </span>
+            )}
+            {task.recurrence && (
+              <Repeat
+                className="h-3 w-3 text-muted-foreground"
+                aria-label="Repeats"
+              />
+            )}
+            <TaskPriorityBadge priority={task.priority} />
+            {task.tags.map((tag) => (
+              <span key={tag} className="text-xs text-muted-foreground">
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex shrink-0 gap-1 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onEdit(task)}
+          aria-label="Edit task"
+        >
+          <Pencil />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onDelete(task)}
+          aria-label="Delete task"
+        >
+          <Trash2 />
+        </Button>
+      </div>
+    </li>
+  );
+};
+
+export default TaskItem;
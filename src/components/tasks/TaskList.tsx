@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useRef } from "react";
+
+import { getSelection, setSelection } from "@/hooks/use-task-selection";
+import { useShortcuts } from "@/hooks/use-shortcuts";
+import { useVirtualList } from "@/hooks/use-virtual-list";
+import { nestTasks } from "@/lib/tasks";
+import type { Task } from "@/types/task";
+import TaskItem from "./TaskItem";
+
+interface TaskListProps {
+  tasks: Task[];
+  emptyMessage?: string;
+  selectedIds?: Task["id"][];
+  onToggle: (task: Task, completed: boolean) => void;
+  onEdit: (task: Task) => void;
+  onDelete: (task: Task) => void;
+  onSelect?: (task: Task) => void;
+}
+
+const TaskList = ({
+  tasks,
+  emptyMessage = "Nothing here yet.",
+  selectedIds = [],
+  ...handlers
+}: TaskListProps) => {
+  // Subtasks follow their parents; `ordered` is the order rows appear in.
+  const rows = useMemo(() => nestTasks(tasks), [tasks]);
+  const ordered = useMemo(() => rows.map((row) => row.task), [rows]);
+  const keys = useMemo(() => ordered.map((task) => task.id), [ordered]);
+  const { listRef, items, paddingStart, paddingEnd, scrollToIndex } =
+    useVirtualList<HTMLUListElement>({
+      keys,
+      estimateSize: 40,
+      // Rows scrolled to with the keyboard must clear the sticky app header.
+      scrollPaddingStart: 56,
+    });
+  // The row to focus once it has been scrolled into view and rendered.
+  const pendingFocus = useRef<Task["id"] | null>(null);
+
+  useEffect(() => {
+    if (!pendingFocus.current) return;
+    const row = listRef.current?.querySelector<HTMLElement>(
+      `[data-task-id="${pendingFocus.current}"] button`
+    );
+    if (!row) return;
+    pendingFocus.current = null;
+    // Focusing the row keeps this list the active shortcut region.
+    row.focus({ preventScroll: true });
+  });
+
+  const moveSelection = (delta: number) => {
+    const selection = getSelection();
+    const current = ordered.findIndex((t) => t.id === selection[selection.length - 1]);
+    let index = current + delta;
+    if (current === -1) index = delta > 0 ? 0 : ordered.length - 1;
+    const task = ordered[Math.min(Math.max(index, 0), ordered.length - 1)];
+
+    setSelection([task.id]);
+    pendingFocus.current = task.id;
+    scrollToIndex(ordered.indexOf(task));
+  };
+
+  useShortcuts(
+    {
+      "tasks.next": () => moveSelection(1),
+      "tasks.previous": () => moveSelection(-1),
+    },
+    { region: listRef, enabled: tasks.length > 0 }
+  );
+
+  if (tasks.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        {emptyMessage}
+      </p>
+    );
+  }
+
+  return (
+    <ul
+      ref={listRef}
+      className="flex flex-col"
+      style={{ paddingTop: paddingStart, paddingBottom: paddingEnd }}
+    >
+      {items.map(({ index }) => (
+        <TaskItem
+          key={rows[index].task.id}
+          task={rows[index].task}
+          depth={rows[index].depth}
+          selected={selectedIds.includes(rows[index].task.id)}
+          {...handlers}
+        />
+      ))}
+    </ul>
+  );
+};
+
+export default TaskList;
@@ -0,0 +1,31 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { priorityLabels, type TaskPriority } from "@/types/task";
+
+const priorityClassNames: Record<TaskPriority, string> = {
+  none: "",
+  low: "border-transparent bg-secondary text-secondary-foreground",
+  medium: "border-transparent bg-accent text-accent-foreground",
+  high: "border-transparent bg-primary text-primary-foreground",
+  urgent: "border-transparent bg-destructive text-destructive-foreground",
+};
+
+interface TaskPriorityBadgeProps {
+  priority: TaskPriority;
+  className?: string;
+}
+
+const TaskPriorityBadge = ({ priority, className }: TaskPriorityBadgeProps) => {
+  if (priority === "none") return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn(priorityClassNames[priority], className)}
+    >
+      {priorityLabels[priority]}
+    </Badge>
+  );
+};
+
+export default TaskPriorityBadge;
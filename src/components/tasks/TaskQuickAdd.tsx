@@ -0,0 +1,233 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Plus } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { saveTasks } from "@/hooks/use-tasks";
+import { parseMarkdownChecklist } from "@/lib/markdown";
+import { parseQuickAdd, type QuickAddResult } from "@/lib/quick-add";
+import { describeRecurrence } from "@/lib/recurrence";
+import { buildTaskTree, type TaskTreeNode } from "@/lib/tasks";
+import { cn, pluralize } from "@/lib/utils";
+import type { Project } from "@/types/project";
+import { priorityLabels, type NewTask } from "@/types/task";
+import QuickAddInput from "./QuickAddInput";
+import { tokenClassNames } from "./token-styles";
+
+interface TaskQuickAddProps {
+  projects?: Project[];
+  /** Applied to every new task unless the text overrides them, e.g. with `#project`. */
+  defaults?: Pick<NewTask, "projectId" | "sectionId" | "dueDate">;
+  onAdd: (task: NewTask) => void;
+}
+
+function toNewTask(
+  raw: string,
+  parsed: QuickAddResult,
+  projects: Project[],
+  defaults: TaskQuickAddProps["defaults"] = {}
+): NewTask {
+  const project = parsed.project
+    ? projects.find((p) => p.name.toLowerCase() === parsed.project.toLowerCase())
+    : undefined;
+
+  return {
+    title: parsed.title || raw,
+    dueDate: parsed.dueDate?.toISOString() ?? defaults.dueDate ?? null,
+    recurrence: parsed.recurrence,
+    priority: parsed.priority ?? undefined,
+    tags: parsed.tags,
+    projectId: project?.id ?? defaults.projectId ?? null,
+    sectionId: project ? null : defaults.sectionId ?? null,
+    assignee: parsed.assignee,
+  };
+}
+
+/**
+ * One task per line of pasted text, each read like quick-add input. Markdown
+ * checkboxes mark tasks done and indentation makes subtasks.
+ */
+function pastedTaskTree(
+  text: string,
+  projects: Project[],
+  defaults: TaskQuickAddProps["defaults"]
+): TaskTreeNode[] {
+  const nodes: TaskTreeNode[] = [];
+  // Where each item ended up in `nodes`; items without text are left out.
+  const positions: (number | null)[] = [];
+  parseMarkdownChecklist(text).forEach((item) => {
+    if (!item.title) {
+      positions.push(null);
+      return;
+    }
+    const parsed = parseQuickAdd(item.title, { projects: projects.map((p) => p.name) });
+    const input = toNewTask(item.title, parsed, projects, defaults);
+    positions.push(nodes.length);
+    nodes.push({
+      input: {
+        ...input,
+        status: item.done ? "done" : "todo",
+        dueDate: item.dueDate ?? input.dueDate,
+        tags: [...new Set([...input.tags, ...item.tags])],
+      },
+      parent: item.parent === null ? null : positions[item.parent],
+    });
+  });
+  return nodes;
+}
+
+interface Paste {
+  text: string;
+  /** The input's selection when pasting, which the text replaces. */
+  start: number;
+  end: number;
+}
+
+const PreviewBadge = ({
+  kind,
+  children,
+}: {
+  kind: keyof typeof tokenClassNames;
+  children: React.ReactNode;
+}) => (
+  <Badge
+    variant="outline"
+    className={cn("font-normal text-foreground", tokenClassNames[kind])}
+  >
+    {children}
+  </Badge>
+);
+
+const TaskQuickAdd = ({ projects = [], defaults, onAdd }: TaskQuickAddProps) => {
+  const [title, setTitle] = useState("");
+  const [paste, setPaste] = useState<Paste | null>(null);
+
+  const parsed = useMemo(
+    () => parseQuickAdd(title, { projects: projects.map((p) => p.name) }),
+    [title, projects]
+  );
+
+  const pastedNodes = useMemo(
+    () => (paste ? pastedTaskTree(paste.text, projects, defaults) : []),
+    [paste, projects, defaults]
+  );
+  const pastedSubtasks = pastedNodes.filter((node) => node.parent !== null).length;
+
+  const createPasted = () => {
+    const tasks = buildTaskTree(pastedNodes);
+    if (tasks.length > 0) saveTasks(`Added ${pluralize(tasks.length, "task")}`, tasks);
+    setPaste(null);
+  };
+
+  const pasteAsOneLine = () => {
+    if (!paste) return;
+    const line = paste.text.trim().replace(/\s*\r?\n\s*/g, " ");
+    setTitle(title.slice(0, paste.start) + line + title.slice(paste.end));
+    setPaste(null);
+  };
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = event.clipboardData.getData("text/plain");
+    // Inputs would flatten the lines into one giant title.
+    if (!/\r?\n/.test(text.trim())) return;
+    event.preventDefault();
+    const { selectionStart, selectionEnd } = event.currentTarget;
+    setPaste({ text, start: selectionStart ?? title.length, end: selectionEnd ?? title.length });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (paste) {
+      createPasted();
+      return;
+    }
+    if (!title.trim()) return;
+    onAdd(toNewTask(title.trim(), parsed, projects, defaults));
+    setTitle("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      <div className="flex gap-2">
+        <QuickAddInput
+          value={title}
+          tokens={parsed.tokens}
+          onValueChange={setTitle}
+          onPaste={handlePaste}
+          onKeyDown={(event) => {
+            if (event.key === "Escape" && paste) {
+              event.preventDefault();
+              setPaste(null);
+            }
+          }}
+          placeholder="Add a task… try “Pay rent every month on the 1st #home !high”"
+          aria-label="New task"
+        />
+        <Button type="submit" disabled={!title.trim() && !paste}>
+          <Plus />
+          Add
+        </Button>
+      </div>
+      {paste && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 px-3 py-2 text-sm">
+          <span className="mr-auto">
+            {pastedNodes.length === 0
+              ? "The pasted text has no tasks."
+              : `Pasted ${pluralize(pastedNodes.length, "line")}${
+                  pastedSubtasks > 0 ? `, including ${pluralize(pastedSubtasks, "subtask")}` : ""
+                }.`}
+          </span>
+          <Button type="submit" size="sm" disabled={pastedNodes.length === 0}>
+            Create {pluralize(pastedNodes.length, "task")}
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={pasteAsOneLine}>
+            Paste as one task
+          </Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => setPaste(null)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+      {parsed.tokens.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <span className="text-muted-foreground">
+            “{parsed.title || title.trim()}”
+          </span>
+          {parsed.dueDate && (
+            <PreviewBadge kind="date">
+              Due{" "}
+              {format(
+                parsed.dueDate,
+                parsed.hasTime ? "EEE, MMM d 'at' p" : "EEE, MMM d"
+              )}
+            </PreviewBadge>
+          )}
+          {parsed.recurrence && (
+            <PreviewBadge kind="recurrence">
+              {describeRecurrence(parsed.recurrence)}
+            </PreviewBadge>
+          )}
+          {parsed.priority && (
+            <PreviewBadge kind="priority">
+              {priorityLabels[parsed.priority]}
+            </PreviewBadge>
+          )}
+          {parsed.project && (
+            <PreviewBadge kind="project">{parsed.project}</PreviewBadge>
+          )}
+          {parsed.tags.map((tag) => (
+            <PreviewBadge key={tag} kind="tag">
+              #{tag}
+            </PreviewBadge>
+          ))}
+          {parsed.assignee && (
+            <PreviewBadge kind="assignee">@{parsed.assignee}</PreviewBadge>
+          )}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default TaskQuickAdd;
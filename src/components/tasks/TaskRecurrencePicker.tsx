@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RRULE_DAYS, describeRecurrence, isValidRRule } from "@/lib/recurrence";
+
+interface TaskRecurrencePickerProps {
+  value: string | null;
+  /** The occurrence date presets are built around; defaults to today. */
+  dueDate: string | null;
+  onChange: (value: string | null) => void;
+}
+
+const NONE = "none";
+const CUSTOM = "custom";
+const AFTER_COMPLETION = "after-completion";
+
+function buildPresets(date: Date) {
+  const day = RRULE_DAYS[date.getDay()];
+  const nth = Math.ceil(date.getDate() / 7);
+  const weekday = format(date, "EEEE");
+
+  return [
+    { label: "Every day", rule: "FREQ=DAILY" },
+    { label: "Every weekday", rule: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR" },
+    { label: `Every week on ${weekday}`, rule: `FREQ=WEEKLY;BYDAY=${day}` },
+    {
+      label: `Every month on the ${format(date, "do")}`,
+      rule: `FREQ=MONTHLY;BYMONTHDAY=${date.getDate()}`,
+    },
+    {
+      label: `Every month on the ${format(new Date(2000, 0, nth), "do")} ${weekday}`,
+      rule: `FREQ=MONTHLY;BYDAY=${nth}${day}`,
+    },
+    { label: `Every year on ${format(date, "MMMM d")}`, rule: "FREQ=YEARLY" },
+  ];
+}
+
+function afterCompletionDays(value: string | null) {
+  const match = value && /^FREQ=DAILY(?:;INTERVAL=(\d+))?;X-ANCHOR=COMPLETION$/.exec(value);
+  return match ? Number(match[1] ?? 1) : null;
+}
+
+const TaskRecurrencePicker = ({
+  value,
+  dueDate,
+  onChange,
+}: TaskRecurrencePickerProps) => {
+  const presets = buildPresets(dueDate ? new Date(dueDate) : new Date());
+  const completionDays = afterCompletionDays(value);
+  const selected = !value
+    ? NONE
+    : completionDays !== null
+      ? AFTER_COMPLETION
+      : presets.some((p) => p.rule === value)
+        ? value
+        : CUSTOM;
+
+  const [custom, setCustom] = useState(value ?? "");
+  useEffect(() => setCustom(value ?? ""), [value]);
+
+  const handleSelect = (next: string) => {
+    if (next === NONE) onChange(null);
+    else if (next === AFTER_COMPLETION) onChange("FREQ=DAILY;INTERVAL=3;X-ANCHOR=COMPLETION");
+    else if (next === CUSTOM) onChange(value ?? "FREQ=WEEKLY;INTERVAL=2");
+    else onChange(next);
+  };
+
+  return (
+    <div className="grid gap-2">
+      <Select value={selected} onValueChange={handleSelect}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>Does not repeat</SelectItem>
+          {presets.map((preset) => (
+            <SelectItem key={preset.rule} value={preset.rule}>
+              {preset.label}
+            </SelectItem>
+          ))}
+          <SelectItem value={AFTER_COMPLETION}>Days after completion…</SelectItem>
+          <SelectItem value={CUSTOM}>Custom RRULE…</SelectItem>
+        </SelectContent>
+      </Select>
+      {selected === AFTER_COMPLETION && (
+        <div className="flex items-center gap-2 text-sm">
+          <Input
+            type="number"
+            min={1}
+            className="w-20"
+            aria-label="Days after completion"
+            value={completionDays ?? 1}
+            onChange={(event) => {
+              const days = Math.max(1, Number(event.target.value) || 1);
+              onChange(`FREQ=DAILY;INTERVAL=${days};X-ANCHOR=COMPLETION`);
+            }}
+          />
+          days after each completion
+        </div>
+      )}
+      {selected === CUSTOM && (
+        <Input
+          aria-label="Recurrence rule"
+          className="font-mono text-xs"
+          value={custom}
+          aria-invalid={!isValidRRule(custom)}
+          onChange={(event) => {
+            setCustom(event.target.value);
+            if (isValidRRule(event.target.value)) onChange(event.target.value);
+          }}
+        />
+      )}
+      {value && (
+        <p className="text-xs text-muted-foreground">
+          {describeRecurrence(value)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TaskRecurrencePicker;
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { BellPlus, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  buildReminder,
+  describeReminder,
+  isRelativeReminder,
+  reminderPresets,
+} from "@/lib/reminders";
+import type { ReminderTrigger, TaskReminder } from "@/types/task";
+
+interface TaskReminderPickerProps {
+  value: TaskReminder[];
+  /** Relative reminders only go off once the task has a due date. */
+  dueDate: string | null;
+  onChange: (value: TaskReminder[]) => void;
+}
+
+const sameTrigger = (a: ReminderTrigger, b: ReminderTrigger) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const TaskReminderPicker = ({ value, dueDate, onChange }: TaskReminderPickerProps) => {
+  const [customAt, setCustomAt] = useState<string | null>(null);
+
+  const add = (trigger: ReminderTrigger) => {
+    if (value.some((reminder) => sameTrigger(reminder.trigger, trigger))) return;
+    onChange([...value, buildReminder(trigger)]);
+  };
+
+  const addCustom = () => {
+    if (!customAt) return;
+    add({ type: "at", at: new Date(customAt).toISOString() });
+    setCustomAt(null);
+  };
+
+  return (
+    <div className="grid gap-2">
+      {value.length > 0 && (
+        <ul className="flex flex-wrap gap-1">
+          {value.map((reminder) => (
+            <li
+              key={reminder.id}
+              className="flex items-center gap-1 rounded-md border py-0.5 pl-2 pr-0.5 text-sm"
+            >
+              <span>{describeReminder(reminder)}</span>
+              {isRelativeReminder(reminder) && !dueDate && (
+                <span className="text-xs text-muted-foreground">(needs a due date)</span>
+              )}
+              {reminder.snoozedUntil && (
+                <span className="text-xs text-muted-foreground">
+                  · snoozed until {format(new Date(reminder.snoozedUntil), "MMM d, p")}
+                </span>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label={`Remove reminder ${describeReminder(reminder)}`}
+                onClick={() => onChange(value.filter((r) => r.id !== reminder.id))}
+              >
+                <X />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {customAt === null ? (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button type="button" variant="outline" className="justify-start font-normal">
+              <BellPlus />
+              Add reminder
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {reminderPresets.map((preset) => (
+              <DropdownMenuItem
+                key={preset.label}
+                disabled={!dueDate}
+                onSelect={() => add(preset.trigger)}
+              >
+                {preset.label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={() =>
+                setCustomAt(format(dueDate ? new Date(dueDate) : new Date(), "yyyy-MM-dd'T'HH:mm"))
+              }
+            >
+              At a specific time…
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            type="datetime-local"
+            aria-label="Reminder time"
+            value={customAt}
+            onChange={(event) => setCustomAt(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                event.preventDefault();
+                addCustom();
+              }
+            }}
+          />
+          <Button type="button" variant="ghost" onClick={() => setCustomAt(null)}>
+            Cancel
+          </Button>
+          <Button type="button" disabled={!customAt} onClick={addCustom}>
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskReminderPicker;
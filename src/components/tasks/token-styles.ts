@@ -0,0 +1,11 @@
+import type { QuickAddTokenKind } from "@/lib/quick-add";
+
+export const tokenClassNames: Record<QuickAddTokenKind, string> = {
+  date: "bg-blue-500/20",
+  time: "bg-blue-500/20",
+  recurrence: "bg-violet-500/20",
+  priority: "bg-red-500/20",
+  tag: "bg-emerald-500/20",
+  project: "bg-amber-500/25",
+  assignee: "bg-sky-500/20",
+};
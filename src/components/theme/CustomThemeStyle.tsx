@@ -0,0 +1,46 @@
+import { useEffect } from "react";
+
+import { useCustomThemes } from "@/hooks/use-custom-themes";
+import {
+  CUSTOM_THEME_STORAGE_KEY,
+  CUSTOM_THEME_STYLE_ID,
+  themeToCss,
+} from "@/lib/theme";
+
+function applyCss(css: string) {
+  let style = document.getElementById(CUSTOM_THEME_STYLE_ID);
+  if (css) {
+    if (!style) {
+      style = document.createElement("style");
+      style.id = CUSTOM_THEME_STYLE_ID;
+      document.head.appendChild(style);
+    }
+    style.textContent = css;
+  } else {
+    style?.remove();
+  }
+
+  // Cached for the first-paint script in index.html; losing it only means a
+  // brief flash of the built-in theme on the next load.
+  try {
+    if (css) localStorage.setItem(CUSTOM_THEME_STORAGE_KEY, css);
+    else localStorage.removeItem(CUSTOM_THEME_STORAGE_KEY);
+  } catch {
+    // Storage is unavailable, e.g. in some private browsing modes.
+  }
+}
+
+/** Keeps the active custom theme's stylesheet in the document. */
+const CustomThemeStyle = () => {
+  const { activeTheme, isLoading } = useCustomThemes();
+  const css = activeTheme ? themeToCss(activeTheme) : "";
+
+  useEffect(() => {
+    // Until settings load, keep whatever the first-paint script applied.
+    if (!isLoading) applyCss(css);
+  }, [css, isLoading]);
+
+  return null;
+};
+
+export default CustomThemeStyle;
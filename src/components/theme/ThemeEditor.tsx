@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { Check, RotateCcw, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { baseThemeColors, checkThemeContrast } from "@/lib/theme";
+import { cn } from "@/lib/utils";
+import type { CustomTheme, ThemeColors, ThemeMode } from "@/types/theme";
+import ThemePreview from "./ThemePreview";
+
+type SingleColor = Exclude<keyof ThemeColors, "charts">;
+
+const colorFields: { key: SingleColor; label: string }[] = [
+  { key: "background", label: "Background" },
+  { key: "foreground", label: "Text" },
+  { key: "primary", label: "Primary" },
+  { key: "accent", label: "Accent" },
+  { key: "destructive", label: "Destructive" },
+  { key: "sidebar", label: "Sidebar" },
+];
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i;
+
+interface ColorFieldProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/** A swatch picker plus a hex field that only commits complete values. */
+const ColorField = ({ id, label, value, onChange }: ColorFieldProps) => {
+  const [text, setText] = useState(value);
+  useEffect(() => setText(value), [value]);
+
+  return (
+    <div className="grid gap-1.5">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          type="color"
+          aria-label={`${label} swatch`}
+          className="h-9 w-11 shrink-0 cursor-pointer p-1"
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+        />
+        <Input
+          id={id}
+          className="font-mono text-xs"
+          value={text}
+          aria-invalid={!HEX_PATTERN.test(text)}
+          onChange={(event) => {
+            setText(event.target.value);
+            if (HEX_PATTERN.test(event.target.value)) {
+              onChange(event.target.value.toLowerCase());
+            }
+          }}
+          onBlur={() => setText(value)}
+        />
+      </div>
+    </div>
+  );
+};
+
+interface ThemeEditorProps {
+  theme: CustomTheme;
+  onSave: (theme: CustomTheme) => void;
+  onCancel: () => void;
+}
+
+const ThemeEditor = ({ theme, onSave, onCancel }: ThemeEditorProps) => {
+  const [draft, setDraft] = useState(theme);
+  useEffect(() => setDraft(theme), [theme]);
+
+  const checks = checkThemeContrast(draft);
+  const failing = checks.filter((check) => !check.passes).length;
+
+  const setColor = (key: SingleColor, value: string) =>
+    setDraft((d) => ({ ...d, colors: { ...d.colors, [key]: value } }));
+
+  const setChartColor = (index: number, value: string) =>
+    setDraft((d) => ({
+      ...d,
+      colors: {
+        ...d.colors,
+        charts: d.colors.charts.map((color, i) => (i === index ? value : color)),
+      },
+    }));
+
+  return (
+    <form
+      className="grid gap-6 lg:grid-cols-[minmax(0,20rem)_minmax(0,1fr)]"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (draft.name.trim()) onSave({ ...draft, name: draft.name.trim() });
+      }}
+    >
+      <div className="flex flex-col gap-4">
+        <div className="grid gap-1.5">
+          <Label htmlFor="theme-name">Name</Label>
+          <Input
+            id="theme-name"
+            value={draft.name}
+            onChange={(event) => setDraft((d) => ({ ...d, name: event.target.value }))}
+          />
+        </div>
+        <div className="grid gap-1.5">
+          <Label>Replaces</Label>
+          <Select
+            value={draft.mode}
+            onValueChange={(mode: ThemeMode) => setDraft((d) => ({ ...d, mode }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="light">Light mode</SelectItem>
+              <SelectItem value="dark">Dark mode</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          {colorFields.map(({ key, label }) => (
+            <ColorField
+              key={key}
+              id={`theme-color-${key}`}
+              label={label}
+              value={draft.colors[key]}
+              onChange={(value) => setColor(key, value)}
+            />
+          ))}
+        </div>
+        <fieldset className="grid gap-1.5">
+          <legend className="mb-1.5 text-sm font-medium">Chart colors</legend>
+          <div className="flex gap-2">
+            {draft.colors.charts.map((color, index) => (
+              <Input
+                key={index}
+                type="color"
+                aria-label={`Chart color ${index + 1}`}
+                className="h-9 w-11 cursor-pointer p-1"
+                value={color}
+                onChange={(event) => setChartColor(index, event.target.value)}
+              />
+            ))}
+          </div>
+        </fieldset>
+        <div className="grid gap-2">
+          <Label>Corner radius · {draft.radius}rem</Label>
+          <Slider
+            min={0}
+            max={1.5}
+            step={0.125}
+            value={[draft.radius]}
+            onValueChange={([radius]) => setDraft((d) => ({ ...d, radius }))}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          className="self-start"
+          onClick={() =>
+            setDraft((d) => ({ ...d, colors: structuredClone(baseThemeColors[d.mode]) }))
+          }
+        >
+          <RotateCcw />
+          Start over from the built-in {draft.mode} colors
+        </Button>
+      </div>
+      <div className="flex min-w-0 flex-col gap-4">
+        <ThemePreview theme={draft} />
+        <section>
+          <h3 className="mb-2 text-sm font-medium">
+            Contrast (WCAG AA)
+            <span
+              className={cn(
+                "ml-2 font-normal",
+                failing ? "text-destructive" : "text-muted-foreground"
+              )}
+            >
+              {failing ? `${failing} below the minimum` : "All checks pass"}
+            </span>
+          </h3>
+          <ul className="grid gap-1 text-sm sm:grid-cols-2">
+            {checks.map((check) => (
+              <li key={check.label} className="flex items-center gap-2">
+                <span
+                  className="flex h-6 w-8 shrink-0 items-center justify-center rounded border text-xs font-semibold"
+                  style={{ color: check.foreground, backgroundColor: check.background }}
+                  aria-hidden
+                >
+                  Aa
+                </span>
+                <span className="flex-1">{check.label}</span>
+                <span className="tabular-nums text-muted-foreground">
+                  {check.ratio.toFixed(2)}:1
+                </span>
+                {check.passes ? (
+                  <Check className="h-4 w-4 text-muted-foreground" aria-label="Passes" />
+                ) : (
+                  <X
+                    className="h-4 w-4 text-destructive"
+                    aria-label={`Needs at least ${check.required}:1`}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={!draft.name.trim()}>
+            Save theme
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default ThemeEditor;
@@ -0,0 +1,133 @@
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+import { CalendarCheck, Inbox, ListTodo } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { chartColors, themeVariables } from "@/lib/theme";
+import { cn } from "@/lib/utils";
+import type { CustomTheme } from "@/types/theme";
+
+const chartData = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day, index) => ({
+  day,
+  ...Object.fromEntries(
+    chartColors.map((_, series) => [
+      `series${series + 1}`,
+      ((index * 7 + series * 5) % 9) + 2,
+    ])
+  ),
+}));
+
+const chartConfig = Object.fromEntries(
+  chartColors.map((color, index) => [
+    `series${index + 1}`,
+    { label: `Series ${index + 1}`, color },
+  ])
+) satisfies ChartConfig;
+
+const sidebarItems = [
+  { label: "Inbox", icon: Inbox },
+  { label: "Today", icon: CalendarCheck, active: true },
+  { label: "List", icon: ListTodo },
+];
+
+interface ThemePreviewProps {
+  theme: CustomTheme;
+  className?: string;
+}
+
+/**
+ * Sample UI rendered with the theme's variables set on a wrapper, so it shows
+ * the theme without applying it to the rest of the app.
+ */
+const ThemePreview = ({ theme, className }: ThemePreviewProps) => (
+  <div
+    style={{ ...themeVariables(theme), colorScheme: theme.mode }}
+    className={cn(
+      theme.mode === "dark" && "dark",
+      "flex overflow-hidden rounded-lg border bg-background text-foreground",
+      className
+    )}
+  >
+    <aside className="hidden w-36 shrink-0 flex-col gap-1 border-r border-sidebar-border bg-sidebar p-2 text-sm text-sidebar-foreground sm:flex">
+      <p className="px-2 py-1 text-xs font-medium opacity-70">Views</p>
+      {sidebarItems.map(({ label, icon: Icon, active }) => (
+        <div
+          key={label}
+          className={cn(
+            "flex items-center gap-2 rounded-md px-2 py-1.5",
+            active && "bg-sidebar-accent font-medium text-sidebar-accent-foreground"
+          )}
+        >
+          <Icon className="h-4 w-4" />
+          {label}
+        </div>
+      ))}
+    </aside>
+    <div className="flex min-w-0 flex-1 flex-col gap-4 p-4">
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm">Primary</Button>
+        <Button size="sm" variant="secondary">
+          Secondary
+        </Button>
+        <Button size="sm" variant="outline">
+          Outline
+        </Button>
+        <Button size="sm" variant="destructive">
+          Delete
+        </Button>
+      </div>
+      <Card>
+        <CardHeader className="p-4">
+          <CardTitle className="text-base">Write release notes</CardTitle>
+          <CardDescription>Due tomorrow · Website</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3 p-4 pt-0">
+          <div className="flex items-center gap-2 text-sm">
+            <Checkbox checked aria-label="Done" />
+            <span className="text-muted-foreground line-through">Draft outline</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input placeholder="Add a subtask…" className="h-8" />
+            <Badge>urgent</Badge>
+            <Badge variant="secondary">#docs</Badge>
+          </div>
+          <p className="rounded-md bg-accent px-2 py-1 text-sm text-accent-foreground">
+            Highlighted row
+          </p>
+        </CardContent>
+      </Card>
+      <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+        <BarChart data={chartData}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="day" tickLine={false} axisLine={false} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {chartColors.map((_, index) => (
+            <Bar
+              key={index}
+              dataKey={`series${index + 1}`}
+              stackId="a"
+              fill={`var(--color-series${index + 1})`}
+            />
+          ))}
+        </BarChart>
+      </ChartContainer>
+    </div>
+  </div>
+);
+
+export default ThemePreview;
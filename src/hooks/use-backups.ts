@@ -0,0 +1,207 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+
+import {
+  createArchive,
+  describeArchive,
+  expiredBackups,
+  isBackupDue,
+  sortBackups,
+  type RestorePlan,
+} from "@/lib/backup"
+import {
+  backupRepository,
+  notificationRepository,
+  projectRepository,
+  settingsRepository,
+  taskRepository,
+} from "@/lib/db/repository"
+import { queryClient } from "@/lib/query-client"
+import type { BackupTrigger, LocalBackup } from "@/types/backup"
+import { flushWrites, record, undoable } from "./use-history"
+import { notify, replaceNotifications } from "./use-notifications"
+import { commitProjects } from "./use-projects"
+import { getSettings, updateSettings, useSettings } from "./use-settings"
+import { commitTasks } from "./use-tasks"
+
+export const backupsQueryKey = ["backups"] as const
+
+// How often the scheduler checks whether a backup is due.
+const CHECK_INTERVAL = 5 * 60 * 1000
+
+/** A local backup without its archive, which can be large. */
+export type LocalBackupInfo = Omit<LocalBackup, "archive"> & {
+  description: string
+}
+
+/**
+ * Archives what is saved rather than the cache, which only holds the
+ * collections some page has loaded. Waits for changes still being written,
+ * so the archive has everything the UI shows.
+ */
+async function readArchive(now = new Date()) {
+  await flushWrites()
+  const [tasks, projects, settings, notifications] = await Promise.all([
+    taskRepository.list(),
+    projectRepository.list(),
+    settingsRepository.get(),
+    notificationRepository.list(),
+  ])
+  return createArchive({ tasks, projects, settings, notifications }, now)
+}
+
+/**
+ * Writes the plan as one undoable step. The notification history is a log
+ * and stays out of undo.
+ */
+function applyRestorePlan(plan: RestorePlan) {
+  const label = plan.mode === "replace" ? "Restored backup" : "Merged backup"
+  const before = getSettings()
+  undoable(label, () => {
+    if (plan.projects.length) commitProjects("Restored projects", plan.projects)
+    if (plan.tasks.length) commitTasks("Restored tasks", plan.tasks)
+    updateSettings(plan.settings)
+    record({
+      label: "Restored settings",
+      undo: () => updateSettings(before),
+      redo: () => updateSettings(plan.settings),
+    })
+  })
+  return replaceNotifications(plan.notifications)
+}
+
+async function listBackups(): Promise<LocalBackupInfo[]> {
+  return sortBackups(await backupRepository.list()).map(
+    ({ archive, ...backup }) => ({ ...backup, description: describeArchive(archive) })
+  )
+}
+
+function getLocalBackup(id: LocalBackup["id"]) {
+  return backupRepository.get(id)
+}
+
+/** Deletes the backups past the retention count, oldest first. */
+async function pruneLocalBackups(retention = getSettings().backupRetention) {
+  const expired = expiredBackups(await backupRepository.list(), retention)
+  if (expired.length) await backupRepository.remove(...expired.map((b) => b.id))
+  await queryClient.invalidateQueries({ queryKey: backupsQueryKey })
+}
+
+/** Keeps a copy of everything stored in the browser, then prunes old copies. */
+async function createLocalBackup(trigger: BackupTrigger) {
+  const archive = await readArchive()
+  const backup: LocalBackup = {
+    id: crypto.randomUUID(),
+    createdAt: archive.createdAt,
+    trigger,
+    archive,
+  }
+  await backupRepository.save(backup)
+  await pruneLocalBackups()
+  return backup
+}
+
+async function deleteLocalBackup(id: LocalBackup["id"]) {
+  await backupRepository.remove(id)
+  await queryClient.invalidateQueries({ queryKey: backupsQueryKey })
+}
+
+function useBackups() {
+  const query = useQuery({
+    queryKey: backupsQueryKey,
+    queryFn: listBackups,
+  })
+
+  return {
+    backups: query.data ?? [],
+    isLoading: query.isLoading,
+    createLocalBackup,
+    deleteLocalBackup,
+    pruneLocalBackups,
+  }
+}
+
+/** Makes local backups on the configured schedule while the app is open; mount once. */
+function useBackupScheduler() {
+  const { settings, isLoading } = useSettings()
+  const interval = settings.backupInterval
+
+  React.useEffect(() => {
+    if (isLoading || interval === "off") return undefined
+
+    // Backups share the browser storage they protect, so ask to keep it. The
+    // settings card warns when the browser declines.
+    if (supportsPersistence()) void navigator.storage.persist().catch(() => false)
+
+    let running = false
+    const check = async () => {
+      if (running) return
+      running = true
+      try {
+        const [latest] = await queryClient.ensureQueryData({
+          queryKey: backupsQueryKey,
+          queryFn: listBackups,
+        })
+        if (isBackupDue(latest, interval)) await createLocalBackup("scheduled")
+      } catch {
+        // Usually a full quota; trying again every few minutes wouldn't help.
+        window.clearInterval(timer)
+        notify({
+          kind: "error",
+          title: "Couldn't make an automatic backup",
+          description: "Download a backup from Settings to keep your data safe.",
+        })
+      } finally {
+        running = false
+      }
+    }
+
+    const timer = window.setInterval(check, CHECK_INTERVAL)
+    void check()
+    return () => window.clearInterval(timer)
+  }, [interval, isLoading])
+}
+
+type PersistenceState = "persisted" | "best-effort" | "unsupported"
+
+function supportsPersistence() {
+  return typeof navigator !== "undefined" && typeof navigator.storage?.persist === "function"
+}
+
+/**
+ * Whether the browser may clear the app's storage when space runs low, and a
+ * way to ask it not to.
+ */
+function useStoragePersistence() {
+  const [state, setState] = React.useState<PersistenceState | null>(
+    supportsPersistence() ? null : "unsupported"
+  )
+
+  React.useEffect(() => {
+    if (!supportsPersistence()) return
+    navigator.storage
+      .persisted()
+      .then((persisted) => setState(persisted ? "persisted" : "best-effort"))
+      .catch(() => setState("unsupported"))
+  }, [])
+
+  const requestPersistence = React.useCallback(async () => {
+    const granted = await navigator.storage.persist()
+    setState(granted ? "persisted" : "best-effort")
+    return granted
+  }, [])
+
+  return { state, requestPersistence }
+}
+
+export {
+  useBackups,
+  useBackupScheduler,
+  useStoragePersistence,
+  readArchive,
+  applyRestorePlan,
+  getLocalBackup,
+  createLocalBackup,
+  deleteLocalBackup,
+  pruneLocalBackups,
+}
@@ -0,0 +1,39 @@
+import { BENCHMARK_TAG, BENCHMARK_TASK_COUNT, generateBenchmarkTasks } from "@/lib/benchmark"
+import { projectRepository, taskRepository } from "@/lib/db/repository"
+import { queryClient } from "@/lib/query-client"
+import { writeRecords } from "./use-history"
+import { projectsQueryKey } from "./use-projects"
+import { tasksQueryKey } from "./use-tasks"
+
+/**
+ * Adds generated tasks to the workspace, outside the undo history. Meant for
+ * local performance testing from the browser console in development; the
+ * localStorage fallback is too small for the full set.
+ */
+async function seedBenchmarkTasks(count = BENCHMARK_TASK_COUNT, seed = 1) {
+  // Load what is stored first, or the seeded tasks would hide it until reload.
+  await queryClient.ensureQueryData({ queryKey: tasksQueryKey, queryFn: taskRepository.list })
+  const projects = await queryClient.ensureQueryData({
+    queryKey: projectsQueryKey,
+    queryFn: projectRepository.list,
+  })
+  const tasks = generateBenchmarkTasks(count, {
+    projectIds: projects.filter((p) => !p.archived).map((p) => p.id),
+    seed,
+  })
+  writeRecords(tasksQueryKey, taskRepository, tasks.map((task) => [task.id, task]))
+  return tasks.length
+}
+
+/** Removes every task created by `seedBenchmarkTasks`. */
+async function clearBenchmarkTasks() {
+  const tasks = await queryClient.ensureQueryData({
+    queryKey: tasksQueryKey,
+    queryFn: taskRepository.list,
+  })
+  const fixtures = tasks.filter((task) => task.tags.includes(BENCHMARK_TAG))
+  writeRecords(tasksQueryKey, taskRepository, fixtures.map((task) => [task.id, undefined]))
+  return fixtures.length
+}
+
+export { seedBenchmarkTasks, clearBenchmarkTasks }
@@ -0,0 +1,48 @@
+import * as React from "react"
+
+/** Sub-pages of the palette for commands that need a second step. */
+export type CommandPage = "move" | "due"
+
+interface State {
+  open: boolean
+  page: CommandPage | null
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = { open: false, page: null }
+
+function setState(state: State) {
+  memoryState = state
+  listeners.forEach((listener) => listener(memoryState))
+}
+
+function openCommandPalette(page: CommandPage | null = null) {
+  setState({ open: true, page })
+}
+
+function closeCommandPalette() {
+  setState({ open: false, page: null })
+}
+
+function useCommandPalette() {
+  const [state, setLocalState] = React.useState(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalState)
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    ...state,
+    openCommandPalette,
+    closeCommandPalette,
+  }
+}
+
+export { useCommandPalette, openCommandPalette, closeCommandPalette }
@@ -0,0 +1,43 @@
+import type { CustomTheme } from "@/types/theme"
+import { getSettings, updateSettings, useSettings } from "./use-settings"
+
+/** Adds the theme, or replaces the saved one with the same id. */
+function saveCustomTheme(theme: CustomTheme) {
+  const { customThemes } = getSettings()
+  const exists = customThemes.some((t) => t.id === theme.id)
+  updateSettings({
+    customThemes: exists
+      ? customThemes.map((t) => (t.id === theme.id ? theme : t))
+      : [...customThemes, theme],
+  })
+  return theme
+}
+
+function deleteCustomTheme(id: CustomTheme["id"]) {
+  const { customThemes, activeThemeId } = getSettings()
+  updateSettings({
+    customThemes: customThemes.filter((t) => t.id !== id),
+    activeThemeId: activeThemeId === id ? null : activeThemeId,
+  })
+}
+
+/** Pass null to go back to the built-in light and dark themes. */
+function activateCustomTheme(id: CustomTheme["id"] | null) {
+  updateSettings({ activeThemeId: id })
+}
+
+function useCustomThemes() {
+  const { settings, isLoading } = useSettings()
+
+  return {
+    customThemes: settings.customThemes,
+    activeTheme:
+      settings.customThemes.find((t) => t.id === settings.activeThemeId) ?? null,
+    isLoading,
+    saveCustomTheme,
+    deleteCustomTheme,
+    activateCustomTheme,
+  }
+}
+
+export { useCustomThemes, saveCustomTheme, deleteCustomTheme, activateCustomTheme }
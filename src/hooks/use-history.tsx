@@ -0,0 +1,255 @@
+import * as React from "react"
+
+import { ToastAction } from "@/components/ui/toast"
+import type { RecordChange, Repository } from "@/lib/db/repository"
+import { queryClient } from "@/lib/query-client"
+import { notify } from "./use-notifications"
+import { toast } from "./use-toast"
+
+const HISTORY_LIMIT = 100
+
+/** One undoable step: a store mutation and how to reverse it. */
+export interface HistoryEntry {
+  label: string
+  undo: () => void
+  redo: () => void
+}
+
+interface State {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = { past: [], future: [] }
+
+// Entries recorded inside `batch`, collected into a single step.
+let group: HistoryEntry[] | null = null
+// Set while undoing or redoing, so the writes that replays make aren't recorded again.
+let replaying = false
+
+// Background writes still in flight, so backups can wait for them.
+const pendingWrites = new Set<Promise<unknown>>()
+
+/**
+ * Awaits a background write; on failure, tells the user and re-reads the
+ * affected query so the UI drops the change that did not stick.
+ */
+function persist(write: Promise<unknown>, queryKey: readonly unknown[]) {
+  pendingWrites.add(write)
+  write
+    .catch(() => {
+      notify({
+        kind: "error",
+        title: "Couldn't save your changes",
+        description: "Your last change has been reverted.",
+      })
+      void queryClient.invalidateQueries({ queryKey })
+    })
+    .finally(() => pendingWrites.delete(write))
+  return write
+}
+
+/** Settles once every write started so far has, failed or not. */
+async function flushWrites() {
+  await Promise.allSettled([...pendingWrites])
+}
+
+/**
+ * Replaces records of a cached collection and saves them; `undefined` for an
+ * id deletes that record. Used for every store write so undo can restore
+ * earlier snapshots, including re-creating deleted records.
+ */
+function writeRecords<T extends { id: string }>(
+  queryKey: readonly unknown[],
+  repository: Repository<T>,
+  records: [id: string, record: T | undefined][]
+) {
+  const byId = new Map(records)
+  const saved = [...byId.values()].filter(Boolean)
+  // A set, since bulk imports and fixtures can touch tens of thousands of ids.
+  const removed = new Set([...byId.keys()].filter((id) => !byId.get(id)))
+
+  queryClient.setQueryData<T[]>(queryKey, (current = []) => {
+    const known = new Set(current.map((record) => record.id))
+    return [
+      ...current
+        .filter((record) => !removed.has(record.id))
+        .map((record) => byId.get(record.id) ?? record),
+      ...saved.filter((record) => !known.has(record.id)),
+    ]
+  })
+
+  if (saved.length) persist(repository.save(...saved), queryKey)
+  if (removed.size) persist(repository.remove(...removed), queryKey)
+}
+
+function setState(state: State) {
+  memoryState = state
+  listeners.forEach((listener) => listener(memoryState))
+}
+
+function combine(label: string, entries: HistoryEntry[]): HistoryEntry {
+  return {
+    label,
+    undo: () => [...entries].reverse().forEach((entry) => entry.undo()),
+    redo: () => entries.forEach((entry) => entry.redo()),
+  }
+}
+
+function record(entry: HistoryEntry) {
+  if (replaying) return
+  if (group) {
+    group.push(entry)
+    return
+  }
+  setState({
+    past: [...memoryState.past, entry].slice(-HISTORY_LIMIT),
+    future: [],
+  })
+}
+
+/**
+ * Writes the `after` state of each changed record (deleting those without
+ * one) and records the step, so undo can write the `before` states back.
+ */
+function commitRecords<T extends { id: string }>(
+  label: string,
+  queryKey: readonly unknown[],
+  repository: Repository<T>,
+  changes: RecordChange<T>[]
+) {
+  const states = (side: keyof RecordChange<T>) =>
+    changes.map((change): [string, T | undefined] => [
+      (change.before ?? change.after).id,
+      change[side],
+    ])
+
+  writeRecords(queryKey, repository, states("after"))
+  record({
+    label,
+    undo: () => writeRecords(queryKey, repository, states("before")),
+    redo: () => writeRecords(queryKey, repository, states("after")),
+  })
+}
+
+/**
+ * Runs `fn` and records every mutation it makes as one step under `label`,
+ * e.g. a bulk edit of 50 tasks. Nested batches join the outermost one.
+ */
+function batch<T>(label: string, fn: () => T): T {
+  if (group || replaying) return fn()
+
+  group = []
+  try {
+    return fn()
+  } finally {
+    const entries = group
+    group = null
+    if (entries.length) record(combine(label, entries))
+  }
+}
+
+function replay(fn: () => void) {
+  replaying = true
+  try {
+    fn()
+  } finally {
+    replaying = false
+  }
+}
+
+function undo() {
+  const entry = memoryState.past[memoryState.past.length - 1]
+  if (!entry) return undefined
+
+  replay(entry.undo)
+  setState({
+    past: memoryState.past.slice(0, -1),
+    future: [entry, ...memoryState.future],
+  })
+  return entry
+}
+
+function redo() {
+  const [entry, ...future] = memoryState.future
+  if (!entry) return undefined
+
+  replay(entry.redo)
+  setState({ past: [...memoryState.past, entry], future })
+  return entry
+}
+
+/**
+ * Like `batch`, and also shows a toast with an Undo button. Meant for
+ * destructive actions such as deletes and bulk moves.
+ */
+function undoable<T>(label: string, fn: () => T): T {
+  const before = memoryState.past[memoryState.past.length - 1]
+  const result = batch(label, fn)
+  const entry = memoryState.past[memoryState.past.length - 1]
+  if (!entry || entry === before) return result
+
+  notify({ kind: "activity", title: label }, { toast: false })
+  toast({
+    title: label,
+    action: (
+      <ToastAction
+        altText="Undo"
+        onClick={() => {
+          // Snapshots can only be restored in order, so the button only
+          // works while this is still the latest change.
+          if (memoryState.past[memoryState.past.length - 1] === entry) {
+            undo()
+          } else {
+            toast({
+              title: "Couldn't undo",
+              description: "Newer changes were made since. Undo those first.",
+            })
+          }
+        }}
+      >
+        Undo
+      </ToastAction>
+    ),
+  })
+  return result
+}
+
+function useHistory() {
+  const [state, setLocalState] = React.useState<State>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalState)
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undoLabel: state.past[state.past.length - 1]?.label,
+    redoLabel: state.future[0]?.label,
+    undo,
+    redo,
+  }
+}
+
+export type { RecordChange }
+export {
+  useHistory,
+  persist,
+  flushWrites,
+  writeRecords,
+  record,
+  commitRecords,
+  batch,
+  undoable,
+  undo,
+  redo,
+}
@@ -0,0 +1,18 @@
+import type { ImportPlan } from "@/lib/import"
+import { undoable } from "./use-history"
+import { saveProjects } from "./use-projects"
+import { saveTasks } from "./use-tasks"
+
+/** Writes the plan's projects and tasks as one undoable step. */
+function applyImportPlan(label: string, plan: ImportPlan) {
+  const tasks = plan.items.flatMap((item) =>
+    item.action !== "skip" && item.task ? [item.task] : []
+  )
+  undoable(label, () => {
+    if (plan.projects.length) saveProjects("Imported projects", plan.projects)
+    if (tasks.length) saveTasks("Imported tasks", tasks)
+  })
+  return tasks.length
+}
+
+export { applyImportPlan }
@@ -0,0 +1,161 @@
+import * as React from "react"
+
+import { notificationRepository } from "@/lib/db/repository"
+import { buildNotification, pruneNotifications } from "@/lib/notifications"
+import type {
+  AppNotification,
+  NewNotification,
+} from "@/types/notification"
+import { toast } from "./use-toast"
+
+interface State {
+  /** Newest first. */
+  notifications: AppNotification[]
+}
+
+const listeners: Array<(state: State) => void> = []
+
+let memoryState: State = { notifications: [] }
+
+let hydration: Promise<void> | null = null
+
+function setState(state: State) {
+  memoryState = state
+  listeners.forEach((listener) => listener(memoryState))
+}
+
+let warnedUnsaved = false
+
+// Notifications are a log, not user data: a failed write only shows a toast,
+// once, so it can't turn into an endless loop of "couldn't save" notifications.
+function warnUnsaved() {
+  if (warnedUnsaved) return
+  warnedUnsaved = true
+  toast({
+    variant: "destructive",
+    title: "Couldn't save the notification history",
+    description: "New notifications are kept until the app is closed.",
+  })
+}
+
+function save(...notifications: AppNotification[]) {
+  notificationRepository.save(...notifications).catch(warnUnsaved)
+}
+
+function remove(...ids: string[]) {
+  if (!ids.length) return
+  notificationRepository.remove(...ids).catch(warnUnsaved)
+}
+
+function setNotifications(notifications: AppNotification[]) {
+  const { kept, removed } = pruneNotifications(notifications)
+  setState({ notifications: kept })
+  remove(...removed.map((n) => n.id))
+}
+
+/** Loads stored history once, keeping anything recorded before it arrived. */
+function hydrate() {
+  hydration ??= notificationRepository
+    .list()
+    .then((stored) => {
+      const recorded = new Set(memoryState.notifications.map((n) => n.id))
+      setNotifications([
+        ...memoryState.notifications,
+        ...stored.filter((n) => !recorded.has(n.id)),
+      ])
+    })
+    .catch(() => {
+      toast({
+        variant: "destructive",
+        title: "Couldn't load earlier notifications",
+      })
+    })
+  return hydration
+}
+
+interface NotifyOptions {
+  /** Also show it as a toast; off for events that already raised their own. */
+  toast?: boolean
+}
+
+/** Records a notification in the history and, by default, shows a toast for it. */
+function notify(input: NewNotification, options: NotifyOptions = {}) {
+  const notification = buildNotification(input)
+  void hydrate()
+  setNotifications([notification, ...memoryState.notifications])
+  save(notification)
+
+  if (options.toast ?? true) {
+    toast({
+      title: notification.title,
+      description: notification.description ?? undefined,
+      variant: notification.kind === "error" ? "destructive" : "default",
+    })
+  }
+  return notification
+}
+
+function markRead(ids: AppNotification["id"][], read = true) {
+  const changed = memoryState.notifications
+    .filter((n) => ids.includes(n.id) && n.read !== read)
+    .map((n) => ({ ...n, read }))
+  if (!changed.length) return
+
+  const byId = new Map(changed.map((n) => [n.id, n]))
+  setState({
+    notifications: memoryState.notifications.map((n) => byId.get(n.id) ?? n),
+  })
+  save(...changed)
+}
+
+function markAllRead() {
+  markRead(memoryState.notifications.map((n) => n.id))
+}
+
+function clearNotifications() {
+  remove(...memoryState.notifications.map((n) => n.id))
+  setState({ notifications: [] })
+}
+
+/** Swaps the whole history for `notifications`, e.g. when restoring a backup. */
+function replaceNotifications(notifications: AppNotification[]) {
+  return hydrate().then(() => {
+    const kept = new Set(notifications.map((n) => n.id))
+    remove(...memoryState.notifications.filter((n) => !kept.has(n.id)).map((n) => n.id))
+    setNotifications(notifications)
+    if (memoryState.notifications.length) save(...memoryState.notifications)
+  })
+}
+
+function useNotifications() {
+  const [state, setLocalState] = React.useState<State>(memoryState)
+
+  React.useEffect(() => {
+    listeners.push(setLocalState)
+    void hydrate()
+    return () => {
+      const index = listeners.indexOf(setLocalState)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    notifications: state.notifications,
+    unreadCount: state.notifications.filter((n) => !n.read).length,
+    notify,
+    markRead,
+    markAllRead,
+    clearNotifications,
+  }
+}
+
+export {
+  useNotifications,
+  notify,
+  markRead,
+  markAllRead,
+  clearNotifications,
+  replaceNotifications,
+}
@@ -0,0 +1,197 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { projectRepository } from "@/lib/db/repository"
+import {
+  applyProjectPatch,
+  buildProject,
+  buildSection,
+  getDescendantIds,
+  getSiblings,
+} from "@/lib/projects"
+import { queryClient } from "@/lib/query-client"
+import type {
+  NewProject,
+  Project,
+  ProjectPatch,
+  ProjectSection,
+} from "@/types/project"
+import { batch, commitRecords, undoable, type RecordChange } from "./use-history"
+import { getTasks, updateTask } from "./use-tasks"
+
+export const projectsQueryKey = ["projects"] as const
+
+function getProjects() {
+  return queryClient.getQueryData<Project[]>(projectsQueryKey) ?? []
+}
+
+function commitProjects(label: string, changes: RecordChange<Project>[]) {
+  commitRecords(label, projectsQueryKey, projectRepository, changes)
+}
+
+function getProject(id: Project["id"]) {
+  return getProjects().find((p) => p.id === id)
+}
+
+function saveProjects(label: string, changed: Project[]) {
+  commitProjects(
+    label,
+    changed.map((project) => ({ before: getProject(project.id), after: project }))
+  )
+}
+
+function createProject(input: NewProject) {
+  const siblings = getProjects().filter(
+    (p) => p.parentId === (input.parentId ?? null)
+  )
+  const order =
+    input.order ?? Math.max(0, ...siblings.map((p) => p.order + 1))
+  const project = buildProject({ ...input, order })
+  commitProjects("Added project", [{ after: project }])
+  return project
+}
+
+function updateProject(id: Project["id"], patch: ProjectPatch) {
+  const current = getProject(id)
+  if (!current) return undefined
+
+  const project = applyProjectPatch(current, patch)
+  saveProjects("Edited project", [project])
+  return project
+}
+
+/** Swaps a project with its previous or next sibling. */
+function moveProject(id: Project["id"], direction: -1 | 1) {
+  const project = getProject(id)
+  if (!project) return
+
+  const siblings = getSiblings(getProjects(), project)
+  const index = siblings.findIndex((p) => p.id === id)
+  const other = siblings[index + direction]
+  if (!other) return
+
+  // Renumber so ties from imported or legacy data cannot block the swap.
+  const reordered = siblings.map((p, i) => ({ project: p, order: i }))
+  reordered[index].order = index + direction
+  reordered[index + direction].order = index
+  saveProjects(
+    "Reordered projects",
+    reordered.map(({ project: p, order }) => applyProjectPatch(p, { order }))
+  )
+}
+
+/** Archiving a project archives everything nested under it as well. */
+function archiveProject(id: Project["id"], archived = true) {
+  const projects = getProjects()
+  const ids = new Set([id, ...getDescendantIds(projects, id)])
+  saveProjects(
+    archived ? "Archived project" : "Restored project",
+    projects
+      .filter((p) => ids.has(p.id))
+      .map((p) => applyProjectPatch(p, { archived }))
+  )
+}
+
+/**
+ * Removes a project. Its sub-projects move up to its parent and its tasks
+ * move to the inbox, so nothing else is deleted with it.
+ */
+function deleteProject(id: Project["id"]) {
+  const project = getProject(id)
+  if (!project) return
+
+  undoable(`Deleted project “${project.name}”`, () => {
+    const children = getProjects().filter((p) => p.parentId === id)
+    if (children.length) {
+      saveProjects(
+        "Moved sub-projects",
+        children.map((p) => applyProjectPatch(p, { parentId: project.parentId }))
+      )
+    }
+    getTasks()
+      .filter((task) => task.projectId === id)
+      .forEach((task) => updateTask(task.id, { projectId: null, sectionId: null }))
+
+    commitProjects("Deleted project", [{ before: project }])
+  })
+}
+
+function addSection(projectId: Project["id"], name: string) {
+  const project = getProject(projectId)
+  if (!project) return undefined
+
+  const order = Math.max(0, ...project.sections.map((s) => s.order + 1))
+  const section = buildSection(name, order)
+  batch("Added section", () =>
+    updateProject(projectId, { sections: [...project.sections, section] })
+  )
+  return section
+}
+
+function updateSection(
+  projectId: Project["id"],
+  sectionId: ProjectSection["id"],
+  patch: Partial<Omit<ProjectSection, "id">>
+) {
+  const project = getProject(projectId)
+  if (!project) return
+
+  batch("Edited section", () =>
+    updateProject(projectId, {
+      sections: project.sections.map((s) =>
+        s.id === sectionId ? { ...s, ...patch } : s
+      ),
+    })
+  )
+}
+
+/** Removes a section; its tasks stay in the project, outside any section. */
+function deleteSection(projectId: Project["id"], sectionId: ProjectSection["id"]) {
+  const project = getProject(projectId)
+  const section = project?.sections.find((s) => s.id === sectionId)
+  if (!section) return
+
+  undoable(`Deleted section “${section.name}”`, () => {
+    getTasks()
+      .filter((task) => task.sectionId === sectionId)
+      .forEach((task) => updateTask(task.id, { sectionId: null }))
+    updateProject(projectId, {
+      sections: project.sections.filter((s) => s.id !== sectionId),
+    })
+  })
+}
+
+function useProjects() {
+  const query = useQuery({
+    queryKey: projectsQueryKey,
+    queryFn: projectRepository.list,
+  })
+
+  return {
+    projects: query.data ?? [],
+    isLoading: query.isLoading,
+    createProject,
+    updateProject,
+    moveProject,
+    archiveProject,
+    deleteProject,
+    addSection,
+    updateSection,
+    deleteSection,
+  }
+}
+
+export {
+  useProjects,
+  getProjects,
+  getProject,
+  commitProjects,
+  saveProjects,
+  createProject,
+  updateProject,
+  moveProject,
+  archiveProject,
+  deleteProject,
+  addSection,
+  updateSection,
+  deleteSection,
+}
@@ -0,0 +1,164 @@
+import * as React from "react"
+import { useNavigate } from "react-router-dom"
+import { format } from "date-fns"
+
+import { Button } from "@/components/ui/button"
+import { ToastAction } from "@/components/ui/toast"
+import { taskLink } from "@/lib/notifications"
+import {
+  createReminderScheduler,
+  describeReminder,
+  reminderTime,
+  snoozeOptions,
+  snoozeTime,
+  type PendingReminder,
+  type SnoozeOption,
+} from "@/lib/reminders"
+import type { Task, TaskReminder } from "@/types/task"
+import { notify } from "./use-notifications"
+import { getTask, setReminderState, useTasks } from "./use-tasks"
+import { toast } from "./use-toast"
+
+type PermissionState = NotificationPermission | "unsupported"
+
+function getNotificationPermission(): PermissionState {
+  return typeof Notification === "undefined"
+    ? "unsupported"
+    : Notification.permission
+}
+
+function snoozeReminder(
+  taskId: Task["id"],
+  reminderId: TaskReminder["id"],
+  option: SnoozeOption
+) {
+  const until = snoozeTime(option)
+  setReminderState(taskId, reminderId, { snoozedUntil: until.toISOString() })
+  return until
+}
+
+/** Returns false when the browser can't or may not show one. */
+function showSystemNotification(
+  title: string,
+  body: string,
+  tag: string,
+  onClick: () => void
+) {
+  if (getNotificationPermission() !== "granted") return false
+  try {
+    const notification = new Notification(title, { body, tag })
+    notification.onclick = () => {
+      window.focus()
+      onClick()
+      notification.close()
+    }
+    return true
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker.
+    return false
+  }
+}
+
+function showReminderToast(
+  { task, reminder }: PendingReminder,
+  description: string,
+  open: () => void
+) {
+  const { dismiss } = toast({
+    title: task.title,
+    priority: "high",
+    description: (
+      <div className="grid gap-2">
+        <span>{description}</span>
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="mr-1 text-xs">Snooze</span>
+          {snoozeOptions.map((option) => (
+            <Button
+              key={option.id}
+              variant="outline"
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => {
+                snoozeReminder(task.id, reminder.id, option.id)
+                dismiss()
+              }}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+    ),
+    action: (
+      <ToastAction altText="Open task" onClick={open}>
+        Open
+      </ToastAction>
+    ),
+  })
+}
+
+/**
+ * Records the delivery, adds the reminder to the notification center and
+ * shows it as a system notification, or as a toast when that isn't allowed.
+ */
+function deliverReminder(pending: PendingReminder, openTask: (task: Task) => void) {
+  const { task, reminder } = pending
+  setReminderState(task.id, reminder.id, {
+    deliveredFor: reminderTime(reminder, task)?.toISOString() ?? null,
+    snoozedUntil: null,
+  })
+
+  const description = task.dueDate
+    ? `Due ${format(new Date(task.dueDate), "EEE, MMM d 'at' p")}`
+    : describeReminder(reminder)
+  notify(
+    {
+      kind: "reminder",
+      title: task.title,
+      description,
+      taskId: task.id,
+      reminderId: reminder.id,
+    },
+    { toast: false }
+  )
+
+  const open = () => openTask(getTask(task.id) ?? task)
+  if (!showSystemNotification(task.title, description, `${task.id}:${reminder.id}`, open)) {
+    showReminderToast(pending, description, open)
+  }
+}
+
+/** Delivers task reminders while the app is open; mount once, inside the router. */
+function useReminderScheduler() {
+  const { tasks } = useTasks()
+  const navigate = useNavigate()
+  const navigateRef = React.useRef(navigate)
+  navigateRef.current = navigate
+
+  const [scheduler] = React.useState(() =>
+    createReminderScheduler((due) =>
+      due.forEach((pending) =>
+        deliverReminder(pending, (task) => navigateRef.current(taskLink(task)))
+      )
+    )
+  )
+
+  React.useEffect(() => () => scheduler.stop(), [scheduler])
+  React.useEffect(() => scheduler.update(tasks), [scheduler, tasks])
+}
+
+/** The browser's notification permission, and a way to ask for it. */
+function useNotificationPermission() {
+  const [permission, setPermission] = React.useState(getNotificationPermission)
+
+  const requestPermission = React.useCallback(async () => {
+    if (typeof Notification === "undefined") return "unsupported" as const
+    const result = await Notification.requestPermission()
+    setPermission(result)
+    return result
+  }, [])
+
+  return { permission, requestPermission }
+}
+
+export { useReminderScheduler, useNotificationPermission, snoozeReminder }
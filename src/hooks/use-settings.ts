@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { settingsRepository } from "@/lib/db/repository"
+import { queryClient } from "@/lib/query-client"
+import { defaultSettings, type Settings } from "@/types/settings"
+import { persist } from "./use-history"
+
+export const settingsQueryKey = ["settings"] as const
+
+function getSettings() {
+  return queryClient.getQueryData<Settings>(settingsQueryKey) ?? defaultSettings
+}
+
+function updateSettings(patch: Partial<Settings>) {
+  const settings = { ...getSettings(), ...patch }
+  queryClient.setQueryData<Settings>(settingsQueryKey, settings)
+  persist(settingsRepository.save(settings), settingsQueryKey)
+  return settings
+}
+
+function useSettings() {
+  const query = useQuery({
+    queryKey: settingsQueryKey,
+    queryFn: settingsRepository.get,
+  })
+
+  return {
+    settings: query.data ?? defaultSettings,
+    isLoading: query.isLoading,
+    updateSettings,
+  }
+}
+
+export { useSettings, getSettings, updateSettings }
@@ -0,0 +1,172 @@
+import * as React from "react"
+
+import { eventToChord, isEditableTarget } from "@/lib/keyboard"
+import {
+  findConflicts,
+  matchSequence,
+  normalizeKeys,
+  resolveShortcuts,
+} from "@/lib/shortcuts"
+import { getSettings, updateSettings, useSettings } from "./use-settings"
+
+// How long to wait for the next key of a sequence such as `g t`.
+const SEQUENCE_TIMEOUT = 1000
+
+type ShortcutHandler = (event?: KeyboardEvent) => void
+
+interface Registration {
+  id: string
+  /** Element the binding is scoped to, for `list` shortcuts. */
+  region?: React.RefObject<HTMLElement>
+  run: ShortcutHandler
+}
+
+const registrations: Registration[] = []
+
+let pending: string[] = []
+let pendingTimeout: ReturnType<typeof setTimeout> | undefined
+
+function isDialogOpen() {
+  return !!document.querySelector("[role=dialog], [role=alertdialog]")
+}
+
+function findRegistration(id: string) {
+  const candidates = registrations.filter((r) => r.id === id)
+  const focused = document.activeElement
+  const inFocusedRegion = candidates.find((r) =>
+    r.region?.current?.contains(focused)
+  )
+  if (inFocusedRegion) return inFocusedRegion
+
+  // Scoped bindings only fall back to the first region while nothing else
+  // has focus, so `j` in the sidebar doesn't move the list selection.
+  const idle = !focused || focused === document.body
+  return candidates.find((r) => !r.region || idle)
+}
+
+function resetSequence() {
+  pending = []
+  clearTimeout(pendingTimeout)
+}
+
+function handleKeyDown(event: KeyboardEvent) {
+  if (event.defaultPrevented || event.repeat) return
+  const chord = eventToChord(event)
+  if (!chord) return
+
+  // Keys belong to text fields and open dialogs (Ctrl+Z there undoes
+  // typing), except for the few shortcuts that must work everywhere.
+  const typing = isEditableTarget(event.target) || isDialogOpen()
+  const active = resolveShortcuts(getSettings().shortcuts).filter(
+    (shortcut) =>
+      shortcut.keys &&
+      (!typing || shortcut.inTextFields) &&
+      findRegistration(shortcut.id)
+  )
+  let chords = [...pending, chord]
+  let result = matchSequence(chords, active)
+  if (result.kind === "none" && pending.length > 0) {
+    chords = [chord]
+    result = matchSequence(chords, active)
+  }
+
+  resetSequence()
+  if (result.kind === "none") return
+
+  event.preventDefault()
+  if (result.kind === "pending") {
+    pending = chords
+    pendingTimeout = setTimeout(resetSequence, SEQUENCE_TIMEOUT)
+    return
+  }
+  findRegistration(result.shortcut.id)?.run(event)
+}
+
+function register(registration: Registration) {
+  if (registrations.length === 0) {
+    window.addEventListener("keydown", handleKeyDown)
+  }
+  registrations.push(registration)
+
+  return () => {
+    const index = registrations.indexOf(registration)
+    if (index > -1) {
+      registrations.splice(index, 1)
+    }
+    if (registrations.length === 0) {
+      window.removeEventListener("keydown", handleKeyDown)
+      resetSequence()
+    }
+  }
+}
+
+/** Runs whichever handler is currently registered for a shortcut. */
+function runShortcut(id: string) {
+  findRegistration(id)?.run()
+}
+
+interface UseShortcutsOptions {
+  /** Limits `list`-scoped shortcuts to the region holding focus. */
+  region?: React.RefObject<HTMLElement>
+  enabled?: boolean
+}
+
+/**
+ * Registers handlers by shortcut id; the keys themselves come from
+ * `shortcutDefinitions` and the user's remapping in settings.
+ */
+function useShortcuts(
+  handlers: Record<string, ShortcutHandler>,
+  { region, enabled = true }: UseShortcutsOptions = {}
+) {
+  const handlersRef = React.useRef(handlers)
+  handlersRef.current = handlers
+  const ids = Object.keys(handlers).sort().join(" ")
+
+  React.useEffect(() => {
+    if (!enabled || !ids) return
+    const unregister = ids
+      .split(" ")
+      .map((id) =>
+        register({ id, region, run: (event) => handlersRef.current[id]?.(event) })
+      )
+    return () => unregister.forEach((fn) => fn())
+  }, [ids, region, enabled])
+}
+
+function setShortcutKeys(id: string, keys: string | null) {
+  const { [id]: _previous, ...shortcuts } = getSettings().shortcuts
+  updateSettings({
+    shortcuts: keys === null ? shortcuts : { ...shortcuts, [id]: normalizeKeys(keys) },
+  })
+}
+
+function resetShortcuts() {
+  updateSettings({ shortcuts: {} })
+}
+
+/** Effective bindings with the user's remapping applied, for display. */
+function useShortcutBindings() {
+  const { settings } = useSettings()
+  const shortcuts = React.useMemo(
+    () => resolveShortcuts(settings.shortcuts),
+    [settings.shortcuts]
+  )
+  const conflicts = React.useMemo(() => findConflicts(shortcuts), [shortcuts])
+
+  return {
+    shortcuts,
+    conflicts,
+    keysFor: (id: string) => shortcuts.find((s) => s.id === id)?.keys ?? "",
+    setShortcutKeys,
+    resetShortcuts,
+  }
+}
+
+export {
+  useShortcuts,
+  useShortcutBindings,
+  runShortcut,
+  setShortcutKeys,
+  resetShortcuts,
+}
@@ -0,0 +1,22 @@
+import * as React from "react"
+
+import { getStorage } from "@/lib/db"
+
+/** Why the app's storage couldn't be opened; null while it is fine or still opening. */
+function useStorageError() {
+  const [error, setError] = React.useState<Error | null>(null)
+
+  React.useEffect(() => {
+    let active = true
+    getStorage().catch((reason) => {
+      if (active) setError(reason instanceof Error ? reason : new Error(String(reason)))
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return error
+}
+
+export { useStorageError }
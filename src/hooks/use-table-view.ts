@@ -0,0 +1,87 @@
+import * as React from "react"
+
+import { fieldColumnId, moveColumn, resolveTableColumns } from "@/lib/table"
+import { defaultTableView, type TableViewState } from "@/types/table"
+import type { CustomFieldDefinition, CustomFieldType } from "@/types/task"
+import { getSettings, updateSettings, useSettings } from "./use-settings"
+
+function updateTableView(patch: Partial<TableViewState>) {
+  updateSettings({ tableView: { ...getSettings().tableView, ...patch } })
+}
+
+function setColumnWidth(id: string, width: number) {
+  const { widths } = getSettings().tableView
+  updateTableView({ widths: { ...widths, [id]: Math.round(width) } })
+}
+
+function setColumnHidden(id: string, hidden: boolean) {
+  const current = getSettings().tableView.hidden.filter((c) => c !== id)
+  updateTableView({ hidden: hidden ? [...current, id] : current })
+}
+
+/** Moves a column to where `targetId` currently is. */
+function reorderColumn(id: string, targetId: string) {
+  const { tableView, customFields } = getSettings()
+  const order = resolveTableColumns(tableView, customFields).map((c) => c.id)
+  updateTableView({ order: moveColumn(order, id, targetId) })
+}
+
+function resetTableView() {
+  updateSettings({ tableView: defaultTableView })
+}
+
+function addCustomField(name: string, type: CustomFieldType) {
+  const field: CustomFieldDefinition = { id: crypto.randomUUID(), name: name.trim(), type }
+  updateSettings({ customFields: [...getSettings().customFields, field] })
+  return field
+}
+
+/**
+ * Removes the field and its column. Values stay on the tasks but are no
+ * longer shown; field ids are never reused, so they can't resurface.
+ */
+function deleteCustomField(id: CustomFieldDefinition["id"]) {
+  const { customFields, tableView } = getSettings()
+  const columnId = fieldColumnId(id)
+  const { [columnId]: _width, ...widths } = tableView.widths
+  updateSettings({
+    customFields: customFields.filter((field) => field.id !== id),
+    tableView: {
+      order: tableView.order.filter((c) => c !== columnId),
+      hidden: tableView.hidden.filter((c) => c !== columnId),
+      widths,
+    },
+  })
+}
+
+function useTableView() {
+  const { settings } = useSettings()
+  const { tableView, customFields } = settings
+  const columns = React.useMemo(
+    () => resolveTableColumns(tableView, customFields),
+    [tableView, customFields]
+  )
+
+  return {
+    columns,
+    visibleColumns: columns.filter((c) => !tableView.hidden.includes(c.id)),
+    hidden: tableView.hidden,
+    customFields,
+    setColumnWidth,
+    setColumnHidden,
+    reorderColumn,
+    resetTableView,
+    addCustomField,
+    deleteCustomField,
+  }
+}
+
+export {
+  useTableView,
+  setColumnWidth,
+  setColumnHidden,
+  reorderColumn,
+  resetTableView,
+  addCustomField,
+  deleteCustomField,
+}
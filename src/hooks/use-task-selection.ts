@@ -0,0 +1,55 @@
+import * as React from "react"
+
+import type { Task } from "@/types/task"
+
+type Listener = (ids: Task["id"][]) => void
+
+const listeners: Listener[] = []
+
+let selectedIds: Task["id"][] = []
+
+function setSelection(ids: Task["id"][]) {
+  selectedIds = ids
+  listeners.forEach((listener) => listener(selectedIds))
+}
+
+function getSelection() {
+  return selectedIds
+}
+
+function toggleSelected(id: Task["id"]) {
+  setSelection(
+    selectedIds.includes(id)
+      ? selectedIds.filter((selected) => selected !== id)
+      : [...selectedIds, id]
+  )
+}
+
+function clearSelection() {
+  setSelection([])
+}
+
+/** Tasks picked with Ctrl/⌘-click that bulk actions and the command palette act on. */
+function useTaskSelection() {
+  const [ids, setIds] = React.useState(selectedIds)
+
+  React.useEffect(() => {
+    listeners.push(setIds)
+    return () => {
+      const index = listeners.indexOf(setIds)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    selectedIds: ids,
+    isSelected: (id: Task["id"]) => ids.includes(id),
+    setSelection,
+    toggleSelected,
+    clearSelection,
+  }
+}
+
+export { useTaskSelection, getSelection, setSelection, toggleSelected, clearSelection }
@@ -0,0 +1,184 @@
+import { useQuery } from "@tanstack/react-query"
+import { format } from "date-fns"
+
+import { taskRepository } from "@/lib/db/repository"
+import { queryClient } from "@/lib/query-client"
+import {
+  applySeriesPatch,
+  applyTaskPatch,
+  buildNextOccurrence,
+  buildTask,
+  skipOccurrencePatch,
+} from "@/lib/tasks"
+import type { NewTask, Task, TaskPatch, TaskReminder } from "@/types/task"
+import {
+  batch,
+  commitRecords,
+  undoable,
+  writeRecords,
+  type RecordChange,
+} from "./use-history"
+import { notify } from "./use-notifications"
+
+export const tasksQueryKey = ["tasks"] as const
+
+function getTasks() {
+  return queryClient.getQueryData<Task[]>(tasksQueryKey) ?? []
+}
+
+function commitTasks(label: string, changes: RecordChange<Task>[]) {
+  commitRecords(label, tasksQueryKey, taskRepository, changes)
+}
+
+function getTask(id: Task["id"]) {
+  return getTasks().find((t) => t.id === id)
+}
+
+function createTask(input: NewTask) {
+  const task = buildTask(input)
+  commitTasks("Added task", [{ after: task }])
+  return task
+}
+
+function updateTask(id: Task["id"], patch: TaskPatch) {
+  const current = getTask(id)
+  if (!current) return undefined
+
+  const task = applyTaskPatch(current, patch)
+  commitTasks("Edited task", [{ before: current, after: task }])
+  return task
+}
+
+/** Edits every future occurrence of a recurring task, not just this one. */
+function updateSeries(id: Task["id"], patch: TaskPatch) {
+  const current = getTask(id)
+  if (!current) return undefined
+
+  const task = applySeriesPatch(current, patch)
+  commitTasks("Edited series", [{ before: current, after: task }])
+  return task
+}
+
+function hasOpenOccurrence(task: Task) {
+  return getTasks().some(
+    (t) =>
+      t.id !== task.id &&
+      t.status !== "done" &&
+      t.series?.id === task.series?.id
+  )
+}
+
+/**
+ * Completing an occurrence of a recurring task also creates the next one,
+ * unless the series already has an open occurrence (e.g. when re-completing).
+ */
+function completeTask(id: Task["id"], completed = true) {
+  return batch(completed ? "Completed task" : "Reopened task", () => {
+    const task = updateTask(id, { status: completed ? "done" : "todo" })
+    if (!task || !completed || !task.series || hasOpenOccurrence(task)) {
+      return task
+    }
+
+    const next = buildNextOccurrence(task)
+    if (next) {
+      commitTasks("Added next occurrence", [{ after: next }])
+      notify(
+        {
+          kind: "activity",
+          title: "Next occurrence scheduled",
+          description: next.dueDate
+            ? `${next.title} · ${format(new Date(next.dueDate), "EEE, MMM d")}`
+            : next.title,
+          taskId: next.id,
+        },
+        { toast: false }
+      )
+    }
+    return task
+  })
+}
+
+/** Moves a recurring task to its next occurrence; undefined once the series has ended. */
+function skipOccurrence(id: Task["id"]) {
+  const current = getTask(id)
+  const patch = current && skipOccurrencePatch(current)
+  return patch
+    ? batch("Skipped occurrence", () => updateTask(id, patch))
+    : undefined
+}
+
+/**
+ * Delivery and snooze bookkeeping for a reminder. It isn't an edit of the
+ * task, so it is neither recorded for undo nor bumps `updatedAt`.
+ */
+function setReminderState(
+  id: Task["id"],
+  reminderId: TaskReminder["id"],
+  state: Partial<Pick<TaskReminder, "deliveredFor" | "snoozedUntil">>
+) {
+  const current = getTask(id)
+  if (!current?.reminders.some((r) => r.id === reminderId)) return undefined
+
+  const task = {
+    ...current,
+    reminders: current.reminders.map((r) =>
+      r.id === reminderId ? { ...r, ...state } : r
+    ),
+  }
+  writeRecords(tasksQueryKey, taskRepository, [[id, task]])
+  return task
+}
+
+/**
+ * Writes whole records, new or replacing existing ones, as one step. Meant
+ * for imports, which can be large, so lookups go through a map.
+ */
+function saveTasks(label: string, changed: Task[]) {
+  const current = new Map(getTasks().map((task) => [task.id, task]))
+  commitTasks(
+    label,
+    changed.map((task) => ({ before: current.get(task.id), after: task }))
+  )
+}
+
+function deleteTask(id: Task["id"]) {
+  const current = getTask(id)
+  if (!current) return
+
+  undoable(`Deleted “${current.title}”`, () =>
+    commitTasks("Deleted task", [{ before: current }])
+  )
+}
+
+function useTasks() {
+  const query = useQuery({
+    queryKey: tasksQueryKey,
+    queryFn: taskRepository.list,
+  })
+
+  return {
+    tasks: query.data ?? [],
+    isLoading: query.isLoading,
+    createTask,
+    updateTask,
+    updateSeries,
+    completeTask,
+    skipOccurrence,
+    deleteTask,
+  }
+}
+
+export {
+  useTasks,
+  getTasks,
+  getTask,
+  commitTasks,
+  createTask,
+  updateTask,
+  updateSeries,
+  completeTask,
+  skipOccurrence,
+  setReminderState,
+  saveTasks,
+  deleteTask,
+}
@@ -5,14 +5,35 @@ import type {
   ToastProps,
 } from "@/components/ui/toast"
 
-const TOAST_LIMIT = 1
-const TOAST_REMOVE_DELAY = 1000000
+export type ToastPriority = "low" | "normal" | "high"
 
-type ToasterToast = ToastProps & {
+interface ToastConfig {
+  /** How many toasts are on screen at once; the rest wait in a queue. */
+  limit: number
+  /** Default auto-dismiss delay in ms per priority. Hovering pauses it. */
+  durations: Record<ToastPriority, number>
+}
+
+const config: ToastConfig = {
+  limit: 3,
+  durations: { low: 3000, normal: 5000, high: 8000 },
+}
+
+// Dismissed toasts stay mounted this long so their exit animation can play.
+const TOAST_REMOVE_DELAY = 1000
+
+const priorityRank: Record<ToastPriority, number> = { low: 0, normal: 1, high: 2 }
+
+type ToasterToast = Omit<ToastProps, "title"> & {
   id: string
   title?: React.ReactNode
   description?: React.ReactNode
   action?: ToastActionElement
+  priority: ToastPriority
+  /** How many identical toasts were raised while this one was showing. */
+  count: number
+  /** Off for toasts that change after they're shown, which must stay separate. */
+  dedupe?: boolean
 }
 
 const actionTypes = {
@@ -50,7 +71,10 @@ type Action =
     }
 
 interface State {
+  /** Toasts on screen (including ones playing their exit animation), newest first. */
   toasts: ToasterToast[]
+  /** Toasts waiting for a free slot, highest priority first. */
+  queue: ToasterToast[]
 }
 
 const toastTimeouts = new Map<string, ReturnType<typeof setTimeout>>()
@@ -71,21 +95,63 @@ const addToRemoveQueue = (toastId: string) => {
   toastTimeouts.set(toastId, timeout)
 }
 
+const isShowing = (toast: ToasterToast) => toast.open !== false
+
+function enqueue(queue: ToasterToast[], toast: ToasterToast) {
+  const index = queue.findIndex(
+    (queued) => priorityRank[queued.priority] < priorityRank[toast.priority]
+  )
+  return index === -1
+    ? [...queue, toast]
+    : [...queue.slice(0, index), toast, ...queue.slice(index)]
+}
+
+/** Moves queued toasts on screen while there is room. */
+function fillFromQueue(state: State): State {
+  let { toasts, queue } = state
+  while (queue.length && toasts.filter(isShowing).length < config.limit) {
+    toasts = [queue[0], ...toasts]
+    queue = queue.slice(1)
+  }
+  return { toasts, queue }
+}
+
 export const reducer = (state: State, action: Action): State => {
   switch (action.type) {
-    case "ADD_TOAST":
-      return {
-        ...state,
-        toasts: [action.toast, ...state.toasts].slice(0, TOAST_LIMIT),
+    case "ADD_TOAST": {
+      const showing = state.toasts.filter(isShowing)
+      if (showing.length < config.limit) {
+        return { ...state, toasts: [action.toast, ...state.toasts] }
+      }
+
+      // A full screen makes room for more urgent toasts: the least important
+      // (oldest on ties) goes back to the queue to be shown later.
+      const victim = [...showing]
+        .reverse()
+        .reduce<ToasterToast | undefined>(
+          (lowest, t) =>
+            !lowest || priorityRank[t.priority] < priorityRank[lowest.priority]
+              ? t
+              : lowest,
+          undefined
+        )
+      if (victim && priorityRank[victim.priority] < priorityRank[action.toast.priority]) {
+        return {
+          toasts: [action.toast, ...state.toasts.filter((t) => t !== victim)],
+          queue: enqueue(state.queue, victim),
+        }
       }
+      return { ...state, queue: enqueue(state.queue, action.toast) }
+    }
 
-    case "UPDATE_TOAST":
+    case "UPDATE_TOAST": {
+      const update = (t: ToasterToast) =>
+        t.id === action.toast.id ? { ...t, ...action.toast } : t
       return {
-        ...state,
-        toasts: state.toasts.map((t) =>
-          t.id === action.toast.id ? { ...t, ...action.toast } : t
-        ),
+        toasts: state.toasts.map(update),
+        queue: state.queue.map(update),
       }
+    }
 
     case "DISMISS_TOAST": {
       const { toastId } = action
@@ -100,8 +166,7 @@ export const reducer = (state: State, action: Action): State => {
         })
       }
 
-      return {
-        ...state,
+      return fillFromQueue({
         toasts: state.toasts.map((t) =>
           t.id === toastId || toastId === undefined
             ? {
@@ -110,25 +175,29 @@ export const reducer = (state: State, action: Action): State => {
               }
             : t
         ),
-      }
+        queue:
+          toastId === undefined
+            ? []
+            : state.queue.filter((t) => t.id !== toastId),
+      })
     }
     case "REMOVE_TOAST":
       if (action.toastId === undefined) {
         return {
-          ...state,
           toasts: [],
+          queue: [],
         }
       }
-      return {
-        ...state,
+      return fillFromQueue({
         toasts: state.toasts.filter((t) => t.id !== action.toastId),
-      }
+        queue: state.queue.filter((t) => t.id !== action.toastId),
+      })
   }
 }
 
 const listeners: Array<(state: State) => void> = []
 
-let memoryState: State = { toasts: [] }
+let memoryState: State = { toasts: [], queue: [] }
 
 function dispatch(action: Action) {
   memoryState = reducer(memoryState, action)
@@ -137,23 +206,57 @@ function dispatch(action: Action) {
   })
 }
 
-type Toast = Omit<ToasterToast, "id">
+type Toast = Omit<ToasterToast, "id" | "priority" | "count"> & {
+  /** Defaults to "high" for destructive toasts and "normal" otherwise. */
+  priority?: ToastPriority
+}
+
+// Only plain-text toasts can be compared; anything else is never merged.
+function dedupeKey({ variant, title, description, dedupe }: Partial<ToasterToast>) {
+  if (dedupe === false) return null
+  const text = (node: React.ReactNode) =>
+    node === undefined || typeof node === "string" || typeof node === "number"
+      ? String(node ?? "")
+      : null
+  const [titleText, descriptionText] = [text(title), text(description)]
+  if (titleText === null || descriptionText === null) return null
+  return JSON.stringify([variant ?? "default", titleText, descriptionText])
+}
+
+function findDuplicate(props: Toast) {
+  const key = dedupeKey(props)
+  if (key === null) return undefined
+  return [...memoryState.toasts.filter(isShowing), ...memoryState.queue].find(
+    (t) => dedupeKey(t) === key
+  )
+}
 
 function toast({ ...props }: Toast) {
-  const id = genId()
+  const duplicate = findDuplicate(props)
+  const id = duplicate?.id ?? genId()
 
-  const update = (props: ToasterToast) =>
+  const update = (props: Partial<Omit<ToasterToast, "id">>) =>
     dispatch({
       type: "UPDATE_TOAST",
       toast: { ...props, id },
     })
   const dismiss = () => dispatch({ type: "DISMISS_TOAST", toastId: id })
 
+  if (duplicate) {
+    update({ count: duplicate.count + 1 })
+    return { id, dismiss, update }
+  }
+
+  const priority =
+    props.priority ?? (props.variant === "destructive" ? "high" : "normal")
   dispatch({
     type: "ADD_TOAST",
     toast: {
+      duration: config.durations[priority],
       ...props,
       id,
+      priority,
+      count: 1,
       open: true,
       onOpenChange: (open) => {
         if (!open) dismiss()
@@ -168,6 +271,51 @@ function toast({ ...props }: Toast) {
   }
 }
 
+interface PromiseMessages<T> {
+  loading: React.ReactNode
+  success: React.ReactNode | ((value: T) => React.ReactNode)
+  error: React.ReactNode | ((error: unknown) => React.ReactNode)
+}
+
+/**
+ * Shows `loading` until the promise settles, then turns the same toast into
+ * a success or error message that dismisses itself as usual.
+ */
+toast.promise = function <T>(promise: Promise<T>, messages: PromiseMessages<T>) {
+  const { update } = toast({
+    title: messages.loading,
+    duration: Infinity,
+    dedupe: false,
+  })
+
+  promise.then(
+    (value) =>
+      update({
+        title:
+          typeof messages.success === "function"
+            ? messages.success(value)
+            : messages.success,
+        duration: config.durations.normal,
+      }),
+    (error: unknown) =>
+      update({
+        variant: "destructive",
+        priority: "high",
+        title:
+          typeof messages.error === "function"
+            ? messages.error(error)
+            : messages.error,
+        duration: config.durations.high,
+      })
+  )
+  return promise
+}
+
+/** Changes the on-screen limit or default durations for toasts raised from now on. */
+function configureToasts(options: Partial<ToastConfig>) {
+  Object.assign(config, options)
+}
+
 function useToast() {
   const [state, setState] = React.useState<State>(memoryState)
 
@@ -179,7 +327,7 @@ function useToast() {
         listeners.splice(index, 1)
       }
     }
-  }, [state])
+  }, [])
 
   return {
     ...state,
@@ -188,4 +336,4 @@ function useToast() {
   }
 }
 
-export { useToast, toast }
+export { useToast, toast, configureToasts }
@@ -0,0 +1,256 @@
+import * as React from "react"
+
+import {
+  computeOffsets,
+  indexAt,
+  scrollOffsetFor,
+  totalSize,
+  visibleRange,
+  type VirtualItem,
+} from "@/lib/virtual"
+
+type Scroller = HTMLElement | Window
+
+interface Viewport {
+  /** Top of the visible area in list coordinates. */
+  top: number
+  height: number
+}
+
+interface UseVirtualListOptions {
+  /** One stable key per item, in display order; memoize it. */
+  keys: string[]
+  /** Height assumed for items that haven't been rendered yet. */
+  estimateSize: number
+  /** Space between items, matching the list's CSS gap. */
+  gap?: number
+  overscan?: number
+  /** Defaults to the nearest scrolling ancestor, or the window. */
+  scrollRef?: React.RefObject<HTMLElement>
+  /** Height of sticky headers covering the top of the scroll container. */
+  scrollPaddingStart?: number
+}
+
+function findScroller(element: HTMLElement): Scroller {
+  for (let node = element.parentElement; node; node = node.parentElement) {
+    if (/(auto|scroll|overlay)/.test(getComputedStyle(node).overflowY)) return node
+  }
+  return window
+}
+
+function scrollBy(scroller: Scroller, delta: number) {
+  if (scroller === window) window.scrollBy(0, delta)
+  else (scroller as HTMLElement).scrollTop += delta
+}
+
+function readViewport(list: HTMLElement, scroller: Scroller, paddingStart: number): Viewport {
+  const [top, height] =
+    scroller === window
+      ? [0, window.innerHeight]
+      : [
+          (scroller as HTMLElement).getBoundingClientRect().top +
+            (scroller as HTMLElement).clientTop,
+          (scroller as HTMLElement).clientHeight,
+        ]
+  return {
+    top: top + paddingStart - list.getBoundingClientRect().top,
+    height: Math.max(height - paddingStart, 0),
+  }
+}
+
+/**
+ * Windowed rendering for long lists. Render `items` in order as the only
+ * children of the element behind `listRef` (children marked
+ * `data-virtual-spacer` are skipped), and reserve the space of the others
+ * with `paddingStart` and `paddingEnd`. Items are measured after every render
+ * and whenever they resize, so they can be any height.
+ *
+ * Scrolling stays anchored to the first visible item: when items above it
+ * grow, shrink, appear or disappear, the list scrolls by the same amount so
+ * what the user is looking at doesn't move.
+ */
+function useVirtualList<E extends HTMLElement>({
+  keys,
+  estimateSize,
+  gap = 0,
+  overscan = 6,
+  scrollRef,
+  scrollPaddingStart = 0,
+}: UseVirtualListOptions) {
+  const listRef = React.useRef<E>(null)
+  const scrollerRef = React.useRef<Scroller | null>(null)
+  const [sizes, setSizes] = React.useState(() => new Map<string, number>())
+  const [viewport, setViewport] = React.useState<Viewport>({ top: 0, height: 0 })
+  const anchor = React.useRef<{ key: string; offset: number } | null>(null)
+
+  const offsets = React.useMemo(
+    () => computeOffsets(keys, sizes, estimateSize, gap),
+    [keys, sizes, estimateSize, gap]
+  )
+  const range = visibleRange(offsets, viewport.top, viewport.height, overscan)
+  const sizeOf = (index: number) =>
+    offsets[index + 1] - offsets[index] - (index < keys.length - 1 ? gap : 0)
+  const items: VirtualItem[] = []
+  for (let index = range.start; index < range.end; index++) {
+    items.push({ index, key: keys[index], start: offsets[index], size: sizeOf(index) })
+  }
+
+  // Callbacks registered once read the latest layout through this ref.
+  const latest = React.useRef({ keys, offsets, items, scrollPaddingStart })
+  latest.current = { keys, offsets, items, scrollPaddingStart }
+
+  const update = React.useCallback(() => {
+    const list = listRef.current
+    const scroller = scrollerRef.current
+    if (!list || !scroller) return
+
+    const next = readViewport(list, scroller, latest.current.scrollPaddingStart)
+    const { keys, offsets } = latest.current
+    if (next.top > 0 && keys.length > 0) {
+      const index = indexAt(offsets, next.top)
+      anchor.current = { key: keys[index], offset: offsets[index] - next.top }
+    } else {
+      anchor.current = null
+    }
+    setViewport((current) =>
+      current.top === next.top && current.height === next.height ? current : next
+    )
+  }, [])
+
+  const elementKeys = React.useRef(new WeakMap<Element, string>())
+  const observerRef = React.useRef<ResizeObserver | null>(null)
+
+  // Picks up items changing height after they were first measured, e.g.
+  // notes being expanded.
+  React.useLayoutEffect(() => {
+    if (typeof ResizeObserver === "undefined") return
+    const observer = new ResizeObserver((entries) =>
+      setSizes((current) => {
+        let next: Map<string, number> | null = null
+        entries.forEach(({ target }) => {
+          const key = elementKeys.current.get(target)
+          if (!target.isConnected || key === undefined) {
+            observer.unobserve(target)
+            return
+          }
+          const size = target.getBoundingClientRect().height
+          if (current.get(key) !== size) {
+            next ??= new Map(current)
+            next.set(key, size)
+          }
+        })
+        return next ?? current
+      })
+    )
+    observerRef.current = observer
+    return () => observer.disconnect()
+  }, [])
+
+  const attached = React.useRef<{ list: HTMLElement; detach: () => void } | null>(null)
+
+  // Runs after every render because the list element can come and go, e.g.
+  // when a list that was empty gets its first item.
+  React.useLayoutEffect(() => {
+    const list = listRef.current
+    if (list === (attached.current?.list ?? null)) return
+    attached.current?.detach()
+    attached.current = null
+    if (!list) return
+
+    // Our own anchoring replaces the browser's, which would fight it.
+    list.style.overflowAnchor = "none"
+    const scroller = scrollRef?.current ?? findScroller(list)
+    scrollerRef.current = scroller
+    update()
+
+    let frame = 0
+    const onScroll = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(update)
+    }
+    scroller.addEventListener("scroll", onScroll, { passive: true })
+    window.addEventListener("resize", onScroll)
+    attached.current = {
+      list,
+      detach: () => {
+        cancelAnimationFrame(frame)
+        scroller.removeEventListener("scroll", onScroll)
+        window.removeEventListener("resize", onScroll)
+      },
+    }
+  })
+
+  React.useEffect(() => () => attached.current?.detach(), [])
+
+  // Keep the anchored item where it was when anything above it changed size.
+  React.useLayoutEffect(() => {
+    const list = listRef.current
+    const scroller = scrollerRef.current
+    const current = anchor.current
+    if (!list || !scroller || !current) return
+
+    // Only offsets moving should scroll; the rest is read through `latest`.
+    const { keys, scrollPaddingStart } = latest.current
+    const index = keys.indexOf(current.key)
+    if (index === -1) return
+    const { top } = readViewport(list, scroller, scrollPaddingStart)
+    const delta = offsets[index] - current.offset - top
+    if (Math.abs(delta) >= 1) scrollBy(scroller, delta)
+    update()
+  }, [offsets, update])
+
+  const measureRendered = React.useCallback(() => {
+    const list = listRef.current
+    if (!list) return
+    const rendered = [...list.children].filter(
+      (child) => !(child as HTMLElement).dataset.virtualSpacer
+    )
+    const measured = rendered.flatMap((element, i) => {
+      const item = latest.current.items[i]
+      if (!item) return []
+      elementKeys.current.set(element, item.key)
+      observerRef.current?.observe(element)
+      return [[item.key, element.getBoundingClientRect().height] as const]
+    })
+    setSizes((current) =>
+      measured.every(([key, size]) => current.get(key) === size)
+        ? current
+        : new Map([...current, ...measured])
+    )
+  }, [])
+
+  // Measure what was just rendered before the browser paints it.
+  React.useLayoutEffect(() => measureRendered())
+
+  /** Scrolls as little as needed to show the item, e.g. for keyboard selection. */
+  const scrollToIndex = React.useCallback(
+    (index: number) => {
+      const list = listRef.current
+      const scroller = scrollerRef.current
+      const { offsets, scrollPaddingStart } = latest.current
+      if (!list || !scroller || index < 0 || index >= offsets.length - 1) return
+
+      const view = readViewport(list, scroller, scrollPaddingStart)
+      const size = offsets[index + 1] - offsets[index] - (index < offsets.length - 2 ? gap : 0)
+      const target = scrollOffsetFor(offsets[index], size, view.top, view.height)
+      if (target === null) return
+      scrollBy(scroller, target - view.top)
+      // Render the item now rather than on the next scroll event.
+      update()
+    },
+    [update, gap]
+  )
+
+  const total = totalSize(offsets)
+  const last = items[items.length - 1]
+  return {
+    listRef,
+    items,
+    totalSize: total,
+    paddingStart: items[0]?.start ?? 0,
+    paddingEnd: last ? total - last.start - last.size : 0,
+    scrollToIndex,
+  }
+}
+
+export { useVirtualList }
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { createArchive, exportArchive, parseArchive, upgradeArchive } from "./backup";
+import { SCHEMA_VERSION } from "./db/schema";
+import { buildNotification } from "./notifications";
+import { buildProject } from "./projects";
+import { buildReminder } from "./reminders";
+import { buildTask } from "./tasks";
+
+const now = new Date(2026, 9, 19, 9, 0);
+
+const home = buildProject({ name: "Home" }, now);
+const task = buildTask(
+  {
+    title: "Plan trip",
+    projectId: home.id,
+    dueDate: new Date(2026, 9, 30).toISOString(),
+    recurrence: "FREQ=YEARLY",
+    reminders: [buildReminder({ type: "before-due", minutes: 60 })],
+    customFields: { budget: 1200 },
+  },
+  now
+);
+const archive = createArchive(
+  {
+    tasks: [task, buildTask({ title: "Pack bags", status: "done", parentId: task.id }, now)],
+    projects: [home],
+    settings: {
+      backupInterval: "daily",
+      customFields: [{ id: "budget", name: "Budget", type: "number" }],
+    },
+    notifications: [buildNotification({ kind: "activity", title: "Imported 2 tasks" }, now)],
+  },
+  now
+);
+
+type StoredRecord = Record<string, unknown>;
+
+/** The archive as plain JSON, the way it is read from a file. */
+const stored = () =>
+  JSON.parse(exportArchive(archive)) as StoredRecord & {
+    schemaVersion: number;
+    data: { tasks: StoredRecord[]; notifications: StoredRecord[] };
+  };
+
+describe("upgradeArchive", () => {
+  it("reads back what exportArchive writes", () => {
+    expect(parseArchive(exportArchive(archive))).toEqual(archive);
+  });
+
+  it("brings records from an older schema up to date", () => {
+    const old = stored();
+    old.schemaVersion = 6;
+    old.data.tasks = old.data.tasks.map(
+      ({ reminders, estimate, statusHistory, customFields, parentId, ...rest }) => rest
+    );
+    old.data.notifications = old.data.notifications.map(({ reminderId, ...rest }) => rest);
+
+    const upgraded = upgradeArchive(old);
+    expect(upgraded.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(upgraded.data.tasks[1]).toMatchObject({
+      reminders: [],
+      estimate: null,
+      customFields: {},
+      parentId: null,
+      statusHistory: [
+        { status: "todo", at: archive.data.tasks[1].createdAt },
+        { status: "done", at: archive.data.tasks[1].completedAt },
+      ],
+    });
+    expect(upgraded.data.notifications[0].reminderId).toBeNull();
+  });
+
+  it("explains what is wrong with files it can't restore", () => {
+    expect(() => upgradeArchive({ ...stored(), format: "other" })).toThrow(
+      "This file isn't a Todo Gopher backup."
+    );
+    expect(() => upgradeArchive({ ...stored(), schemaVersion: SCHEMA_VERSION + 1 })).toThrow(
+      "newer version of the app"
+    );
+
+    const broken = stored();
+    broken.data.tasks[0].status = "someday";
+    expect(() => upgradeArchive(broken)).toThrow(/^data\.tasks\.0\.status: /);
+  });
+});
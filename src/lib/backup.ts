@@ -0,0 +1,496 @@
+import { format } from "date-fns";
+import { z } from "zod";
+
+import { SETTINGS_ID, type RecordChange } from "@/lib/db/repository";
+import { SCHEMA_VERSION, migrateSnapshot, type DataSnapshot } from "@/lib/db/schema";
+import { pluralize } from "@/lib/utils";
+import {
+  BACKUP_INTERVALS,
+  type BackupArchive,
+  type BackupInterval,
+  type LocalBackup,
+} from "@/types/backup";
+import {
+  NOTIFICATION_KINDS,
+  type AppNotification,
+  type NotificationKind,
+} from "@/types/notification";
+import type { Project } from "@/types/project";
+import { defaultSettings, type Settings } from "@/types/settings";
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  type CustomFieldDefinition,
+  type Task,
+  type TaskPriority,
+  type TaskStatus,
+} from "@/types/task";
+import type { CustomTheme } from "@/types/theme";
+
+const ARCHIVE_FORMAT = "todo-gopher-backup";
+
+/** Bump this and append to `archiveMigrations` whenever the file layout changes. */
+export const ARCHIVE_VERSION = 1;
+
+interface ArchiveMigration {
+  version: number;
+  description: string;
+  migrate: (archive: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Upgrades the layout of older files. Changes to the records inside don't
+ * belong here: `schemaVersion` runs them through the database's migrations.
+ */
+const archiveMigrations: ArchiveMigration[] = [];
+
+export function createArchive(data: BackupArchive["data"], now = new Date()): BackupArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: now.toISOString(),
+    data,
+  };
+}
+
+export function exportArchive(archive: BackupArchive) {
+  return JSON.stringify(archive, null, 2);
+}
+
+export function archiveFileName(archive: BackupArchive) {
+  return `todo-gopher-backup-${format(new Date(archive.createdAt), "yyyy-MM-dd-HHmm")}.json`;
+}
+
+/** A one-line summary such as "120 tasks, 4 projects, 2 custom themes". */
+export function describeArchive({ data }: BackupArchive) {
+  const parts = [pluralize(data.tasks.length, "task"), pluralize(data.projects.length, "project")];
+  const themes = data.settings.customThemes?.length ?? 0;
+  if (themes > 0) parts.push(pluralize(themes, "custom theme"));
+  return parts.join(", ");
+}
+
+const isoDate = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO date");
+const recordId = z.string().min(1);
+const storedRecord = z.object({ id: recordId }).passthrough();
+
+const envelopeSchema = z.object({
+  schemaVersion: z.number().int().min(0),
+  createdAt: isoDate,
+  data: z.object({
+    tasks: z.array(storedRecord),
+    projects: z.array(storedRecord),
+    settings: z.record(z.unknown()),
+    notifications: z.array(storedRecord),
+  }),
+});
+
+// Records are checked once migrated to the current schema. Fields the app
+// doesn't depend on pass through unchecked.
+const taskSchema = z
+  .object({
+    id: recordId,
+    title: z.string(),
+    notes: z.string(),
+    status: z.enum(TASK_STATUSES as [TaskStatus, ...TaskStatus[]]),
+    priority: z.enum(TASK_PRIORITIES as [TaskPriority, ...TaskPriority[]]),
+    projectId: recordId.nullable(),
+    sectionId: recordId.nullable(),
+    parentId: recordId.nullable(),
+    tags: z.array(z.string()),
+    customFields: z.record(z.union([z.string(), z.number()])),
+    reminders: z.array(z.object({ id: recordId }).passthrough()),
+    order: z.number(),
+    dueDate: isoDate.nullable(),
+    createdAt: isoDate,
+    updatedAt: isoDate,
+    completedAt: isoDate.nullable(),
+    statusHistory: z.array(
+      z.object({ status: z.enum(TASK_STATUSES as [TaskStatus, ...TaskStatus[]]), at: isoDate })
+    ),
+  })
+  .passthrough();
+
+const projectSchema = z
+  .object({
+    id: recordId,
+    name: z.string(),
+    color: z.string(),
+    parentId: recordId.nullable(),
+    order: z.number(),
+    archived: z.boolean(),
+    sections: z.array(z.object({ id: recordId, name: z.string(), order: z.number() })),
+    createdAt: isoDate,
+    updatedAt: isoDate,
+  })
+  .passthrough();
+
+const notificationSchema = z
+  .object({
+    id: recordId,
+    kind: z.enum(NOTIFICATION_KINDS as [NotificationKind, ...NotificationKind[]]),
+    title: z.string(),
+    read: z.boolean(),
+    createdAt: isoDate,
+  })
+  .passthrough();
+
+// Settings are merged over the defaults on restore, so every field is optional.
+const settingsSchema = z
+  .object({
+    customThemes: z.array(
+      z
+        .object({
+          id: recordId,
+          name: z.string(),
+          mode: z.enum(["light", "dark"]),
+          radius: z.number(),
+          colors: z.object({ charts: z.array(z.string()) }).passthrough(),
+        })
+        .passthrough()
+    ),
+    activeThemeId: recordId.nullable(),
+    customFields: z.array(
+      z.object({ id: recordId, name: z.string(), type: z.enum(["text", "number"]) })
+    ),
+    backupInterval: z.enum(BACKUP_INTERVALS as [BackupInterval, ...BackupInterval[]]),
+    backupRetention: z.number().int().min(1),
+  })
+  .partial()
+  .passthrough();
+
+const dataSchema = z.object({
+  tasks: z.array(taskSchema),
+  projects: z.array(projectSchema),
+  settings: settingsSchema,
+  notifications: z.array(notificationSchema),
+});
+
+function describeIssues(error: z.ZodError, within: string[] = []) {
+  const [issue, ...rest] = error.issues;
+  const path = [...within, ...issue.path].join(".");
+  const message = path ? `${path}: ${issue.message}` : issue.message;
+  return rest.length ? `${message} (and ${pluralize(rest.length, "more problem")})` : message;
+}
+
+/** Checks migrated records against the schemas above, which mirror the app's types. */
+function assertArchiveData(data: unknown): asserts data is BackupArchive["data"] {
+  const result = dataSchema.safeParse(data);
+  if (!result.success) throw new Error(describeIssues(result.error, ["data"]));
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks an archive and brings it up to this version of the app: first its
+ * layout, then its records. Throws with a readable message when it can't.
+ */
+export function upgradeArchive(value: unknown): BackupArchive {
+  if (!isObject(value) || value.format !== ARCHIVE_FORMAT) {
+    throw new Error("This file isn't a Todo Gopher backup.");
+  }
+  const version = Number(value.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error("The backup has no valid version.");
+  }
+  if (version > ARCHIVE_VERSION || Number(value.schemaVersion) > SCHEMA_VERSION) {
+    throw new Error("The backup was made by a newer version of the app. Update it to restore.");
+  }
+
+  const upgraded = archiveMigrations
+    .filter((migration) => migration.version > version)
+    .sort((a, b) => a.version - b.version)
+    .reduce((archive, migration) => migration.migrate(archive), value);
+  const envelope = envelopeSchema.safeParse(upgraded);
+  if (!envelope.success) throw new Error(describeIssues(envelope.error));
+  const { schemaVersion, createdAt, data } = envelope.data as {
+    schemaVersion: number;
+    createdAt: string;
+    data: Omit<DataSnapshot, "settings" | "backups"> & { settings: Record<string, unknown> };
+  };
+
+  let migrated: DataSnapshot;
+  try {
+    migrated = migrateSnapshot(
+      {
+        tasks: data.tasks,
+        projects: data.projects,
+        settings: [{ ...data.settings, id: SETTINGS_ID }],
+        notifications: data.notifications,
+        backups: [],
+      },
+      schemaVersion
+    );
+  } catch (error) {
+    const reason = error instanceof Error ? ` ${error.message}` : "";
+    throw new Error(
+      `The backup's data couldn't be upgraded from version ${schemaVersion}.${reason}`
+    );
+  }
+
+  const { id: _id, ...settings } = migrated.settings[0];
+  const records = {
+    tasks: migrated.tasks,
+    projects: migrated.projects,
+    settings,
+    notifications: migrated.notifications,
+  };
+  assertArchiveData(records);
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    createdAt,
+    data: records,
+  };
+}
+
+/** Reads a file written by `exportArchive`; throws with a readable message otherwise. */
+export function parseArchive(json: string) {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+  return upgradeArchive(data);
+}
+
+export type RestoreMode = "replace" | "merge";
+
+export type RestoreCollection = "tasks" | "projects" | "themes" | "fields" | "notifications";
+
+export const restoreCollectionLabels: Record<RestoreCollection, string> = {
+  tasks: "Tasks",
+  projects: "Projects",
+  themes: "Custom themes",
+  fields: "Custom fields",
+  notifications: "Notifications",
+};
+
+export interface RestoreCounts {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+/** A record both this device and the backup have, with different contents. */
+export interface RestoreConflict {
+  collection: RestoreCollection;
+  id: string;
+  name: string;
+  /** Whose copy the restore keeps. */
+  kept: "backup" | "current";
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  tasks: RecordChange<Task>[];
+  projects: RecordChange<Project>[];
+  /** The settings once restored, whole. */
+  settings: Settings;
+  /** The notification history once restored, whole. */
+  notifications: AppNotification[];
+  counts: Record<RestoreCollection, RestoreCounts>;
+  conflicts: RestoreConflict[];
+}
+
+export interface RestoreContext {
+  tasks: Task[];
+  projects: Project[];
+  settings: Settings;
+  notifications: AppNotification[];
+}
+
+/** JSON with sorted keys, so records compare equal whatever order their fields are in. */
+function canonical(value: unknown) {
+  return JSON.stringify(value, (_key, field) =>
+    isObject(field)
+      ? Object.fromEntries(Object.entries(field).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : field
+  );
+}
+
+interface Reconciled<T> {
+  /** The collection once restored. */
+  records: T[];
+  changes: RecordChange<T>[];
+  counts: RestoreCounts;
+  conflicts: RestoreConflict[];
+}
+
+/**
+ * Compares one collection of the backup with the current one. Replacing
+ * takes the backup as it is; merging keeps records the backup lacks and, for
+ * records both have changed, the current copy unless `preferBackup` says so.
+ */
+function reconcile<T extends { id: string }>(
+  collection: RestoreCollection,
+  current: T[],
+  backup: T[],
+  mode: RestoreMode,
+  name: (record: T) => string,
+  preferBackup: (current: T, backup: T) => boolean = () => false
+): Reconciled<T> {
+  const counts: RestoreCounts = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+  const changes: RecordChange<T>[] = [];
+  const conflicts: RestoreConflict[] = [];
+  const currentById = new Map(current.map((existing) => [existing.id, existing]));
+  const backupById = new Map(backup.map((restored) => [restored.id, restored]));
+  // The copy each id ends up with.
+  const result = new Map<string, T>();
+
+  backupById.forEach((restored, id) => {
+    const existing = currentById.get(id);
+    if (!existing) {
+      counts.added += 1;
+      changes.push({ after: restored });
+      result.set(id, restored);
+    } else if (canonical(existing) === canonical(restored)) {
+      counts.unchanged += 1;
+      result.set(id, existing);
+    } else {
+      const kept = mode === "replace" || preferBackup(existing, restored) ? "backup" : "current";
+      conflicts.push({ collection, id, name: name(existing), kept });
+      if (kept === "backup") {
+        counts.updated += 1;
+        changes.push({ before: existing, after: restored });
+        result.set(id, restored);
+      } else {
+        counts.unchanged += 1;
+        result.set(id, existing);
+      }
+    }
+  });
+  currentById.forEach((existing, id) => {
+    if (backupById.has(id)) return;
+    if (mode === "replace") {
+      counts.removed += 1;
+      changes.push({ before: existing });
+    } else {
+      counts.unchanged += 1;
+      result.set(id, existing);
+    }
+  });
+
+  // Replacing takes the backup's order; merging keeps the current one and adds the rest after it.
+  const order =
+    mode === "replace"
+      ? [...backupById.keys()]
+      : [...new Set([...currentById.keys(), ...backupById.keys()])];
+  return { records: order.map((id) => result.get(id)), changes, counts, conflicts };
+}
+
+const updatedLater = (current: { updatedAt: string }, backup: { updatedAt: string }) =>
+  new Date(backup.updatedAt).getTime() > new Date(current.updatedAt).getTime();
+
+/**
+ * Decides what restoring `archive` would change. "replace" makes the app match
+ * the backup exactly. "merge" adds what the backup has and this device
+ * doesn't; where both changed a task or project the later edit wins, and
+ * preferences other than custom themes and fields stay as they are.
+ */
+export function planRestore(
+  archive: BackupArchive,
+  current: RestoreContext,
+  mode: RestoreMode
+): RestorePlan {
+  const restoredSettings: Settings = { ...defaultSettings, ...archive.data.settings };
+  const tasks = reconcile<Task>(
+    "tasks",
+    current.tasks,
+    archive.data.tasks,
+    mode,
+    (task) => task.title || "Untitled",
+    updatedLater
+  );
+  const projects = reconcile<Project>(
+    "projects",
+    current.projects,
+    archive.data.projects,
+    mode,
+    (project) => project.name,
+    updatedLater
+  );
+  const themes = reconcile<CustomTheme>(
+    "themes",
+    current.settings.customThemes,
+    restoredSettings.customThemes,
+    mode,
+    (theme) => theme.name
+  );
+  const fields = reconcile<CustomFieldDefinition>(
+    "fields",
+    current.settings.customFields,
+    restoredSettings.customFields,
+    mode,
+    (field) => field.name
+  );
+  // Read flags differ between devices all the time; not worth reporting.
+  const notifications = reconcile<AppNotification>(
+    "notifications",
+    current.notifications,
+    archive.data.notifications,
+    mode,
+    (notification) => notification.title
+  );
+
+  return {
+    mode,
+    tasks: tasks.changes,
+    projects: projects.changes,
+    settings:
+      mode === "replace"
+        ? restoredSettings
+        : { ...current.settings, customThemes: themes.records, customFields: fields.records },
+    notifications: notifications.records,
+    counts: {
+      tasks: tasks.counts,
+      projects: projects.counts,
+      themes: themes.counts,
+      fields: fields.counts,
+      notifications: notifications.counts,
+    },
+    conflicts: [
+      ...tasks.conflicts,
+      ...projects.conflicts,
+      ...themes.conflicts,
+      ...fields.conflicts,
+    ],
+  };
+}
+
+const intervalHours: Record<Exclude<BackupInterval, "off">, number> = {
+  hourly: 1,
+  daily: 24,
+  weekly: 24 * 7,
+};
+
+/** Whether the schedule calls for a new backup, given the latest one kept. */
+export function isBackupDue(
+  latest: Pick<LocalBackup, "createdAt"> | undefined,
+  interval: BackupInterval,
+  now = new Date()
+) {
+  if (interval === "off") return false;
+  if (!latest) return true;
+  const elapsed = now.getTime() - new Date(latest.createdAt).getTime();
+  return elapsed >= intervalHours[interval] * 60 * 60 * 1000;
+}
+
+/** Newest first. */
+export function sortBackups<T extends Pick<LocalBackup, "createdAt">>(backups: T[]) {
+  return [...backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** The backups past the newest `retention`, which are due for deletion. */
+export function expiredBackups<T extends Pick<LocalBackup, "createdAt">>(
+  backups: T[],
+  retention: number
+) {
+  return sortBackups(backups).slice(Math.max(retention, 1));
+}
@@ -0,0 +1,103 @@
+import { addDays, addHours, subHours } from "date-fns";
+
+import { buildTask } from "@/lib/tasks";
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  type Task,
+  type TaskStatusChange,
+} from "@/types/task";
+
+/** Fixture size for checking that long lists stay smooth. */
+export const BENCHMARK_TASK_COUNT = 50_000;
+
+/** Every generated task carries this tag so the fixtures can be removed again. */
+export const BENCHMARK_TAG = "benchmark";
+
+const verbs = ["Review", "Write", "Fix", "Plan", "Call", "Update", "Draft", "Test", "Ship"];
+const subjects = [
+  "invoice",
+  "roadmap",
+  "login page",
+  "release notes",
+  "budget",
+  "onboarding",
+  "API docs",
+  "search",
+  "backlog",
+];
+const tags = ["work", "home", "errand", "urgent", "later", "ideas"];
+const assignees = ["Alex", "Sam", "Robin", "Kim", null, null];
+const noteLines = [
+  "Check with the team first.",
+  "Blocked until the vendor replies.",
+  "See the thread from last week for context.",
+  "Keep it short.",
+];
+
+/** mulberry32: small, fast and seedable, so fixtures are the same every run. */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface BenchmarkOptions {
+  projectIds?: string[];
+  seed?: number;
+  now?: Date;
+}
+
+/**
+ * Realistic-looking tasks spread over the last half year: mixed statuses
+ * with matching histories, due dates around today, and notes of varying
+ * length so rows differ in height.
+ */
+export function generateBenchmarkTasks(
+  count = BENCHMARK_TASK_COUNT,
+  { projectIds = [], seed = 1, now = new Date() }: BenchmarkOptions = {}
+): Task[] {
+  const random = createRandom(seed);
+  const pick = <T>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+
+  return Array.from({ length: count }, (_, i) => {
+    const createdAt = subHours(now, random() * 24 * 180);
+    const status = pick(TASK_STATUSES);
+    const lines = Math.floor(random() * 4) - 1;
+    const task = buildTask(
+      {
+        title: `${pick(verbs)} ${pick(subjects)} #${i + 1}`,
+        notes: Array.from({ length: Math.max(lines, 0) }, () => pick(noteLines)).join("\n"),
+        priority: pick(TASK_PRIORITIES),
+        projectId: projectIds.length > 0 && random() < 0.8 ? pick(projectIds) : null,
+        assignee: pick(assignees),
+        tags: [BENCHMARK_TAG, ...(random() < 0.5 ? [pick(tags)] : [])],
+        estimate: random() < 0.6 ? pick([1, 2, 3, 5, 8]) : null,
+        dueDate:
+          random() < 0.7 ? addDays(now, Math.round(random() * 120 - 60)).toISOString() : null,
+        order: i,
+      },
+      createdAt
+    );
+
+    const history: TaskStatusChange[] = [{ status: "todo", at: task.createdAt }];
+    let at = createdAt;
+    for (const next of TASK_STATUSES.slice(1, TASK_STATUSES.indexOf(status) + 1)) {
+      at = addHours(at, 1 + random() * 24 * 14);
+      history.push({ status: next, at: (at < now ? at : now).toISOString() });
+    }
+    const last = history[history.length - 1].at;
+    return {
+      ...task,
+      status,
+      statusHistory: history,
+      completedAt: status === "done" ? last : null,
+      updatedAt: last,
+    };
+  });
+}
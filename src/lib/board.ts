@@ -0,0 +1,40 @@
+import { defaultBoardColumns, type BoardColumn } from "@/types/board";
+import type { Project } from "@/types/project";
+import type { Task, TaskStatus } from "@/types/task";
+
+export function getBoardColumns(
+  project: Project | undefined,
+  workspaceColumns: BoardColumn[] = defaultBoardColumns
+) {
+  return project?.columns ?? workspaceColumns;
+}
+
+export function compareByOrder(a: Task, b: Task) {
+  return a.order - b.order || (a.createdAt < b.createdAt ? -1 : 1);
+}
+
+export function groupTasksByStatus(tasks: Task[]) {
+  const groups: Record<TaskStatus, Task[]> = {
+    todo: [],
+    in_progress: [],
+    done: [],
+  };
+  tasks.forEach((task) => groups[task.status].push(task));
+  Object.values(groups).forEach((group) => group.sort(compareByOrder));
+  return groups;
+}
+
+/**
+ * Picks an order value that sorts between two neighbours so a move only ever
+ * rewrites the moved task.
+ */
+export function orderBetween(before?: Task, after?: Task) {
+  if (before && after) return (before.order + after.order) / 2;
+  if (before) return before.order + 1;
+  if (after) return after.order - 1;
+  return Date.now();
+}
+
+export function isOverWipLimit(column: BoardColumn, count: number) {
+  return column.wipLimit !== null && count > column.wipLimit;
+}
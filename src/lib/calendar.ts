@@ -0,0 +1,80 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfWeek,
+  format,
+  parseISO,
+  set,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+
+import type { Task } from "@/types/task";
+
+export type CalendarMode = "month" | "week" | "day";
+
+const DAY_KEY_FORMAT = "yyyy-MM-dd";
+
+export function dayKey(date: Date) {
+  return format(date, DAY_KEY_FORMAT);
+}
+
+export function parseDayKey(key: string) {
+  return parseISO(key);
+}
+
+/** Buckets scheduled tasks by the local day they are due. */
+export function groupTasksByDay(tasks: Task[]) {
+  const days = new Map<string, Task[]>();
+  tasks.forEach((task) => {
+    if (!task.dueDate) return;
+    const key = dayKey(new Date(task.dueDate));
+    days.set(key, [...(days.get(key) ?? []), task]);
+  });
+  return days;
+}
+
+/** Moves a task to another day while keeping any time of day it already had. */
+export function rescheduleToDay(task: Task, day: Date) {
+  const base = task.dueDate ? new Date(task.dueDate) : startOfDay(day);
+  return set(base, {
+    year: day.getFullYear(),
+    month: day.getMonth(),
+    date: day.getDate(),
+  }).toISOString();
+}
+
+export function hasTimeOfDay(iso: string) {
+  const date = new Date(iso);
+  return date.getTime() !== startOfDay(date).getTime();
+}
+
+export function getWeekDays(date: Date) {
+  return eachDayOfInterval({ start: startOfWeek(date), end: endOfWeek(date) });
+}
+
+export function shiftCursor(date: Date, mode: CalendarMode, amount: number) {
+  switch (mode) {
+    case "month":
+      return addMonths(date, amount);
+    case "week":
+      return addWeeks(date, amount);
+    case "day":
+      return addDays(date, amount);
+  }
+}
+
+export function formatCursor(date: Date, mode: CalendarMode) {
+  switch (mode) {
+    case "month":
+      return format(date, "MMMM yyyy");
+    case "week": {
+      const days = getWeekDays(date);
+      return `${format(days[0], "MMM d")} – ${format(days[6], "MMM d, yyyy")}`;
+    }
+    case "day":
+      return format(date, "EEEE, MMMM d, yyyy");
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  csvTargets,
+  detectDelimiter,
+  exportTasksCsv,
+  guessCsvMapping,
+  parseCsv,
+  planCsvImport,
+  validateCsvRows,
+} from "./csv";
+import { buildProject } from "./projects";
+import { builtinColumns, fieldColumnId, type TableColumn } from "./table";
+import { buildTask } from "./tasks";
+import type { CustomFieldDefinition, Task } from "@/types/task";
+
+const now = new Date(2026, 9, 19, 9, 0);
+
+const pointsField: CustomFieldDefinition = { id: "points", name: "Points", type: "number" };
+const columns: TableColumn[] = [
+  ...builtinColumns,
+  {
+    id: fieldColumnId(pointsField.id),
+    label: "Points",
+    kind: "number",
+    width: 150,
+    fieldId: "points",
+  },
+];
+const home = buildProject({ name: "Home" }, now);
+
+/** Reads an export back the way the import wizard does with its guesses. */
+function reimport(text: string, tasks: Task[] = []) {
+  const rows = parseCsv(text, detectDelimiter(text));
+  const targets = csvTargets(columns, [pointsField]);
+  const mapping = guessCsvMapping(rows[0], targets);
+  const results = validateCsvRows(rows, mapping, targets, {
+    hasHeader: true,
+    dateFormat: "yyyy-MM-dd",
+  });
+  return { mapping, results, plan: planCsvImport(results, tasks, { projects: [home] }, now) };
+}
+
+const exportedFields = (task: Task) => ({
+  title: task.title,
+  status: task.status,
+  priority: task.priority,
+  projectId: task.projectId,
+  dueDate: task.dueDate,
+  assignee: task.assignee,
+  estimate: task.estimate,
+  tags: task.tags,
+  customFields: task.customFields,
+});
+
+describe("exportTasksCsv", () => {
+  it("imports back into the same tasks", () => {
+    const tasks = [
+      buildTask(
+        {
+          title: 'Call "Acme", then file',
+          status: "in_progress",
+          priority: "high",
+          projectId: home.id,
+          dueDate: new Date(2026, 9, 30, 14, 30).toISOString(),
+          assignee: "Sam",
+          estimate: 3,
+          tags: ["calls", "admin"],
+          customFields: { [pointsField.id]: 5 },
+        },
+        now
+      ),
+      buildTask({ title: "Line one\nline two", dueDate: new Date(2026, 9, 31).toISOString() }, now),
+    ];
+    const text = exportTasksCsv(tasks, columns, { projects: [home] });
+
+    const { mapping, results, plan } = reimport(text);
+    expect(mapping).toEqual(columns.map((column) => column.id));
+    expect(results.every((result) => result.errors.length === 0)).toBe(true);
+    expect(plan.items.map((item) => item.task)).toMatchObject(tasks.map(exportedFields));
+
+    expect(reimport(text, tasks).plan.items.map((item) => item.action)).toEqual(["skip", "skip"]);
+  });
+
+  it("keeps formulas from running and reads them back as typed", () => {
+    const titles = ["=SUM(A1:A9)", "+1 555 0100", "@mention", "-5", "3.5"];
+    const tasks = titles.map((title) => buildTask({ title }, now));
+    const text = exportTasksCsv(tasks, [builtinColumns[0]], { projects: [] });
+
+    expect(parseCsv(text).map(([cell]) => cell)).toEqual([
+      "Title",
+      "'=SUM(A1:A9)",
+      "'+1 555 0100",
+      "'@mention",
+      "-5",
+      "3.5",
+    ]);
+    expect(reimport(text).plan.items.map((item) => item.task?.title)).toEqual(titles);
+  });
+});
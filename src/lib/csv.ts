@@ -0,0 +1,459 @@
+import { format, isValid, parse } from "date-fns";
+import { z } from "zod";
+
+import { hasTimeOfDay } from "@/lib/calendar";
+import {
+  buildImportedTask,
+  changedFields,
+  createProjectResolver,
+  describeChanges,
+  mergeImportedTask,
+  taskIdentity,
+  type ImportItem,
+  type ImportPlan,
+} from "@/lib/import";
+import type { TableColumn, TableContext } from "@/lib/table";
+import type { Project } from "@/types/project";
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  priorityLabels,
+  statusLabels,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  type Task,
+  type TaskPatch,
+  type TaskPriority,
+  type TaskStatus,
+} from "@/types/task";
+
+export type CsvDelimiter = "," | ";" | "\t" | "|";
+
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe" },
+];
+
+/** Day formats offered for due dates; each also accepts a time after it. */
+export const CSV_DATE_FORMATS = ["yyyy-MM-dd", "MM/dd/yyyy", "dd/MM/yyyy", "dd.MM.yyyy"];
+
+const EXPORT_DATE_FORMAT = "yyyy-MM-dd";
+
+/**
+ * Reads CSV as RFC 4180 describes it: fields in double quotes may contain
+ * the delimiter, line breaks and `""` for a quote. A UTF-8 byte order mark
+ * is dropped and rows without any values are skipped.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = ","): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && source[i + 1] === "\n") i += 1;
+      endRow();
+    } else {
+      field += char;
+    }
+    i += 1;
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Picks the delimiter that splits the first lines into the same, largest
+ * number of fields; spreadsheets in many locales write semicolons.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const sample = text.replace(/^\uFEFF/, "").split(/\r?\n/).slice(0, 10).join("\n");
+  let best: CsvDelimiter = ",";
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const counts = parseCsv(sample, value)
+      .slice(0, 5)
+      .map((row) => row.length);
+    if (counts.length === 0 || counts[0] < 2) return;
+    const consistent = counts.every((count) => count === counts[0]);
+    const score = counts[0] * (consistent ? 2 : 1);
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function quoteField(value: string, delimiter: CsvDelimiter) {
+  return value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+export function formatCsv(rows: string[][], delimiter: CsvDelimiter = ",") {
+  return rows
+    .map((row) => row.map((value) => quoteField(value, delimiter)).join(delimiter))
+    .map((line) => `${line}\r\n`)
+    .join("");
+}
+
+/** What a cell holds in an export, in the form the importer reads back. */
+export function csvValue(task: Task, column: TableColumn, { projects }: TableContext) {
+  if (column.fieldId) return String(task.customFields[column.fieldId] ?? "");
+  switch (column.id) {
+    case "title":
+      return task.title;
+    case "status":
+      return statusLabels[task.status];
+    case "project":
+      return projects.find((p) => p.id === task.projectId)?.name ?? "";
+    case "priority":
+      return task.priority === "none" ? "" : priorityLabels[task.priority];
+    case "dueDate":
+      if (!task.dueDate) return "";
+      return format(
+        new Date(task.dueDate),
+        hasTimeOfDay(task.dueDate) ? `${EXPORT_DATE_FORMAT} HH:mm` : EXPORT_DATE_FORMAT
+      );
+    case "assignee":
+      return task.assignee ?? "";
+    case "estimate":
+      return task.estimate === null ? "" : String(task.estimate);
+    case "tags":
+      return task.tags.join(", ");
+    default:
+      return "";
+  }
+}
+
+// Spreadsheets run cells starting with these as formulas; plain numbers are safe.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[-+]?\d+(\.\d+)?$/;
+
+/** Keeps a cell from running as a formula when the file is opened in a spreadsheet. */
+function guardFormula(value: string) {
+  return FORMULA_START.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+}
+
+/** Undoes `guardFormula` on import, so exports read back as they were. */
+function unguardFormula(value: string) {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+/**
+ * A CSV of `tasks` with one column per table column, headed by the column
+ * names. Starts with a byte order mark so spreadsheet apps read it as UTF-8.
+ */
+export function exportTasksCsv(tasks: Task[], columns: TableColumn[], context: TableContext) {
+  const rows = [
+    columns.map((column) => guardFormula(column.label)),
+    ...tasks.map((task) =>
+      columns.map((column) => guardFormula(csvValue(task, column, context)))
+    ),
+  ];
+  return `\uFEFF${formatCsv(rows)}`;
+}
+
+/** A task field a CSV column can be imported into: a table column id or "notes". */
+export interface CsvTarget {
+  id: string;
+  label: string;
+  /** Other header names that map here automatically. */
+  aliases: string[];
+  field?: CustomFieldDefinition;
+}
+
+const targetAliases: Record<string, string[]> = {
+  title: ["name", "task", "summary", "subject"],
+  notes: ["description", "details", "note", "body"],
+  status: ["state"],
+  project: ["list", "folder"],
+  priority: ["importance"],
+  dueDate: ["due", "due date", "deadline", "date"],
+  assignee: ["owner", "assigned to", "responsible"],
+  estimate: ["points", "story points", "effort"],
+  tags: ["labels", "tag", "label", "categories", "contexts"],
+};
+
+export function csvTargets(columns: TableColumn[], fields: CustomFieldDefinition[]) {
+  const targets: CsvTarget[] = columns.map((column) => ({
+    id: column.id,
+    label: column.label,
+    aliases: targetAliases[column.id] ?? [],
+    field: fields.find((field) => field.id === column.fieldId),
+  }));
+  targets.splice(1, 0, { id: "notes", label: "Notes", aliases: targetAliases.notes });
+  return targets;
+}
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase().replace(/[\s_-]+/g, " ");
+}
+
+/** Maps each header to the target of the same name or alias, each target once. */
+export function guessCsvMapping(headers: string[], targets: CsvTarget[]) {
+  const used = new Set<string>();
+  return headers.map((header) => {
+    const name = normalizeHeader(unguardFormula(header));
+    const target = targets.find(
+      (t) =>
+        !used.has(t.id) &&
+        [t.id, t.label, ...t.aliases].some((alias) => normalizeHeader(alias) === name)
+    );
+    if (!target) return null;
+    used.add(target.id);
+    return target.id;
+  });
+}
+
+export interface CsvImportOptions {
+  hasHeader: boolean;
+  dateFormat: string;
+}
+
+function lookup<T extends string>(values: T[], labels: Record<T, string>, input: string) {
+  const key = input.trim().toLowerCase().replace(/[\s_-]+/g, "");
+  const normalize = (value: string) => value.toLowerCase().replace(/[\s_-]+/g, "");
+  return values.find((value) => normalize(value) === key || normalize(labels[value]) === key);
+}
+
+function parseDue(input: string, dateFormat: string) {
+  const reference = new Date();
+  const candidates = [`${dateFormat} HH:mm`, dateFormat].map((pattern) =>
+    parse(input, pattern, reference)
+  );
+  const date =
+    candidates.find(isValid) ??
+    (/^\d{4}-\d{2}-\d{2}T/.test(input) ? new Date(input) : null);
+  return date && isValid(date) ? date.toISOString() : null;
+}
+
+const optional = (value: string) => value.trim() || null;
+
+/** How each target's text is checked and turned into a task value. */
+function targetSchema(target: CsvTarget, { dateFormat }: CsvImportOptions) {
+  const text = z.string().trim();
+  if (target.field?.type === "number") {
+    return text.transform((value, ctx) => {
+      if (!value) return undefined;
+      const number = Number(value);
+      if (Number.isFinite(number)) return number;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `“${value}” isn't a number` });
+      return z.NEVER;
+    });
+  }
+  if (target.field) return text.transform((value) => value || undefined);
+
+  switch (target.id) {
+    case "title":
+      return text.min(1, "A title is required");
+    case "notes":
+      return z.string();
+    case "status":
+      return text.transform((value, ctx) => {
+        if (!value) return "todo";
+        const status = lookup<TaskStatus>(TASK_STATUSES, statusLabels, value);
+        if (status) return status;
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown status “${value}”` });
+        return z.NEVER;
+      });
+    case "priority":
+      return text.transform((value, ctx) => {
+        if (!value) return "none";
+        const priority = lookup<TaskPriority>(TASK_PRIORITIES, priorityLabels, value);
+        if (priority) return priority;
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown priority “${value}”` });
+        return z.NEVER;
+      });
+    case "dueDate":
+      return text.transform((value, ctx) => {
+        if (!value) return null;
+        const due = parseDue(value, dateFormat);
+        if (due) return due;
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `“${value}” isn't a date like ${format(new Date(), dateFormat)}`,
+        });
+        return z.NEVER;
+      });
+    case "estimate":
+      return text.transform((value, ctx) => {
+        if (!value) return null;
+        const estimate = Number(value);
+        if (Number.isFinite(estimate) && estimate >= 0) return estimate;
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `“${value}” isn't a number of 0 or more`,
+        });
+        return z.NEVER;
+      });
+    case "tags":
+      return z.string().transform((value) => [
+        ...new Set(
+          value
+            .split(/[,;\s]+/)
+            .map((tag) => tag.replace(/^#/, "").trim())
+            .filter(Boolean)
+        ),
+      ]);
+    default:
+      return z.string().transform(optional);
+  }
+}
+
+export interface CsvRowResult {
+  /** 1-based row of the file, counting the header. */
+  row: number;
+  title: string;
+  /** Parsed values by target id; null when the row has errors. */
+  values: Record<string, unknown> | null;
+  errors: string[];
+}
+
+/**
+ * Checks every data row against the mapping. `mapping` holds a target id or
+ * null (ignored) per column.
+ */
+export function validateCsvRows(
+  rows: string[][],
+  mapping: (string | null)[],
+  targets: CsvTarget[],
+  options: CsvImportOptions
+): CsvRowResult[] {
+  const mapped = mapping.flatMap((id, column) => {
+    const target = targets.find((t) => t.id === id);
+    return target ? [{ target, column }] : [];
+  });
+  const schema = z.object(
+    Object.fromEntries(mapped.map(({ target }) => [target.id, targetSchema(target, options)]))
+  );
+  const offset = options.hasHeader ? 2 : 1;
+  const titleColumn = mapping.indexOf("title");
+
+  return rows.slice(options.hasHeader ? 1 : 0).map((cells, index) => {
+    const row = index + offset;
+    const title =
+      unguardFormula((titleColumn === -1 ? cells[0] : cells[titleColumn]) ?? "").trim() ||
+      `Row ${row}`;
+    const result = schema.safeParse(
+      Object.fromEntries(
+        mapped.map(({ target, column }) => [target.id, unguardFormula(cells[column] ?? "")])
+      )
+    );
+    if (result.success) return { row, title, values: result.data, errors: [] };
+    return {
+      row,
+      title,
+      values: null,
+      errors: result.error.issues.map((issue) => {
+        const target = targets.find((t) => t.id === issue.path[0]);
+        return target ? `${target.label}: ${issue.message}` : issue.message;
+      }),
+    };
+  });
+}
+
+export interface CsvImportContext {
+  projects: Project[];
+}
+
+/**
+ * Turns validated rows into an import plan. Rows with errors are skipped
+ * with their errors as the reason; like todo.txt imports, a row with the
+ * title and project of an existing task is merged into it.
+ */
+export function planCsvImport(
+  results: CsvRowResult[],
+  tasks: Task[],
+  { projects }: CsvImportContext,
+  now = new Date()
+): ImportPlan {
+  const resolver = createProjectResolver(projects, now);
+  const existing = new Map<string, Task>();
+  tasks.forEach((task) => {
+    const key = taskIdentity(task);
+    if (!existing.has(key)) existing.set(key, task);
+  });
+  const seen = new Set<string>();
+
+  const items = results.map(({ row, title, values, errors }): ImportItem => {
+    const base = { line: row, title };
+    if (!values) return { ...base, action: "skip", detail: errors.join("; ") };
+
+    const fields: TaskPatch = {};
+    const customFields: Record<string, CustomFieldValue> = {};
+    Object.entries(values).forEach(([id, value]) => {
+      if (value === undefined) return;
+      if (id.startsWith("field:")) {
+        customFields[id.slice("field:".length)] = value as CustomFieldValue;
+      } else if (id === "project") {
+        fields.projectId = resolver.resolve(value as string | null);
+      } else {
+        Object.assign(fields, { [id]: value });
+      }
+    });
+
+    const key = taskIdentity({ title: fields.title, projectId: fields.projectId ?? null });
+    if (seen.has(key)) return { ...base, action: "skip", detail: "Repeats an earlier row" };
+    seen.add(key);
+
+    const match = existing.get(key);
+    if (match) {
+      const patch = changedFields(match, {
+        ...fields,
+        ...(Object.keys(customFields).length > 0 && {
+          customFields: { ...match.customFields, ...customFields },
+        }),
+      });
+      if (Object.keys(patch).length === 0) {
+        return { ...base, action: "skip", detail: "Already up to date" };
+      }
+      return {
+        ...base,
+        action: "merge",
+        detail: describeChanges(patch),
+        task: mergeImportedTask(match, patch, { completedAt: null }, now),
+      };
+    }
+
+    return {
+      ...base,
+      action: "create",
+      task: buildImportedTask(
+        { ...fields, title: fields.title, customFields },
+        { createdAt: null, completedAt: null },
+        now
+      ),
+    };
+  });
+
+  return { items, projects: resolver.created };
+}
@@ -0,0 +1,25 @@
+import type { StoreName, StoredRecord } from "./schema";
+
+/**
+ * Storage exists but can't be opened as it is: another tab holds an older
+ * version of the database, or migrating the stored records failed.
+ */
+export class StorageOpenError extends Error {
+  reason: "blocked" | "migration";
+
+  constructor(message: string, reason: StorageOpenError["reason"]) {
+    super(message);
+    this.name = "StorageOpenError";
+    this.reason = reason;
+  }
+}
+
+/** The minimal key/value surface both storage backends implement. */
+export interface StorageAdapter {
+  kind: "indexeddb" | "localstorage" | "memory";
+  getAll: (store: StoreName) => Promise<StoredRecord[]>;
+  get: (store: StoreName, id: string) => Promise<StoredRecord | undefined>;
+  put: (store: StoreName, records: StoredRecord[]) => Promise<void>;
+  delete: (store: StoreName, ids: string[]) => Promise<void>;
+  clear: (store: StoreName) => Promise<void>;
+}
@@ -0,0 +1,34 @@
+import type { StorageAdapter } from "./adapter";
+import { createIndexedDbAdapter } from "./indexeddb";
+import { createLocalStorageAdapter } from "./local-storage";
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+
+/**
+ * Private windows and some embedded browsers have no IndexedDB or refuse to
+ * open it. Any other failure means the data is there but can't be read yet;
+ * falling back would open an empty workspace and split writes between the two.
+ */
+function canFallBack(error: unknown) {
+  return (
+    error instanceof DOMException &&
+    (error.name === "InvalidStateError" || error.name === "SecurityError")
+  );
+}
+
+/** Opens (and migrates) local storage once per page load. */
+export function getStorage() {
+  if (!adapterPromise) {
+    adapterPromise =
+      typeof indexedDB === "undefined"
+        ? Promise.resolve().then(createLocalStorageAdapter)
+        : createIndexedDbAdapter().catch((error) => {
+            if (canFallBack(error)) return createLocalStorageAdapter();
+            throw error;
+          });
+  }
+  return adapterPromise;
+}
+
+export { StorageOpenError, type StorageAdapter } from "./adapter";
+export { SCHEMA_VERSION, type StoreName } from "./schema";
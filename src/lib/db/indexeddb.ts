@@ -0,0 +1,137 @@
+import { StorageOpenError, type StorageAdapter } from "./adapter";
+import {
+  DB_NAME,
+  SCHEMA_VERSION,
+  STORE_NAMES,
+  emptySnapshot,
+  migrateSnapshot,
+  type StoreName,
+  type StoredRecord,
+} from "./schema";
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Aborted", "AbortError"));
+  });
+}
+
+/**
+ * Creates missing object stores, then reads every existing record through the
+ * version-change transaction, runs the migration chain and writes it back.
+ * A failing migration aborts the upgrade, leaving the old records as they were.
+ */
+function upgrade(
+  db: IDBDatabase,
+  tx: IDBTransaction,
+  oldVersion: number,
+  onError: (error: StorageOpenError) => void
+) {
+  STORE_NAMES.forEach((name) => {
+    if (!db.objectStoreNames.contains(name)) {
+      db.createObjectStore(name, { keyPath: "id" });
+    }
+  });
+
+  if (oldVersion === 0) return;
+
+  const snapshot = emptySnapshot();
+  let pending = STORE_NAMES.length;
+
+  STORE_NAMES.forEach((name) => {
+    const request = tx.objectStore(name).getAll();
+    request.onsuccess = () => {
+      snapshot[name] = request.result;
+      pending -= 1;
+      if (pending > 0) return;
+
+      let migrated: typeof snapshot;
+      try {
+        migrated = migrateSnapshot(snapshot, oldVersion);
+      } catch (error) {
+        const reason = error instanceof Error ? ` ${error.message}` : "";
+        onError(
+          new StorageOpenError(
+            `Your data couldn't be upgraded from version ${oldVersion}.${reason}`,
+            "migration"
+          )
+        );
+        tx.abort();
+        return;
+      }
+      STORE_NAMES.forEach((store) => {
+        const objectStore = tx.objectStore(store);
+        objectStore.clear();
+        migrated[store].forEach((record) => objectStore.put(record));
+      });
+    };
+  });
+}
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    let failure: StorageOpenError | null = null;
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, request.transaction!, event.oldVersion, (error) => {
+        failure = error;
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(failure ?? request.error);
+    request.onblocked = () =>
+      reject(
+        new StorageOpenError(
+          "Another tab is still using an older version of your data.",
+          "blocked"
+        )
+      );
+  });
+}
+
+export async function createIndexedDbAdapter(): Promise<StorageAdapter> {
+  if (typeof indexedDB === "undefined") {
+    throw new Error("IndexedDB is not available");
+  }
+
+  const db = await openDatabase();
+
+  // Another tab upgraded the schema; let go so it is not blocked.
+  db.onversionchange = () => db.close();
+
+  const write = async (
+    store: StoreName,
+    fn: (objectStore: IDBObjectStore) => void
+  ) => {
+    const tx = db.transaction(store, "readwrite");
+    fn(tx.objectStore(store));
+    await transactionDone(tx);
+  };
+
+  return {
+    kind: "indexeddb",
+    getAll: (store) =>
+      promisify<StoredRecord[]>(
+        db.transaction(store).objectStore(store).getAll()
+      ),
+    get: (store, id) =>
+      promisify<StoredRecord | undefined>(
+        db.transaction(store).objectStore(store).get(id)
+      ),
+    put: (store, records) =>
+      write(store, (objectStore) =>
+        records.forEach((record) => objectStore.put(record))
+      ),
+    delete: (store, ids) =>
+      write(store, (objectStore) => ids.forEach((id) => objectStore.delete(id))),
+    clear: (store) => write(store, (objectStore) => objectStore.clear()),
+  };
+}
@@ -0,0 +1,79 @@
+import type { StorageAdapter } from "./adapter";
+import {
+  DB_NAME,
+  SCHEMA_VERSION,
+  STORE_NAMES,
+  migrateSnapshot,
+  type DataSnapshot,
+  type StoreName,
+  type StoredRecord,
+} from "./schema";
+
+const VERSION_KEY = `${DB_NAME}:version`;
+
+const storeKey = (store: StoreName) => `${DB_NAME}:${store}`;
+
+function getLocalStorage() {
+  try {
+    const storage = window.localStorage;
+    const probe = `${DB_NAME}:probe`;
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return storage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fallback for browsers without a usable IndexedDB (some private browsing
+ * modes). Each store is kept as one JSON array; when even localStorage is
+ * unavailable the data lives in memory for the session.
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  const storage = getLocalStorage();
+  const memory = new Map<string, string>();
+
+  const getItem = (key: string) =>
+    storage ? storage.getItem(key) : memory.get(key) ?? null;
+  const setItem = (key: string, value: string) => {
+    if (storage) storage.setItem(key, value);
+    else memory.set(key, value);
+  };
+
+  const read = (store: StoreName): StoredRecord[] => {
+    try {
+      return JSON.parse(getItem(storeKey(store)) ?? "[]");
+    } catch {
+      return [];
+    }
+  };
+  const save = (store: StoreName, records: StoredRecord[]) =>
+    setItem(storeKey(store), JSON.stringify(records));
+
+  const storedVersion = Number(getItem(VERSION_KEY) ?? 0);
+  if (storedVersion > 0 && storedVersion < SCHEMA_VERSION) {
+    const snapshot = Object.fromEntries(
+      STORE_NAMES.map((store) => [store, read(store)])
+    ) as DataSnapshot;
+    const migrated = migrateSnapshot(snapshot, storedVersion);
+    STORE_NAMES.forEach((store) => save(store, migrated[store]));
+  }
+  setItem(VERSION_KEY, String(SCHEMA_VERSION));
+
+  return {
+    kind: storage ? "localstorage" : "memory",
+    getAll: async (store) => read(store),
+    get: async (store, id) => read(store).find((record) => record.id === id),
+    put: async (store, records) => {
+      const byId = new Map(read(store).map((record) => [record.id, record]));
+      records.forEach((record) => byId.set(record.id, record));
+      save(store, [...byId.values()]);
+    },
+    delete: async (store, ids) => {
+      const removed = new Set(ids);
+      save(store, read(store).filter((record) => !removed.has(record.id)));
+    },
+    clear: async (store) => save(store, []),
+  };
+}
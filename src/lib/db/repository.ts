@@ -0,0 +1,55 @@
+import { defaultSettings, type Settings } from "@/types/settings";
+import type { LocalBackup } from "@/types/backup";
+import type { AppNotification } from "@/types/notification";
+import type { Project } from "@/types/project";
+import type { Task } from "@/types/task";
+import { getStorage } from "./index";
+import type { StoreName } from "./schema";
+
+export interface Repository<T extends { id: string }> {
+  list: () => Promise<T[]>;
+  get: (id: string) => Promise<T | undefined>;
+  save: (...records: T[]) => Promise<void>;
+  remove: (...ids: string[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/** A record's state before and after a mutation; a missing side means it didn't exist. */
+export interface RecordChange<T> {
+  before?: T;
+  after?: T;
+}
+
+export function createRepository<T extends { id: string }>(
+  store: StoreName
+): Repository<T> {
+  return {
+    list: async () => (await (await getStorage()).getAll(store)) as T[],
+    get: async (id) => (await (await getStorage()).get(store, id)) as T | undefined,
+    save: async (...records) => (await getStorage()).put(store, records),
+    remove: async (...ids) => (await getStorage()).delete(store, ids),
+    clear: async () => (await getStorage()).clear(store),
+  };
+}
+
+export const taskRepository = createRepository<Task>("tasks");
+
+export const projectRepository = createRepository<Project>("projects");
+
+export const notificationRepository =
+  createRepository<AppNotification>("notifications");
+
+export const backupRepository = createRepository<LocalBackup>("backups");
+
+export const SETTINGS_ID = "app";
+
+/** Settings are a single record, merged over defaults on read. */
+export const settingsRepository = {
+  get: async (): Promise<Settings> => {
+    const stored = await (await getStorage()).get("settings", SETTINGS_ID);
+    const { id: _id, ...settings } = stored ?? { id: SETTINGS_ID };
+    return { ...defaultSettings, ...settings };
+  },
+  save: async (settings: Settings) =>
+    (await getStorage()).put("settings", [{ ...settings, id: SETTINGS_ID }]),
+};
@@ -0,0 +1,214 @@
+export const DB_NAME = "todo-gopher";
+
+/**
+ * Bump this and append to `migrations` whenever the shape of stored records
+ * changes. Both the IndexedDB and the localStorage backends run the same
+ * chain, so migrations only ever see plain records.
+ */
+export const SCHEMA_VERSION = 11;
+
+export const STORE_NAMES = [
+  "tasks",
+  "projects",
+  "settings",
+  "notifications",
+  "backups",
+] as const;
+
+export type StoreName = (typeof STORE_NAMES)[number];
+
+export type StoredRecord = { id: string } & Record<string, unknown>;
+
+export type DataSnapshot = Record<StoreName, StoredRecord[]>;
+
+// Stored records are only trusted as far as each migration checks them.
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: DataSnapshot) => DataSnapshot;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Initial schema: fill task and project defaults",
+    migrate: (data) => ({
+      ...data,
+      tasks: data.tasks.map((task) => ({
+        notes: "",
+        status: "todo",
+        priority: "none",
+        dueDate: null,
+        completedAt: null,
+        projectId: null,
+        ...task,
+      })),
+      projects: data.projects.map((project) => ({
+        color: "hsl(var(--primary))",
+        ...project,
+      })),
+    }),
+  },
+  {
+    version: 2,
+    description: "Board: manual task order, assignees and project columns",
+    migrate: (data) => ({
+      ...data,
+      tasks: data.tasks.map((task) => ({
+        assignee: null,
+        order:
+          typeof task.createdAt === "string" ? new Date(task.createdAt).getTime() || 0 : 0,
+        ...task,
+      })),
+      projects: data.projects.map((project) => ({
+        columns: null,
+        ...project,
+      })),
+    }),
+  },
+  {
+    version: 3,
+    description: "Quick add: task tags and recurrence rules",
+    migrate: (data) => ({
+      ...data,
+      tasks: data.tasks.map((task) => ({
+        tags: [],
+        recurrence: null,
+        ...task,
+      })),
+    }),
+  },
+  {
+    version: 4,
+    description: "Recurring tasks: series bookkeeping on each occurrence",
+    migrate: (data) => ({
+      ...data,
+      tasks: data.tasks.map((task) => {
+        if (task.series !== undefined) return task;
+        if (!task.recurrence) return { ...task, series: null };
+        const start = task.dueDate ?? task.createdAt;
+        return {
+          ...task,
+          series: {
+            id: task.id,
+            start,
+            occurrenceDate: start,
+            index: 0,
+            template: {
+              title: task.title,
+              notes: task.notes,
+              priority: task.priority,
+              tags: task.tags,
+              projectId: task.projectId,
+              assignee: task.assignee,
+            },
+          },
+        };
+      }),
+    }),
+  },
+  {
+    version: 5,
+    description: "Nested projects with sections",
+    migrate: (data) => ({
+      ...data,
+      tasks: data.tasks.map((task) => ({
+        sectionId: null,
+        ...task,
+        series: isRecord(task.series)
+          ? {
+              ...task.series,
+              template: {
+                sectionId: null,
+                ...(isRecord(task.series.template) ? task.series.template : {}),
+              },
+            }
+          : task.series,
+      })),
+      projects: data.projects.map((project, index) => ({
+        parentId: null,
+        order: index,
+        archived: false,
+        sections: [],
+        ...project,
+      })),
+    }),
+  },
+  {
+    version: 6,
+    description: "Notification center history",
+    // Only adds the `notifications` store, which starts out empty.
+    migrate: (data) => ({ ...data, notifications: data.notifications ?? [] }),
+  },
+  {
+    version: 7,
+    description: "Task reminders",
+    migrate: (data) => ({
+      ...data,
+      tasks: data.tasks.map((task) => ({ reminders: [], ...task })),
+      notifications: data.notifications.map((notification) => ({
+        reminderId: null,
+        ...notification,
+      })),
+    }),
+  },
+  {
+    version: 8,
+    description: "Estimates and status history for burndown and flow charts",
+    migrate: (data) => ({
+      ...data,
+      tasks: data.tasks.map((task) => {
+        if (task.statusHistory !== undefined) return { estimate: null, ...task };
+        // Only the current status is known; assume it was reached at the
+        // last update (or completion) after starting out as "todo".
+        const statusHistory: { status: unknown; at: unknown }[] = [
+          { status: "todo", at: task.createdAt },
+        ];
+        if (task.status !== "todo") {
+          statusHistory.push({
+            status: task.status,
+            at: task.completedAt ?? task.updatedAt ?? task.createdAt,
+          });
+        }
+        return { estimate: null, statusHistory, ...task };
+      }),
+    }),
+  },
+  {
+    version: 9,
+    description: "Custom task fields",
+    migrate: (data) => ({
+      ...data,
+      tasks: data.tasks.map((task) => ({ customFields: {}, ...task })),
+    }),
+  },
+  {
+    version: 10,
+    description: "Subtasks: links to a parent task",
+    migrate: (data) => ({
+      ...data,
+      tasks: data.tasks.map((task) => ({ parentId: null, ...task })),
+    }),
+  },
+  {
+    version: 11,
+    description: "Backups: automatic local snapshots",
+    migrate: (data) => ({ ...data, backups: data.backups ?? [] }),
+  },
+];
+
+export function emptySnapshot(): DataSnapshot {
+  return { tasks: [], projects: [], settings: [], notifications: [], backups: [] };
+}
+
+/** Runs every migration newer than `fromVersion`, in order. */
+export function migrateSnapshot(data: DataSnapshot, fromVersion: number) {
+  return migrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((snapshot, migration) => migration.migrate(snapshot), data);
+}
@@ -0,0 +1,37 @@
+const WORD_BOUNDARY = /[\s\-_/.#@]/;
+
+/**
+ * Scores how well `query` matches `text` as an in-order subsequence, from 0
+ * (no match) to 1 (exact match). Consecutive characters and characters at the
+ * start of a word score higher, so "cal" ranks "Calendar" above "Local tasks".
+ */
+export function fuzzyScore(text: string, query: string) {
+  const haystack = text.toLowerCase();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 1;
+  if (haystack === needle) return 1;
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return 0;
+
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || WORD_BOUNDARY.test(haystack[index - 1])) score += 1.5;
+    previous = index;
+    from = index + 1;
+  }
+
+  // Normalise to (0, 1) and prefer shorter texts among equally good matches.
+  const best = needle.length * 4.5;
+  const coverage = needle.length / haystack.length;
+  return Math.min(0.99, (score / best) * (0.8 + 0.2 * coverage));
+}
+
+/** Best score of `query` against any of the given texts. */
+export function fuzzyScoreAny(texts: string[], query: string) {
+  return texts.reduce((best, text) => Math.max(best, fuzzyScore(text, query)), 0);
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest";
+
+import { exportICalendar, parseICalendar, planICalendarImport } from "./ical";
+import { buildProject } from "./projects";
+import { buildReminder } from "./reminders";
+import { buildTask } from "./tasks";
+
+const now = new Date(2026, 9, 19, 9, 0);
+
+const home = buildProject({ name: "Home" }, now);
+
+/** A calendar holding `lines`, one VTODO per `BEGIN:VTODO`. */
+function calendar(...lines: string[]) {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR", ""].join("\r\n");
+}
+
+describe("exportICalendar", () => {
+  const parent = buildTask(
+    {
+      title: `Prépare the ${"very ".repeat(12)}long quarterly report, with charts; and notes`,
+      notes: "First line\nSecond, with a comma",
+      priority: "high",
+      projectId: home.id,
+      dueDate: new Date(2026, 9, 30, 14, 30).toISOString(),
+      tags: ["work", "q4"],
+      recurrence: "FREQ=MONTHLY;BYDAY=-1FR;X-ANCHOR=COMPLETION",
+      reminders: [
+        buildReminder({ type: "before-due", minutes: 30 }),
+        buildReminder({ type: "at", at: new Date(2026, 9, 29, 18, 0).toISOString() }),
+      ],
+      order: 1,
+    },
+    now
+  );
+  const tasks = [
+    parent,
+    buildTask({ title: "Collect numbers", status: "done", parentId: parent.id, order: 2 }, now),
+    buildTask(
+      {
+        title: "Water plants",
+        dueDate: new Date(2026, 9, 20).toISOString(),
+        reminders: [buildReminder({ type: "due-day", time: "08:00" })],
+        order: 3,
+      },
+      now
+    ),
+  ];
+  const text = exportICalendar(tasks, { name: "Tasks", projects: [home] }, now);
+
+  it("folds long lines at 75 octets and unfolds them on reading", () => {
+    const encoder = new TextEncoder();
+    const lines = text.split("\r\n");
+    expect(lines.every((line) => encoder.encode(line).length <= 75)).toBe(true);
+    expect(lines.some((line) => line.startsWith(" "))).toBe(true);
+
+    const [todo] = parseICalendar(text)[0].components.filter((c) => c.type === "VTODO");
+    const summary = todo.properties.find((p) => p.name === "SUMMARY");
+    expect(summary?.value).toBe(parent.title.replace(/([,;])/g, "\\$1"));
+  });
+
+  it("imports back into the same tasks", () => {
+    const plan = planICalendarImport(text, [], { projects: [home] }, now);
+    expect(plan.projects).toEqual([]);
+    expect(plan.items.map((item) => item.action)).toEqual(["create", "create", "create"]);
+    plan.items.forEach(({ task }, index) => {
+      const source = tasks[index];
+      expect(task).toMatchObject({
+        id: source.id,
+        title: source.title,
+        notes: source.notes,
+        status: source.status,
+        priority: source.priority,
+        projectId: source.projectId,
+        parentId: source.parentId,
+        dueDate: source.dueDate,
+        tags: source.tags,
+        recurrence: source.recurrence,
+      });
+      expect(task?.reminders.map((reminder) => reminder.trigger)).toEqual(
+        source.reminders.map((reminder) => reminder.trigger)
+      );
+    });
+
+    const again = planICalendarImport(text, tasks, { projects: [home] }, now);
+    expect(again.items.map((item) => item.action)).toEqual(["skip", "skip", "skip"]);
+  });
+});
+
+describe("planICalendarImport", () => {
+  const due = (text: string) =>
+    planICalendarImport(text, [], { projects: [] }, now).items.map((item) => item.task?.dueDate);
+
+  it("reads times in named zones as instants", () => {
+    const text = calendar(
+      "BEGIN:VTODO",
+      "UID:a",
+      "SUMMARY:Call New York",
+      "DUE;TZID=America/New_York:20261030T090000",
+      "END:VTODO",
+      "BEGIN:VTODO",
+      "UID:b",
+      "SUMMARY:Call Tokyo",
+      'DUE;TZID="Asia/Tokyo":20261030T090000',
+      "END:VTODO"
+    );
+    expect(due(text)).toEqual(["2026-10-30T13:00:00.000Z", "2026-10-30T00:00:00.000Z"]);
+  });
+
+  it("falls back to the file's VTIMEZONE for zone names the browser doesn't know", () => {
+    const text = calendar(
+      "BEGIN:VTIMEZONE",
+      "TZID:Eastern Standard Time",
+      "BEGIN:STANDARD",
+      "DTSTART:16010101T020000",
+      "TZOFFSETFROM:-0400",
+      "TZOFFSETTO:-0500",
+      "END:STANDARD",
+      "END:VTIMEZONE",
+      "BEGIN:VTODO",
+      "UID:a",
+      "SUMMARY:Call Boston",
+      "DUE;TZID=Eastern Standard Time:20261210T090000",
+      "END:VTODO"
+    );
+    expect(due(text)).toEqual(["2026-12-10T14:00:00.000Z"]);
+  });
+
+  it("reads alarms as reminders", () => {
+    const text = calendar(
+      "BEGIN:VTODO",
+      "UID:a",
+      "SUMMARY:Renew passport",
+      "DUE;VALUE=DATE:20261030",
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      "TRIGGER;RELATED=END:PT9H",
+      "END:VALARM",
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      "TRIGGER:-P1D",
+      "END:VALARM",
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      "TRIGGER;VALUE=DATE-TIME:20261028T170000Z",
+      "END:VALARM",
+      "END:VTODO"
+    );
+    const [{ task }] = planICalendarImport(text, [], { projects: [] }, now).items;
+    expect(task?.reminders.map((reminder) => reminder.trigger)).toEqual([
+      { type: "due-day", time: "09:00" },
+      { type: "before-due", minutes: 24 * 60 },
+      { type: "at", at: "2026-10-28T17:00:00.000Z" },
+    ]);
+  });
+
+  it("nests subtasks only under parents that are imported", () => {
+    const text = calendar(
+      "BEGIN:VTODO",
+      "UID:child",
+      "SUMMARY:Pack bags",
+      "RELATED-TO:trip",
+      "END:VTODO",
+      "BEGIN:VTODO",
+      "UID:trip",
+      "SUMMARY:Plan trip",
+      "END:VTODO",
+      "BEGIN:VTODO",
+      "UID:orphan",
+      "SUMMARY:Buy stamps",
+      "RELATED-TO:untitled",
+      "END:VTODO",
+      "BEGIN:VTODO",
+      "UID:untitled",
+      "END:VTODO"
+    );
+    const plan = planICalendarImport(text, [], { projects: [] }, now);
+    expect(plan.items.map((item) => [item.action, item.task?.parentId])).toEqual([
+      ["create", "trip"],
+      ["create", null],
+      ["create", null],
+      ["skip", undefined],
+    ]);
+  });
+});
@@ -0,0 +1,654 @@
+import { isValid } from "date-fns";
+
+import { hasTimeOfDay } from "@/lib/calendar";
+import {
+  buildImportedTask,
+  changedFields,
+  createProjectResolver,
+  describeChanges,
+  mergeImportedTask,
+  type ImportItem,
+  type ImportPlan,
+} from "@/lib/import";
+import { isValidRRule, parseRRule, serializeRRule } from "@/lib/recurrence";
+import { buildReminder, reminderTime } from "@/lib/reminders";
+import type { Project } from "@/types/project";
+import type {
+  ReminderTrigger,
+  Task,
+  TaskPatch,
+  TaskPriority,
+  TaskReminder,
+  TaskStatus,
+} from "@/types/task";
+
+/**
+ * iCalendar (RFC 5545) files hold tasks as VTODO components:
+ *
+ * - `UID` — the task id, so re-importing an export merges instead of duplicating
+ * - `SUMMARY`, `DESCRIPTION`, `CATEGORIES` — title, notes and tags
+ * - `DUE` — a `DATE` for date-only due dates, UTC otherwise
+ * - `PRIORITY` — 1 urgent, 3 high, 5 medium, 7 low
+ * - `STATUS` — NEEDS-ACTION, IN-PROCESS or COMPLETED
+ * - `RRULE` — the repeat rule, without the app's own `X-` parts
+ * - `X-GOPHER-ANCHOR` — `COMPLETION` for rules repeating after completion
+ * - `VALARM` — one per reminder, relative to the due date where possible
+ * - `RELATED-TO` — the parent task of a subtask
+ * - `X-GOPHER-PROJECT` — the project name, which other apps ignore
+ */
+
+const PRODUCT_ID = "-//Todo Gopher//Tasks//EN";
+const PROJECT_PROPERTY = "X-GOPHER-PROJECT";
+const ANCHOR_PROPERTY = "X-GOPHER-ANCHOR";
+/** Octets per line before folding, not counting the line break. */
+const LINE_LIMIT = 75;
+
+const priorityNumbers: Record<TaskPriority, number> = {
+  none: 0,
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 7,
+};
+
+const statusNames: Record<TaskStatus, string> = {
+  todo: "NEEDS-ACTION",
+  in_progress: "IN-PROCESS",
+  done: "COMPLETED",
+};
+
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalComponent {
+  type: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+  /** 1-based line of its BEGIN, for the import preview. */
+  line: number;
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+/** Splits on commas that aren't escaped, as in CATEGORIES. */
+function splitList(value: string) {
+  return value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeText(item).trim())
+    .filter(Boolean);
+}
+
+/** Breaks a content line into 75-octet pieces without splitting characters. */
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const pieces: string[] = [];
+  let piece = "";
+  let size = 0;
+  for (const char of line) {
+    const length = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit.
+    if (size + length > (pieces.length ? LINE_LIMIT - 1 : LINE_LIMIT)) {
+      pieces.push(piece);
+      piece = "";
+      size = 0;
+    }
+    piece += char;
+    size += length;
+  }
+  pieces.push(piece);
+  return pieces.join("\r\n ");
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, "0");
+}
+
+function formatUtc(date: Date) {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+function formatLocalDay(date: Date) {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+/** Signed minutes as an iCalendar duration, e.g. -30 → `-PT30M`. */
+function formatDuration(minutes: number) {
+  if (minutes === 0) return "PT0S";
+  const sign = minutes < 0 ? "-" : "";
+  let rest = Math.abs(minutes);
+  const days = Math.floor(rest / (24 * 60));
+  rest -= days * 24 * 60;
+  const hours = Math.floor(rest / 60);
+  rest -= hours * 60;
+  const time = `${hours ? `${hours}H` : ""}${rest ? `${rest}M` : ""}`;
+  return `${sign}P${days ? `${days}D` : ""}${time ? `T${time}` : ""}`;
+}
+
+/** An iCalendar duration in signed minutes; seconds are rounded away. */
+function parseDuration(value: string) {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value);
+  if (!match) return null;
+  const [weeks, days, hours, minutes, seconds] = match.slice(2).map(Number);
+  const total =
+    (weeks || 0) * 7 * 24 * 60 +
+    (days || 0) * 24 * 60 +
+    (hours || 0) * 60 +
+    (minutes || 0) +
+    Math.round((seconds || 0) / 60);
+  return match[1] === "-" ? -total : total;
+}
+
+function property(name: string, value: string, params: Record<string, string> = {}) {
+  const head = [name, ...Object.entries(params).map(([key, param]) => `${key}=${param}`)];
+  return foldLine(`${head.join(";")}:${value}`);
+}
+
+function dueProperty(name: string, iso: string) {
+  const date = new Date(iso);
+  return hasTimeOfDay(iso)
+    ? property(name, formatUtc(date))
+    : property(name, formatLocalDay(date), { VALUE: "DATE" });
+}
+
+function alarmLines(task: Task, reminder: TaskReminder) {
+  const { trigger } = reminder;
+  let line: string;
+  if (trigger.type === "before-due") {
+    line = property("TRIGGER", formatDuration(-trigger.minutes), { RELATED: "END" });
+  } else if (trigger.type === "due-day" && task.dueDate && !hasTimeOfDay(task.dueDate)) {
+    // A date-only due date is the start of the day, so the time is an offset.
+    const [hours, minutes] = trigger.time.split(":").map(Number);
+    line = property("TRIGGER", formatDuration((hours || 0) * 60 + (minutes || 0)), {
+      RELATED: "END",
+    });
+  } else {
+    const at = reminderTime(reminder, task);
+    if (!at) return [];
+    line = property("TRIGGER", formatUtc(at), { VALUE: "DATE-TIME" });
+  }
+  return [
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    property("DESCRIPTION", escapeText(task.title)),
+    line,
+    "END:VALARM",
+  ];
+}
+
+export interface ICalendarExportOptions {
+  /** Shown by subscribing apps as the calendar's name. */
+  name: string;
+  projects: Project[];
+}
+
+export function formatVTodo(task: Task, projects: Project[], now = new Date()) {
+  const lines = [
+    "BEGIN:VTODO",
+    property("UID", escapeText(task.id)),
+    property("DTSTAMP", formatUtc(now)),
+    property("CREATED", formatUtc(new Date(task.createdAt))),
+    property("LAST-MODIFIED", formatUtc(new Date(task.updatedAt))),
+    property("SUMMARY", escapeText(task.title)),
+  ];
+  if (task.notes) lines.push(property("DESCRIPTION", escapeText(task.notes)));
+  if (task.dueDate) lines.push(dueProperty("DUE", task.dueDate));
+  if (task.priority !== "none") {
+    lines.push(property("PRIORITY", String(priorityNumbers[task.priority])));
+  }
+  lines.push(property("STATUS", statusNames[task.status]));
+  if (task.status === "done") {
+    lines.push(property("COMPLETED", formatUtc(new Date(task.completedAt ?? task.updatedAt))));
+    lines.push(property("PERCENT-COMPLETE", "100"));
+  }
+  if (task.recurrence && isValidRRule(task.recurrence)) {
+    // RFC 5545 rules can't carry x-name parts, so the anchor gets its own property.
+    const rule = parseRRule(task.recurrence);
+    const standard =
+      rule.fromCompletion || rule.extra.some(([key]) => key.startsWith("X-"))
+        ? serializeRRule({
+            ...rule,
+            fromCompletion: false,
+            extra: rule.extra.filter(([key]) => !key.startsWith("X-")),
+          })
+        : task.recurrence;
+    lines.push(property("RRULE", standard));
+    if (rule.fromCompletion) lines.push(property(ANCHOR_PROPERTY, "COMPLETION"));
+  }
+  if (task.tags.length > 0) {
+    lines.push(property("CATEGORIES", task.tags.map(escapeText).join(",")));
+  }
+  if (task.parentId) {
+    lines.push(property("RELATED-TO", escapeText(task.parentId), { RELTYPE: "PARENT" }));
+  }
+  const project = projects.find((p) => p.id === task.projectId);
+  if (project) lines.push(property(PROJECT_PROPERTY, escapeText(project.name)));
+  task.reminders.forEach((reminder) => lines.push(...alarmLines(task, reminder)));
+  lines.push("END:VTODO");
+  return lines;
+}
+
+/** A complete calendar with one VTODO per task, CRLF line endings as required. */
+export function exportICalendar(
+  tasks: Task[],
+  { name, projects }: ICalendarExportOptions,
+  now = new Date()
+) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    property("PRODID", PRODUCT_ID),
+    "CALSCALE:GREGORIAN",
+    property("X-WR-CALNAME", escapeText(name)),
+    // Asks subscribed apps to check the feed for changes every hour.
+    property("REFRESH-INTERVAL", "PT1H", { VALUE: "DURATION" }),
+    property("X-PUBLISHED-TTL", "PT1H"),
+    ...[...tasks]
+      .sort((a, b) => a.order - b.order)
+      .flatMap((task) => formatVTodo(task, projects, now)),
+    "END:VCALENDAR",
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+function parseParams(source: string) {
+  const params: Record<string, string> = {};
+  // Parameter values may be quoted to contain `;` and `:`.
+  for (const match of source.matchAll(/;([^=;:]+)=("[^"]*"|[^;:]*)/g)) {
+    params[match[1].toUpperCase()] = match[2].replace(/^"(.*)"$/, "$1");
+  }
+  return params;
+}
+
+function parseProperty(line: string): ICalProperty | null {
+  const match = /^([A-Za-z0-9-]+)((?:;[^=;:]+=(?:"[^"]*"|[^;:]*))*):(.*)$/.exec(line);
+  if (!match) return null;
+  return { name: match[1].toUpperCase(), params: parseParams(match[2]), value: match[3] };
+}
+
+/** Reads the component tree of an iCalendar file, tolerating LF line endings. */
+export function parseICalendar(text: string): ICalComponent[] {
+  const root: ICalComponent = { type: "", properties: [], components: [], line: 0 };
+  const stack = [root];
+  const lines: { text: string; line: number }[] = [];
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .forEach((raw, index) => {
+      if (/^[ \t]/.test(raw) && lines.length > 0) {
+        lines[lines.length - 1].text += raw.slice(1);
+      } else if (raw.trim()) {
+        lines.push({ text: raw, line: index + 1 });
+      }
+    });
+
+  lines.forEach(({ text: line, line: number }) => {
+    const parsed = parseProperty(line);
+    if (!parsed) return;
+    const current = stack[stack.length - 1];
+    if (parsed.name === "BEGIN") {
+      const component: ICalComponent = {
+        type: parsed.value.trim().toUpperCase(),
+        properties: [],
+        components: [],
+        line: number,
+      };
+      current.components.push(component);
+      stack.push(component);
+    } else if (parsed.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(parsed);
+    }
+  });
+  return root.components;
+}
+
+function findProperty(component: ICalComponent, name: string) {
+  return component.properties.find((p) => p.name === name);
+}
+
+function readText(component: ICalComponent, name: string) {
+  const value = findProperty(component, name)?.value;
+  return value === undefined ? undefined : unescapeText(value);
+}
+
+/** How far `timeZone` is ahead of UTC at `time`, in milliseconds. */
+function zoneOffset(time: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return (
+    Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) -
+    time
+  );
+}
+
+function parseOffset(value: string | undefined) {
+  const match = value && /^([+-])(\d{2})(\d{2})/.exec(value);
+  if (!match) return null;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return (match[1] === "-" ? -minutes : minutes) * 60 * 1000;
+}
+
+/**
+ * Standard-time offsets of the file's VTIMEZONE definitions, for zone names
+ * the browser doesn't know (Outlook writes Windows names). Daylight saving
+ * rules inside them are not evaluated.
+ */
+function definedZones(components: ICalComponent[]) {
+  const zones = new Map<string, number>();
+  components
+    .filter((component) => component.type === "VTIMEZONE")
+    .forEach((zone) => {
+      const id = findProperty(zone, "TZID")?.value;
+      const standard =
+        zone.components.find((c) => c.type === "STANDARD") ?? zone.components[0];
+      const offset = standard && parseOffset(findProperty(standard, "TZOFFSETTO")?.value);
+      if (id && offset !== null && offset !== undefined) zones.set(id, offset);
+    });
+  return zones;
+}
+
+interface ParsedDate {
+  date: Date;
+  /** A DATE value: a whole day rather than a moment. */
+  dateOnly: boolean;
+}
+
+/**
+ * Reads a DATE or DATE-TIME. UTC times and times in a named zone become
+ * instants; floating times and dates are read in the local zone, which is
+ * how the app stores date-only due dates.
+ */
+function parseDateValue(
+  { value, params }: ICalProperty,
+  zones: Map<string, number>
+): ParsedDate | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+
+  if (match[4] === undefined || params.VALUE === "DATE") {
+    return { date: new Date(year, month - 1, day), dateOnly: true };
+  }
+  const wall = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  const zone = params.TZID?.replace(/^\//, "");
+  let date: Date;
+  if (match[7]) {
+    date = new Date(wall);
+  } else if (zone) {
+    try {
+      // The offset at the wall time is off by the DST shift near a
+      // transition, so it's looked up again at the first guess.
+      const guess = wall - zoneOffset(wall, zone);
+      date = new Date(wall - zoneOffset(guess, zone));
+    } catch {
+      const offset = zones.get(zone);
+      date =
+        offset === undefined
+          ? new Date(year, month - 1, day, hours, minutes, seconds)
+          : new Date(wall - offset);
+    }
+  } else {
+    date = new Date(year, month - 1, day, hours, minutes, seconds);
+  }
+  return isValid(date) ? { date, dateOnly: false } : null;
+}
+
+function importPriority(value: string | undefined): TaskPriority {
+  const number = Number(value);
+  if (!value || !Number.isInteger(number) || number <= 0 || number > 9) return "none";
+  if (number === 1) return "urgent";
+  if (number <= 4) return "high";
+  if (number === 5) return "medium";
+  return "low";
+}
+
+function importStatus(value: string | undefined): TaskStatus {
+  switch (value?.trim().toUpperCase()) {
+    case "IN-PROCESS":
+      return "in_progress";
+    case "COMPLETED":
+    case "CANCELLED":
+      return "done";
+    default:
+      return "todo";
+  }
+}
+
+/** The stored rule, with the completion anchor `formatVTodo` moved out of it put back. */
+function importRRule(value: string | undefined, fromCompletion: boolean) {
+  if (!value || !isValidRRule(value)) return null;
+  return fromCompletion ? serializeRRule({ ...parseRRule(value), fromCompletion }) : value;
+}
+
+/**
+ * Reminders the app can represent. Alarms relative to the start are read as
+ * relative to the due date, which is what task apps mean by them.
+ */
+function importTriggers(
+  todo: ICalComponent,
+  due: ParsedDate | null,
+  zones: Map<string, number>
+): ReminderTrigger[] {
+  return todo.components
+    .filter((component) => component.type === "VALARM")
+    .flatMap((alarm): ReminderTrigger[] => {
+      const trigger = findProperty(alarm, "TRIGGER");
+      if (!trigger) return [];
+      if (trigger.params.VALUE === "DATE-TIME") {
+        const at = parseDateValue(trigger, zones);
+        return at ? [{ type: "at", at: at.date.toISOString() }] : [];
+      }
+      const minutes = parseDuration(trigger.value.trim());
+      if (minutes === null) return [];
+      if (minutes <= 0) return [{ type: "before-due", minutes: -minutes }];
+      if (!due) return [];
+      if (due.dateOnly && minutes < 24 * 60) {
+        const time = `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+        return [{ type: "due-day", time }];
+      }
+      const at = new Date(due.date.getTime() + minutes * 60 * 1000);
+      return [{ type: "at", at: at.toISOString() }];
+    });
+}
+
+/**
+ * Keeps the existing reminder for each trigger that matches one, with its
+ * delivery state, so re-importing an export doesn't count as a change.
+ */
+function reconcileReminders(
+  current: TaskReminder[],
+  triggers: ReminderTrigger[],
+  dueDate: string | null
+) {
+  const used = new Set<string>();
+  const time = (reminder: TaskReminder) => reminderTime(reminder, { dueDate })?.getTime();
+  return triggers.map((trigger) => {
+    const fresh = buildReminder(trigger);
+    const match = current.find(
+      (reminder) =>
+        !used.has(reminder.id) &&
+        (JSON.stringify(reminder.trigger) === JSON.stringify(trigger) ||
+          (time(reminder) !== undefined && time(reminder) === time(fresh)))
+    );
+    if (!match) return fresh;
+    used.add(match.id);
+    return match;
+  });
+}
+
+function collectTodos(components: ICalComponent[]): ICalComponent[] {
+  return components.flatMap((component) =>
+    component.type === "VTODO" ? [component] : collectTodos(component.components)
+  );
+}
+
+/** UIDs of the VTODOs that become or update a task; those without a summary are skipped. */
+function importedUids(todos: ICalComponent[]) {
+  return new Set(
+    todos
+      .filter((todo) => readText(todo, "SUMMARY")?.trim())
+      .map((todo) => readText(todo, "UID")?.trim())
+      .filter(Boolean)
+  );
+}
+
+export interface ICalendarImportContext {
+  projects: Project[];
+}
+
+/**
+ * Decides what importing an iCalendar file would do. UIDs become task ids:
+ * a VTODO whose UID is an existing task is merged into it when anything
+ * differs, and a UID seen earlier in the file is skipped.
+ */
+export function planICalendarImport(
+  text: string,
+  tasks: Task[],
+  { projects }: ICalendarImportContext,
+  now = new Date()
+): ImportPlan {
+  const components = parseICalendar(text);
+  const calendars = components.filter((component) => component.type === "VCALENDAR");
+  const zones = definedZones(calendars.flatMap((calendar) => calendar.components));
+  const todos = collectTodos(components);
+  const resolver = createProjectResolver(projects, now);
+  const existing = new Map(tasks.map((task) => [task.id, task]));
+  const uids = importedUids(todos);
+  const seen = new Set<string>();
+
+  const items = todos.map((todo): ImportItem => {
+    const read = (name: string) => readText(todo, name);
+    const title = read("SUMMARY")?.trim() ?? "";
+    const uid = read("UID")?.trim() || null;
+    const base = { line: todo.line, title: title || uid || "Untitled" };
+    if (!title) return { ...base, action: "skip", detail: "No summary" };
+    if (uid && seen.has(uid)) return { ...base, action: "skip", detail: "Repeats an earlier UID" };
+    if (uid) seen.add(uid);
+
+    const dateOf = (name: string) => {
+      const prop = findProperty(todo, name);
+      return prop ? parseDateValue(prop, zones) : null;
+    };
+    const due = dateOf("DUE");
+    const dueDate = due?.date.toISOString() ?? null;
+    const rrule = importRRule(
+      read("RRULE")?.trim().toUpperCase(),
+      read(ANCHOR_PROPERTY)?.trim().toUpperCase() === "COMPLETION"
+    );
+    const parent = findProperty(todo, "RELATED-TO");
+    const parentUid =
+      parent && (parent.params.RELTYPE ?? "PARENT").toUpperCase() === "PARENT"
+        ? unescapeText(parent.value).trim()
+        : null;
+    const projectName = read(PROJECT_PROPERTY);
+
+    const fields: TaskPatch = {
+      title,
+      notes: read("DESCRIPTION") ?? "",
+      status: importStatus(read("STATUS")),
+      priority: importPriority(read("PRIORITY")),
+      tags: [
+        ...new Set(
+          todo.properties
+            .filter((p) => p.name === "CATEGORIES")
+            .flatMap((p) => splitList(p.value))
+        ),
+      ],
+      dueDate,
+      recurrence: rrule,
+      // Subtasks of tasks that are neither imported nor in the workspace
+      // become top-level tasks.
+      parentId:
+        parentUid && parentUid !== uid && (uids.has(parentUid) || existing.has(parentUid))
+          ? parentUid
+          : null,
+      // Files from other apps don't name a project; merges then keep it.
+      ...(projectName !== undefined && { projectId: resolver.resolve(projectName) }),
+    };
+    const triggers = importTriggers(todo, due, zones);
+    const dates = {
+      createdAt: dateOf("CREATED")?.date.toISOString() ?? null,
+      completedAt: dateOf("COMPLETED")?.date.toISOString() ?? null,
+    };
+
+    const match = uid ? existing.get(uid) : undefined;
+    if (match) {
+      const patch = changedFields(match, {
+        ...fields,
+        reminders: reconcileReminders(match.reminders, triggers, dueDate),
+      });
+      if (Object.keys(patch).length === 0) {
+        return { ...base, action: "skip", detail: "Already up to date" };
+      }
+      return {
+        ...base,
+        action: "merge",
+        detail: describeChanges(patch),
+        task: mergeImportedTask(match, patch, dates, now),
+      };
+    }
+
+    const task = buildImportedTask(
+      { ...fields, title, reminders: triggers.map(buildReminder) },
+      dates,
+      now
+    );
+    return { ...base, action: "create", task: uid ? { ...task, id: uid } : task };
+  });
+
+  return { items, projects: resolver.created };
+}
+
+export interface SubscriptionUrls {
+  /** For apps that subscribe to plain web addresses. */
+  http: string;
+  /** Opens the subscribe prompt of the system calendar app. */
+  webcal: string;
+}
+
+/**
+ * Where a calendar app can subscribe to the feed once `fileName` is served
+ * from `baseUrl`, e.g. by a static file server. Subscriptions are read-only:
+ * changes made in the calendar app never come back. Null for addresses that
+ * aren't http(s).
+ */
+export function subscriptionUrls(baseUrl: string, fileName: string): SubscriptionUrls | null {
+  let url: URL;
+  try {
+    const base = baseUrl.trim();
+    url = new URL(encodeURIComponent(fileName), base.endsWith("/") ? base : `${base}/`);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  return { http: url.href, webcal: url.href.replace(/^https?:/, "webcal:") };
+}
@@ -0,0 +1,169 @@
+import { buildProject, PROJECT_COLORS } from "@/lib/projects";
+import { applyTaskPatch, buildTask } from "@/lib/tasks";
+import type { Project } from "@/types/project";
+import type { NewTask, Task, TaskPatch } from "@/types/task";
+
+export type ImportAction = "create" | "merge" | "skip";
+
+export const importActionLabels: Record<ImportAction, string> = {
+  create: "Create",
+  merge: "Merge",
+  skip: "Skip",
+};
+
+export interface ImportItem {
+  /** 1-based line of the source it came from, for the preview. */
+  line: number;
+  title: string;
+  action: ImportAction;
+  /** Why an item is skipped, or what a merge changes. */
+  detail?: string;
+  /** What gets written: a new task, or the merged version of an existing one. */
+  task?: Task;
+}
+
+export interface ImportPlan {
+  items: ImportItem[];
+  /** Projects referenced by the source that don't exist yet. */
+  projects: Project[];
+}
+
+export function countImportActions(plan: ImportPlan) {
+  const counts: Record<ImportAction, number> = { create: 0, merge: 0, skip: 0 };
+  plan.items.forEach((item) => (counts[item.action] += 1));
+  return counts;
+}
+
+function normalizeName(name: string) {
+  return name.trim().toLowerCase().replace(/[\s_]+/g, " ");
+}
+
+/**
+ * Looks projects up by name, case-insensitively and with `_` standing for a
+ * space, and builds any that are missing so imported tasks can point at them.
+ */
+export function createProjectResolver(existing: Project[], now = new Date()) {
+  const byName = new Map(existing.map((p) => [normalizeName(p.name), p]));
+  const created: Project[] = [];
+
+  const resolve = (name: string | null) => {
+    if (!name?.trim()) return null;
+    const key = normalizeName(name);
+    let project = byName.get(key);
+    if (!project) {
+      project = buildProject(
+        {
+          name: name.replace(/_/g, " "),
+          color: PROJECT_COLORS[(existing.length + created.length) % PROJECT_COLORS.length],
+          order: now.getTime() + created.length,
+        },
+        now
+      );
+      byName.set(key, project);
+      created.push(project);
+    }
+    return project.id;
+  };
+  return { resolve, created };
+}
+
+/** A file name for exported tasks, e.g. "Work stuff" and "csv" → `work-stuff.csv`. */
+export function exportFileName(name: string, extension: string) {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "tasks"}.${extension}`;
+}
+
+/** Identifies a task for duplicate detection: same title in the same project. */
+export function taskIdentity(task: Pick<Task, "title" | "projectId">) {
+  return `${task.projectId ?? ""}\n${task.title.trim().toLowerCase()}`;
+}
+
+const patchFieldLabels: Partial<Record<keyof TaskPatch, string>> = {
+  title: "title",
+  notes: "notes",
+  status: "status",
+  priority: "priority",
+  estimate: "estimate",
+  projectId: "project",
+  assignee: "assignee",
+  tags: "tags",
+  customFields: "fields",
+  recurrence: "repeat",
+  dueDate: "due date",
+  reminders: "reminders",
+  parentId: "parent",
+};
+
+/**
+ * The part of `patch` that would actually change `task`, so merges can tell
+ * an unchanged item from an update.
+ */
+export function changedFields(task: Task, patch: TaskPatch): TaskPatch {
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  return Object.fromEntries(
+    Object.entries(patch).filter(([key, value]) => {
+      const current = task[key as keyof Task];
+      if (key === "tags") {
+        return !same([...(value as string[])].sort(), [...(current as string[])].sort());
+      }
+      if (key === "dueDate" && value && current) {
+        return new Date(value as string).getTime() !== new Date(current as string).getTime();
+      }
+      return !same(value, current);
+    })
+  );
+}
+
+export function describeChanges(patch: TaskPatch) {
+  return `Updates ${Object.keys(patch)
+    .map((key) => patchFieldLabels[key as keyof TaskPatch] ?? key)
+    .join(", ")}`;
+}
+
+/** When the source says a task was created and completed, if it does. */
+export interface ImportedDates {
+  createdAt: string | null;
+  completedAt: string | null;
+}
+
+/**
+ * A new task as the source describes it, including a status history that
+ * starts at its original creation date rather than at the import.
+ */
+export function buildImportedTask(
+  input: NewTask,
+  { createdAt, completedAt }: ImportedDates,
+  now = new Date()
+): Task {
+  const status = input.status ?? "todo";
+  const task = buildTask({ ...input, status: "todo" }, createdAt ? new Date(createdAt) : now);
+  if (status === "todo") return task;
+
+  const completed = status === "done" ? (completedAt ?? now.toISOString()) : null;
+  return {
+    ...task,
+    status,
+    completedAt: completed,
+    statusHistory: [...task.statusHistory, { status, at: completed ?? task.createdAt }],
+  };
+}
+
+/** Applies an import's changes, completing the task when the source says it was. */
+export function mergeImportedTask(
+  task: Task,
+  patch: TaskPatch,
+  { completedAt }: Pick<ImportedDates, "completedAt">,
+  now = new Date()
+): Task {
+  const merged = applyTaskPatch(task, patch, now);
+  if (patch.status !== "done" || !completedAt) return merged;
+  return {
+    ...merged,
+    completedAt,
+    statusHistory: [...task.statusHistory, { status: "done", at: completedAt }],
+  };
+}
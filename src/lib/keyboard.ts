@@ -0,0 +1,59 @@
+export const isMac =
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const keyLabels: Record<string, string> = {
+  mod: isMac ? "⌘" : "Ctrl",
+  ctrl: "⌃",
+  shift: isMac ? "⇧" : "Shift",
+  alt: isMac ? "⌥" : "Alt",
+  enter: "↵",
+  escape: "Esc",
+  space: "Space",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+};
+
+const MODIFIER_KEYS = ["shift", "control", "meta", "alt"];
+
+function formatChord(chord: string) {
+  const keys = chord.split("+").map((key) => keyLabels[key] ?? key.toUpperCase());
+  return keys.join(isMac ? "" : "+");
+}
+
+/**
+ * Shortcuts are written as `+`-joined chords with modifiers first, e.g.
+ * `mod+k` or `shift+t`, and sequences separate chords with spaces (`g t`);
+ * `mod` is ⌘ on Apple platforms and Ctrl elsewhere, and `ctrl` is the
+ * Control key on Apple platforms, so ⌃K doesn't trigger `mod+k`.
+ */
+export function formatShortcut(shortcut: string) {
+  return shortcut.split(" ").map(formatChord).join(" ");
+}
+
+/**
+ * Turns a key press into the chord notation above, or null for a bare
+ * modifier. Shift is left out for symbols it produces (`?` rather than
+ * `shift+/`) so bindings can be written the way they are typed.
+ */
+export function eventToChord(event: KeyboardEvent) {
+  const key = event.key === " " ? "space" : event.key.toLowerCase();
+  if (MODIFIER_KEYS.includes(key)) return null;
+
+  const parts: string[] = [];
+  if (isMac ? event.metaKey : event.ctrlKey) parts.push("mod");
+  if (isMac && event.ctrlKey) parts.push("ctrl");
+  if (event.altKey) parts.push("alt");
+  if (event.shiftKey && (key.length > 1 || /[a-z0-9]/.test(key))) parts.push("shift");
+  return [...parts, key].join("+");
+}
+
+/** Whether a key press is going into a text field rather than the app. */
+export function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { exportMarkdown, parseMarkdownChecklist, planMarkdownImport } from "./markdown";
+import { buildProject } from "./projects";
+import { buildTask } from "./tasks";
+
+const now = new Date(2026, 9, 19, 9, 0);
+
+const home = buildProject({ name: "Home" }, now);
+const trip = buildTask(
+  {
+    title: "Plan trip",
+    projectId: home.id,
+    dueDate: new Date(2026, 9, 30, 14, 30).toISOString(),
+    tags: ["travel", "family"],
+    order: 1,
+  },
+  now
+);
+const tasks = [
+  trip,
+  buildTask({ title: "Book hotel", status: "done", projectId: home.id, parentId: trip.id }, now),
+  buildTask(
+    { title: "Renew #2 passport", dueDate: new Date(2026, 10, 2).toISOString(), order: 2 },
+    now
+  ),
+];
+
+describe("parseMarkdownChecklist", () => {
+  it("reads back the items exportMarkdown writes", () => {
+    const text = exportMarkdown(tasks, { projects: [home] });
+    expect(text).toBe(
+      "## Home\n\n" +
+        "- [ ] Plan trip (due 2026-10-30 14:30) #travel #family\n" +
+        "  - [x] Book hotel\n" +
+        "\n## Inbox\n\n" +
+        "- [ ] Renew #2 passport (due 2026-11-02)\n"
+    );
+
+    expect(parseMarkdownChecklist(text)).toEqual([
+      {
+        line: 3,
+        parent: null,
+        depth: 0,
+        title: "Plan trip",
+        done: false,
+        dueDate: trip.dueDate,
+        tags: ["travel", "family"],
+        heading: "Home",
+      },
+      {
+        line: 4,
+        parent: 0,
+        depth: 1,
+        title: "Book hotel",
+        done: true,
+        dueDate: null,
+        tags: [],
+        heading: "Home",
+      },
+      {
+        line: 8,
+        parent: null,
+        depth: 0,
+        title: "Renew #2 passport",
+        done: false,
+        dueDate: tasks[2].dueDate,
+        tags: [],
+        heading: "Inbox",
+      },
+    ]);
+  });
+});
+
+describe("planMarkdownImport", () => {
+  it("creates exported tasks with their nesting and skips them in their own workspace", () => {
+    const text = exportMarkdown(tasks, { projects: [home] });
+    const context = { projects: [home] };
+
+    const plan = planMarkdownImport(text, [], context, now);
+    expect(plan.projects).toEqual([]);
+    const [parent, child, inbox] = plan.items.map((item) => item.task);
+    expect(parent).toMatchObject({ title: "Plan trip", projectId: home.id, parentId: null });
+    expect(child).toMatchObject({ title: "Book hotel", status: "done", parentId: parent.id });
+    expect(inbox).toMatchObject({ title: "Renew #2 passport", projectId: null });
+
+    expect(planMarkdownImport(text, tasks, context, now).items.map((item) => item.action)).toEqual(
+      ["skip", "skip", "skip"]
+    );
+  });
+});
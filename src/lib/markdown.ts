@@ -0,0 +1,261 @@
+import { format, isValid, parse } from "date-fns";
+
+import { hasTimeOfDay } from "@/lib/calendar";
+import {
+  buildImportedTask,
+  changedFields,
+  createProjectResolver,
+  describeChanges,
+  mergeImportedTask,
+  taskIdentity,
+  type ImportItem,
+  type ImportPlan,
+} from "@/lib/import";
+import { nestTasks } from "@/lib/tasks";
+import type { Project } from "@/types/project";
+import type { Task, TaskPatch } from "@/types/task";
+
+/**
+ * Checklists are GitHub-flavored Markdown task lists:
+ *
+ * ```
+ * ## Work
+ * - [ ] Ship the release (due 2026-10-05 14:30) #launch
+ *   - [x] Write release notes
+ * ```
+ *
+ * Indentation nests subtasks under the item above. `## Project` headings
+ * name the project of the items below them. Plain lines and bullets without
+ * a checkbox are read as open tasks, so pasted outlines work too.
+ */
+
+const DATE_FORMAT = "yyyy-MM-dd";
+const TIME_FORMAT = "HH:mm";
+const INDENT = "  ";
+/** Projectless tasks are exported under this heading. */
+const INBOX_HEADING = "Inbox";
+
+export interface MarkdownItem {
+  /** 1-based line it was read from. */
+  line: number;
+  /** Index of the parent item in the same list, or null at the top level. */
+  parent: number | null;
+  depth: number;
+  title: string;
+  done: boolean;
+  dueDate: string | null;
+  tags: string[];
+  /** The nearest heading above the item, if any. */
+  heading: string | null;
+}
+
+function indentWidth(whitespace: string) {
+  return whitespace.replace(/\t/g, "    ").length;
+}
+
+function parseDue(day: string, time: string | undefined) {
+  const date = time
+    ? parse(`${day} ${time}`, `${DATE_FORMAT} ${TIME_FORMAT}`, new Date())
+    : parse(day, DATE_FORMAT, new Date());
+  return isValid(date) ? date.toISOString() : null;
+}
+
+/** Splits the due date and trailing `#tags` off an item's text. */
+function parseAnnotations(text: string) {
+  let title = text;
+  let dueDate: string | null = null;
+  // "(due 2026-10-05)" as exported here, or "📅 2026-10-05" as other apps write it.
+  const due = /\s*(?:\(due (\d{4}-\d{2}-\d{2})(?: (\d{2}:\d{2}))?\)|📅\s*(\d{4}-\d{2}-\d{2}))/u.exec(
+    title
+  );
+  if (due) {
+    dueDate = parseDue(due[1] ?? due[3], due[2]);
+    if (dueDate) title = title.slice(0, due.index) + title.slice(due.index + due[0].length);
+  }
+
+  const tags: string[] = [];
+  let tag: RegExpExecArray | null;
+  while ((tag = /(?:^|\s+)#(\p{L}[\p{L}\p{N}_-]*)\s*$/u.exec(title))) {
+    tags.unshift(tag[1]);
+    title = title.slice(0, tag.index);
+  }
+  return { title: title.trim(), dueDate, tags: [...new Set(tags)] };
+}
+
+/** Reads every item of a checklist or outline, parents before their subtasks. */
+export function parseMarkdownChecklist(text: string): MarkdownItem[] {
+  const items: MarkdownItem[] = [];
+  // Open items with the indentation of their text, innermost last.
+  const stack: { indent: number; index: number }[] = [];
+  let heading: string | null = null;
+  let fenced = false;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+    if (fenced || /^\s*(```|~~~)/.test(line) || !line.trim()) return;
+
+    const headingMatch = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/.exec(line);
+    if (headingMatch) {
+      heading = headingMatch[1] || null;
+      stack.length = 0;
+      return;
+    }
+
+    const item = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s*)?(.*)$/.exec(line);
+    const [, whitespace, check, content] = item ?? [null, /^\s*/.exec(line)[0], undefined, line];
+    const indent = indentWidth(whitespace);
+    const { title, dueDate, tags } = parseAnnotations(content.trim());
+    if (!title && !check) return;
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack.length > 0 ? stack[stack.length - 1].index : null;
+    stack.push({ indent, index: items.length });
+    items.push({
+      line: index + 1,
+      parent,
+      depth: stack.length - 1,
+      title,
+      done: check === "x" || check === "X",
+      dueDate,
+      tags,
+      heading,
+    });
+  });
+  return items;
+}
+
+export function formatMarkdownItem(task: Task) {
+  const parts = [`- [${task.status === "done" ? "x" : " "}]`, task.title];
+  if (task.dueDate) {
+    const pattern = hasTimeOfDay(task.dueDate) ? `${DATE_FORMAT} ${TIME_FORMAT}` : DATE_FORMAT;
+    parts.push(`(due ${format(new Date(task.dueDate), pattern)})`);
+  }
+  task.tags.forEach((tag) => parts.push(`#${tag.replace(/\s+/g, "-")}`));
+  return parts.join(" ");
+}
+
+export interface MarkdownExportOptions {
+  projects: Project[];
+  /** Adds a `## Project` heading above each project's tasks; on by default. */
+  headings?: boolean;
+}
+
+/**
+ * A nested task list of `tasks`, in their given order, with subtasks
+ * indented under their parents and grouped by the top-level task's project.
+ */
+export function exportMarkdown(
+  tasks: Task[],
+  { projects, headings = true }: MarkdownExportOptions
+) {
+  const groups = new Map<string | null, string[]>();
+  let rootProject: string | null = null;
+  nestTasks(tasks).forEach(({ task, depth }) => {
+    if (depth === 0) rootProject = task.projectId;
+    const key = headings ? rootProject : null;
+    groups.set(key, [
+      ...(groups.get(key) ?? []),
+      `${INDENT.repeat(depth)}${formatMarkdownItem(task)}`,
+    ]);
+  });
+  if (!headings) return `${(groups.get(null) ?? []).join("\n")}\n`;
+
+  // Projects in sidebar order, the Inbox last.
+  const name = (id: string | null) =>
+    projects.find((project) => project.id === id)?.name ?? INBOX_HEADING;
+  const keys = [...groups.keys()].sort((a, b) => {
+    const position = (id: string | null) => {
+      const index = projects.findIndex((project) => project.id === id);
+      return index === -1 ? projects.length : index;
+    };
+    return position(a) - position(b);
+  });
+  return keys.map((key) => `## ${name(key)}\n\n${groups.get(key).join("\n")}\n`).join("\n");
+}
+
+export interface MarkdownImportContext {
+  projects: Project[];
+}
+
+/**
+ * Decides what importing a checklist would do. An item matching an existing
+ * task with the same title, project and parent updates its completion, due
+ * date and tags, so importing an export again changes nothing.
+ */
+export function planMarkdownImport(
+  text: string,
+  tasks: Task[],
+  { projects }: MarkdownImportContext,
+  now = new Date()
+): ImportPlan {
+  const resolver = createProjectResolver(projects, now);
+  const hasInbox = projects.some((project) => project.name.trim().toLowerCase() === "inbox");
+  const siblingKey = (parentId: string | null, task: Pick<Task, "title" | "projectId">) =>
+    `${parentId ?? ""}\n${taskIdentity(task)}`;
+  const existing = new Map<string, Task>();
+  tasks.forEach((task) => {
+    const key = siblingKey(task.parentId, task);
+    if (!existing.has(key)) existing.set(key, task);
+  });
+
+  const items = parseMarkdownChecklist(text);
+  // What each item became, so subtasks can point at it; null when skipped.
+  const ids: (string | null)[] = [];
+  const seen = new Set<string>();
+
+  const planned = items.map((item, index): ImportItem => {
+    const base = { line: item.line, title: item.title || "Untitled" };
+    ids.push(null);
+    if (!item.title) return { ...base, action: "skip", detail: "No task text" };
+
+    const projectId =
+      !item.heading || (!hasInbox && item.heading.trim().toLowerCase() === "inbox")
+        ? null
+        : resolver.resolve(item.heading);
+    const parentId = item.parent === null ? null : ids[item.parent];
+    if (item.parent !== null && parentId === null) {
+      return { ...base, action: "skip", detail: "Its parent is skipped" };
+    }
+    const key = siblingKey(parentId, { title: item.title, projectId });
+    if (seen.has(key)) return { ...base, action: "skip", detail: "Repeats an earlier line" };
+    seen.add(key);
+
+    const match = existing.get(key);
+    if (match) {
+      ids[index] = match.id;
+      const fields: TaskPatch = {
+        status: item.done ? "done" : match.status === "done" ? "todo" : match.status,
+        dueDate: item.dueDate,
+        tags: item.tags,
+      };
+      const patch = changedFields(match, fields);
+      if (Object.keys(patch).length === 0) {
+        return { ...base, action: "skip", detail: "Already up to date" };
+      }
+      return {
+        ...base,
+        action: "merge",
+        detail: describeChanges(patch),
+        task: mergeImportedTask(match, patch, { completedAt: null }, now),
+      };
+    }
+
+    // Steps of a millisecond keep the list's order among otherwise equal tasks.
+    const task = buildImportedTask(
+      {
+        title: item.title,
+        status: item.done ? "done" : "todo",
+        dueDate: item.dueDate,
+        tags: item.tags,
+        projectId,
+        parentId,
+      },
+      { createdAt: new Date(now.getTime() + index).toISOString(), completedAt: null },
+      now
+    );
+    ids[index] = task.id;
+    return { ...base, action: "create", task };
+  });
+
+  return { items: planned, projects: resolver.created };
+}
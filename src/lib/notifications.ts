@@ -0,0 +1,50 @@
+import { subDays } from "date-fns";
+
+import type { AppNotification, NewNotification } from "@/types/notification";
+import type { Task } from "@/types/task";
+
+/** History is capped by count and by age, whichever is hit first. */
+export const MAX_NOTIFICATIONS = 200;
+export const MAX_NOTIFICATION_AGE_DAYS = 30;
+
+export function buildNotification(
+  input: NewNotification,
+  now = new Date()
+): AppNotification {
+  return {
+    id: crypto.randomUUID(),
+    kind: input.kind,
+    title: input.title,
+    description: input.description ?? null,
+    taskId: input.taskId ?? null,
+    reminderId: input.reminderId ?? null,
+    read: false,
+    createdAt: now.toISOString(),
+  };
+}
+
+/** Sorts newest first and splits off what falls outside the caps. */
+export function pruneNotifications(
+  notifications: AppNotification[],
+  now = new Date()
+) {
+  const cutoff = subDays(now, MAX_NOTIFICATION_AGE_DAYS).toISOString();
+  const sorted = [...notifications].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+  const kept = sorted
+    .filter((notification) => notification.createdAt >= cutoff)
+    .slice(0, MAX_NOTIFICATIONS);
+  const keptIds = new Set(kept.map((notification) => notification.id));
+
+  return {
+    kept,
+    removed: sorted.filter((notification) => !keptIds.has(notification.id)),
+  };
+}
+
+/** Where a notification about `task` should take the user. */
+export function taskLink(task: Pick<Task, "id" | "projectId">) {
+  const base = task.projectId ? `/projects/${task.projectId}` : "/";
+  return `${base}?task=${task.id}`;
+}
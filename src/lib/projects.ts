@@ -0,0 +1,86 @@
+import type {
+  NewProject,
+  Project,
+  ProjectNode,
+  ProjectPatch,
+  ProjectSection,
+} from "@/types/project";
+
+export const PROJECT_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+export function buildProject(input: NewProject, now = new Date()): Project {
+  const timestamp = now.toISOString();
+
+  return {
+    id: crypto.randomUUID(),
+    name: input.name.trim(),
+    color: input.color ?? PROJECT_COLORS[0],
+    parentId: input.parentId ?? null,
+    order: input.order ?? now.getTime(),
+    archived: false,
+    sections: [],
+    columns: input.columns ?? null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+export function applyProjectPatch(
+  project: Project,
+  patch: ProjectPatch,
+  now = new Date()
+): Project {
+  return { ...project, ...patch, updatedAt: now.toISOString() };
+}
+
+export function buildSection(name: string, order = Date.now()): ProjectSection {
+  return { id: crypto.randomUUID(), name: name.trim(), order };
+}
+
+export function sortedSections(project: Project) {
+  return [...project.sections].sort((a, b) => a.order - b.order);
+}
+
+const byOrder = (a: Project, b: Project) =>
+  a.order - b.order || a.name.localeCompare(b.name);
+
+/**
+ * Nests projects under their parents. Projects whose parent is missing or
+ * filtered out are promoted to the top level rather than hidden.
+ */
+export function buildProjectTree(projects: Project[]): ProjectNode[] {
+  const ids = new Set(projects.map((p) => p.id));
+  const childrenOf = (parentId: string | null): ProjectNode[] =>
+    projects
+      .filter((p) =>
+        parentId === null
+          ? !p.parentId || !ids.has(p.parentId)
+          : p.parentId === parentId
+      )
+      .sort(byOrder)
+      .map((project) => ({ project, children: childrenOf(project.id) }));
+
+  return childrenOf(null);
+}
+
+export function getSiblings(projects: Project[], project: Project) {
+  return projects
+    .filter((p) => p.parentId === project.parentId && p.archived === project.archived)
+    .sort(byOrder);
+}
+
+/** Ids of every project nested under `id`, at any depth. */
+export function getDescendantIds(projects: Project[], id: string): string[] {
+  return projects
+    .filter((p) => p.parentId === id)
+    .flatMap((p) => [p.id, ...getDescendantIds(projects, p.id)]);
+}
@@ -0,0 +1,15 @@
+import { QueryClient } from "@tanstack/react-query";
+
+/**
+ * All data is local, so the cache is the source of truth once loaded: writes
+ * update it optimistically and are persisted in the background.
+ */
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: Infinity,
+      refetchOnWindowFocus: false,
+      retry: false,
+    },
+  },
+});
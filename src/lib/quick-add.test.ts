@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import { parseQuickAdd } from "./quick-add";
+
+// Wednesday, October 21, 2026, 10:00 local time.
+const now = new Date(2026, 9, 21, 10, 0);
+
+const parse = (input: string, projects?: string[]) => parseQuickAdd(input, { now, projects });
+
+describe("parseQuickAdd", () => {
+  it("keeps the title apart from the parsed tokens", () => {
+    const result = parse("Call mom tomorrow 3pm #family !high");
+    expect(result.title).toBe("Call mom");
+    expect(result.dueDate).toEqual(new Date(2026, 9, 22, 15, 0));
+    expect(result.hasTime).toBe(true);
+    expect(result.tags).toEqual(["family"]);
+    expect(result.priority).toBe("high");
+  });
+
+  it("leaves plain text alone", () => {
+    const result = parse("Buy milk");
+    expect(result.title).toBe("Buy milk");
+    expect(result.dueDate).toBeNull();
+    expect(result.tokens).toEqual([]);
+  });
+
+  it("resolves a weekday to its next occurrence, today included", () => {
+    expect(parse("Report friday").dueDate).toEqual(new Date(2026, 9, 23));
+    expect(parse("Report wednesday").dueDate).toEqual(new Date(2026, 9, 21));
+    expect(parse("Report friday").hasTime).toBe(false);
+  });
+
+  it("resolves next <weekday> to that day in the following week", () => {
+    expect(parse("Report next friday").dueDate).toEqual(new Date(2026, 9, 30));
+    expect(parse("Report next wednesday").dueDate).toEqual(new Date(2026, 9, 28));
+    expect(parse("Report next sunday").dueDate).toEqual(new Date(2026, 9, 25));
+  });
+
+  it("picks a known project instead of a tag", () => {
+    const result = parse("Draft post #blog #ideas", ["Blog"]);
+    expect(result.project).toBe("Blog");
+    expect(result.tags).toEqual(["ideas"]);
+  });
+
+  it("turns repeat phrases into RRULEs", () => {
+    const result = parse("Stand-up every monday 9:30");
+    expect(result.title).toBe("Stand-up");
+    expect(result.recurrence).toBe("FREQ=WEEKLY;BYDAY=MO");
+    expect(result.hasTime).toBe(true);
+  });
+
+  it("leaves weekday abbreviations alone unless a modifier comes first", () => {
+    const cream = parse("Buy sun cream");
+    expect(cream.title).toBe("Buy sun cream");
+    expect(cream.dueDate).toBeNull();
+
+    const onSun = parse("Buy sun cream on sun");
+    expect(onSun.title).toBe("Buy sun cream");
+    expect(onSun.dueDate).toEqual(new Date(2026, 9, 25));
+    expect(parse("Call next fri").dueDate).toEqual(new Date(2026, 9, 30));
+    expect(parse("Gym every mon and thu").recurrence).toBe("FREQ=WEEKLY;BYDAY=MO,TH");
+  });
+
+  it("only reads frequency words as a repeat after a modifier", () => {
+    const report = parse("Write daily report");
+    expect(report.title).toBe("Write daily report");
+    expect(report.recurrence).toBeNull();
+
+    const repeated = parse("Water plants repeat weekly");
+    expect(repeated.title).toBe("Water plants");
+    expect(repeated.recurrence).toBe("FREQ=WEEKLY");
+    expect(parse("Stretch every day").recurrence).toBe("FREQ=DAILY");
+  });
+
+  it("takes the date typed first when there are several", () => {
+    const result = parse("Report next week eod");
+    expect(result.dueDate).toEqual(new Date(2026, 9, 25));
+    expect(result.title).toBe("Report eod");
+    expect(parse("Report tomorrow or friday").dueDate).toEqual(new Date(2026, 9, 22));
+  });
+});
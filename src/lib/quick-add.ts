@@ -0,0 +1,547 @@
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  addYears,
+  isBefore,
+  nextDay,
+  set,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  type Day,
+  type Locale,
+} from "date-fns";
+import { enUS } from "date-fns/locale";
+
+import type { TaskPriority } from "@/types/task";
+
+export type QuickAddTokenKind =
+  | "date"
+  | "time"
+  | "recurrence"
+  | "priority"
+  | "tag"
+  | "project"
+  | "assignee";
+
+export interface QuickAddToken {
+  kind: QuickAddTokenKind;
+  /** The matched slice of the input, as typed. */
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface QuickAddResult {
+  title: string;
+  dueDate: Date | null;
+  /** Whether `dueDate` carries a meaningful time of day. */
+  hasTime: boolean;
+  /** RFC 5545 RRULE body, e.g. `FREQ=MONTHLY;BYMONTHDAY=1`. */
+  recurrence: string | null;
+  priority: TaskPriority | null;
+  tags: string[];
+  project: string | null;
+  assignee: string | null;
+  tokens: QuickAddToken[];
+}
+
+export interface QuickAddOptions {
+  now?: Date;
+  locale?: Locale;
+  /** Known project names; a matching `#name` selects the project instead of a tag. */
+  projects?: string[];
+}
+
+interface Draft {
+  date: Date | null;
+  time: { hours: number; minutes: number } | null;
+  recurrence: string | null;
+  priority: TaskPriority | null;
+  tags: string[];
+  project: string | null;
+  assignee: string | null;
+}
+
+interface Context {
+  now: Date;
+  weekStartsOn: Day;
+  weekdays: Map<string, Day>;
+  /** Weekday names that are a date on their own; abbreviations need "on", "next" or "every". */
+  fullWeekdays: Map<string, Day>;
+  months: Map<string, number>;
+  projects: Map<string, string>;
+}
+
+interface Matcher {
+  kind: QuickAddTokenKind;
+  pattern: RegExp;
+  /** Returns the token kind to record, or false to leave the text alone. */
+  apply: (
+    match: RegExpExecArray,
+    draft: Draft,
+    ctx: Context
+  ) => QuickAddTokenKind | false;
+}
+
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const ENGLISH_WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const ENGLISH_MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  "1st": 1,
+  second: 2,
+  "2nd": 2,
+  third: 3,
+  "3rd": 3,
+  fourth: 4,
+  "4th": 4,
+  last: -1,
+};
+
+const PRIORITIES: Record<string, TaskPriority> = {
+  urgent: "urgent",
+  p1: "urgent",
+  "1": "urgent",
+  high: "high",
+  p2: "high",
+  "2": "high",
+  medium: "medium",
+  med: "medium",
+  p3: "medium",
+  "3": "medium",
+  low: "low",
+  p4: "low",
+  "4": "low",
+};
+
+const UNITS: Record<string, "minutes" | "hours" | "days" | "weeks" | "months" | "years"> = {
+  min: "minutes",
+  minute: "minutes",
+  hr: "hours",
+  hour: "hours",
+  day: "days",
+  week: "weeks",
+  month: "months",
+  year: "years",
+};
+
+const END_OF_DAY = { hours: 17, minutes: 0 };
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Localized names first, English always understood as a fallback. */
+function buildNameMap(
+  count: number,
+  localize: (index: number, width: "wide" | "abbreviated") => string,
+  english: string[],
+  abbreviations = true
+) {
+  const names = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    const forms = abbreviations
+      ? [localize(i, "wide"), localize(i, "abbreviated"), english[i], english[i].slice(0, 3)]
+      : [localize(i, "wide"), english[i]];
+    forms
+      .map((name) => name.toLowerCase().replace(/\.$/, ""))
+      .forEach((name) => names.has(name) || names.set(name, i));
+  }
+  return names;
+}
+
+function alternation(names: Map<string, number>) {
+  return [...names.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+}
+
+/** Anchors a pattern to whole words, allowing trailing punctuation. */
+function word(source: string) {
+  return new RegExp(`(?<=^|\\s)(?:${source})(?=$|[\\s.,;!?])`, "giu");
+}
+
+function upcomingWeekday(now: Date, day: Day) {
+  if (now.getDay() === day) return startOfDay(now);
+  return startOfDay(nextDay(now, day));
+}
+
+/** The given weekday in the week after this one, as "next week" starts it. */
+function weekdayNextWeek(now: Date, day: Day, weekStartsOn: Day) {
+  const start = addWeeks(startOfWeek(now, { weekStartsOn }), 1);
+  return addDays(start, (day - weekStartsOn + 7) % 7);
+}
+
+function upcomingDate(now: Date, month: number, date: number) {
+  const candidate = new Date(now.getFullYear(), month, date);
+  return isBefore(candidate, startOfDay(now)) ? addYears(candidate, 1) : candidate;
+}
+
+function parseAmount(value: string) {
+  return value === "a" || value === "an" ? 1 : Number(value);
+}
+
+function buildMatchers(ctx: Context): Matcher[] {
+  const weekday = alternation(ctx.weekdays);
+  const fullWeekday = alternation(ctx.fullWeekdays);
+  const month = alternation(ctx.months);
+  const ordinal = Object.keys(ORDINALS).join("|");
+  const dayOf = (name: string) => ctx.weekdays.get(name.toLowerCase())!;
+
+  return [
+    // Recurrence comes first so "every monday" is not read as a due date, and
+    // times before dates so "eod 3pm" keeps the explicit time.
+    {
+      kind: "recurrence",
+      pattern: word(`(?:every )?(\\d+|an?) (day|week|month|year)s? after completion`),
+      apply: ([, amount, unit], draft) => {
+        const freq = { day: "DAILY", week: "WEEKLY", month: "MONTHLY", year: "YEARLY" }[
+          unit.toLowerCase()
+        ];
+        const interval = parseAmount(amount.toLowerCase());
+        draft.recurrence = `FREQ=${freq};INTERVAL=${interval};X-ANCHOR=COMPLETION`;
+        return "recurrence";
+      },
+    },
+    {
+      kind: "recurrence",
+      pattern: word(
+        `every (other )?(day|weekday|week|month|year)(?: on the (\\d{1,2})(?:st|nd|rd|th))?`
+      ),
+      apply: ([, other, unit, monthDay], draft) => {
+        const interval = other ? ";INTERVAL=2" : "";
+        const unitLower = unit.toLowerCase();
+        if (unitLower === "weekday") {
+          draft.recurrence = "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR";
+        } else {
+          const freq = { day: "DAILY", week: "WEEKLY", month: "MONTHLY", year: "YEARLY" }[
+            unitLower
+          ];
+          const byMonthDay =
+            monthDay && unitLower === "month" ? `;BYMONTHDAY=${Number(monthDay)}` : "";
+          draft.recurrence = `FREQ=${freq}${interval}${byMonthDay}`;
+        }
+        return "recurrence";
+      },
+    },
+    {
+      kind: "recurrence",
+      pattern: word(`every (\\d+) (day|week|month|year)s?`),
+      apply: ([, amount, unit], draft) => {
+        const freq = { day: "DAILY", week: "WEEKLY", month: "MONTHLY", year: "YEARLY" }[
+          unit.toLowerCase()
+        ];
+        draft.recurrence = `FREQ=${freq};INTERVAL=${Number(amount)}`;
+        return "recurrence";
+      },
+    },
+    {
+      kind: "recurrence",
+      pattern: word(`every (${ordinal}) (${weekday})`),
+      apply: ([, nth, day], draft) => {
+        draft.recurrence = `FREQ=MONTHLY;BYDAY=${ORDINALS[nth.toLowerCase()]}${RRULE_DAYS[dayOf(day)]}`;
+        return "recurrence";
+      },
+    },
+    {
+      kind: "recurrence",
+      pattern: word(`every ((?:${weekday})(?:(?:,\\s*|,? and |\\s+)(?:${weekday}))*)`),
+      apply: ([, days], draft) => {
+        const codes = days
+          .split(/,\s*|,? and |\s+/i)
+          .filter(Boolean)
+          .map((day) => RRULE_DAYS[dayOf(day)]);
+        draft.recurrence = `FREQ=WEEKLY;BYDAY=${[...new Set(codes)].join(",")}`;
+        return "recurrence";
+      },
+    },
+    {
+      kind: "recurrence",
+      // Bare, these are too common in titles ("Write daily report").
+      pattern: word(`(?:repeats?|repeating) (daily|weekly|monthly|yearly|annually)`),
+      apply: ([, text], draft) => {
+        const freq = text.toLowerCase() === "annually" ? "YEARLY" : text.toUpperCase();
+        draft.recurrence = `FREQ=${freq}`;
+        return "recurrence";
+      },
+    },
+    {
+      kind: "priority",
+      pattern: word(`!(urgent|high|medium|med|low|p?[1-4])`),
+      apply: ([, level], draft) => {
+        draft.priority = PRIORITIES[level.toLowerCase()];
+        return "priority";
+      },
+    },
+    {
+      kind: "tag",
+      pattern: word(`#([\\p{L}\\p{N}_-]+)`),
+      apply: ([, name], draft, { projects }) => {
+        const project = projects.get(name.toLowerCase());
+        if (project && !draft.project) {
+          draft.project = project;
+          return "project";
+        }
+        if (!draft.tags.includes(name)) draft.tags.push(name);
+        return "tag";
+      },
+    },
+    {
+      kind: "assignee",
+      pattern: word(`@([\\p{L}\\p{N}_.-]*[\\p{L}\\p{N}_-])`),
+      apply: ([, name], draft) => {
+        draft.assignee = name;
+        return "assignee";
+      },
+    },
+    {
+      kind: "time",
+      pattern: word(`(?:at )?(noon|midnight)`),
+      apply: ([, name], draft) => {
+        draft.time = { hours: name.toLowerCase() === "noon" ? 12 : 0, minutes: 0 };
+        return "time";
+      },
+    },
+    {
+      kind: "time",
+      pattern: word(`(?:at )?(\\d{1,2})(?::(\\d{2}))?\\s?(am|pm)`),
+      apply: ([, hours, minutes, period], draft) => {
+        const h = Number(hours);
+        if (h < 1 || h > 12) return false;
+        const pm = period.toLowerCase() === "pm";
+        draft.time = { hours: (h % 12) + (pm ? 12 : 0), minutes: Number(minutes ?? 0) };
+        return "time";
+      },
+    },
+    {
+      kind: "time",
+      pattern: word(`(?:at )?([01]?\\d|2[0-3]):([0-5]\\d)`),
+      apply: ([, hours, minutes], draft) => {
+        draft.time = { hours: Number(hours), minutes: Number(minutes) };
+        return "time";
+      },
+    },
+    {
+      kind: "date",
+      pattern: word(`today|tod|tonight|tomorrow|tmrw|tmr|eod|eow`),
+      apply: ([text], draft, { now }) => {
+        const key = text.toLowerCase();
+        const today = startOfDay(now);
+        if (key === "tonight") {
+          draft.date = today;
+          draft.time ??= { hours: 20, minutes: 0 };
+        } else if (key === "eod") {
+          draft.date = today;
+          draft.time ??= END_OF_DAY;
+        } else if (key === "eow") {
+          draft.date = upcomingWeekday(now, 5);
+          draft.time ??= END_OF_DAY;
+        } else {
+          draft.date = key.startsWith("to") && key !== "tomorrow" ? today : addDays(today, 1);
+        }
+        return "date";
+      },
+    },
+    {
+      kind: "date",
+      pattern: word(`in (\\d+|an?) (min|minute|hr|hour|day|week|month|year)s?`),
+      apply: ([, amount, unit], draft, { now }) => {
+        const n = parseAmount(amount.toLowerCase());
+        const kind = UNITS[unit.toLowerCase()];
+        if (kind === "minutes" || kind === "hours") {
+          const at = kind === "minutes" ? addMinutes(now, n) : addHours(now, n);
+          draft.date = startOfDay(at);
+          draft.time = { hours: at.getHours(), minutes: at.getMinutes() };
+          return "date";
+        }
+        const add = { days: addDays, weeks: addWeeks, months: addMonths, years: addYears }[kind];
+        draft.date = add(startOfDay(now), n);
+        return "date";
+      },
+    },
+    {
+      kind: "date",
+      pattern: word(`next (week|month|year)`),
+      apply: ([, unit], draft, { now, weekStartsOn }) => {
+        const key = unit.toLowerCase();
+        draft.date =
+          key === "week"
+            ? addWeeks(startOfWeek(now, { weekStartsOn }), 1)
+            : key === "month"
+              ? addMonths(startOfMonth(now), 1)
+              : addYears(startOfYear(now), 1);
+        return "date";
+      },
+    },
+    {
+      kind: "date",
+      // "sun" or "wed" alone is more likely a word than a date.
+      pattern: word(`(next|this|on) (${weekday})|(${fullWeekday})`),
+      apply: ([, modifier, day, bareDay], draft, { now, weekStartsOn }) => {
+        draft.date =
+          modifier?.toLowerCase() === "next"
+            ? weekdayNextWeek(now, dayOf(day), weekStartsOn)
+            : upcomingWeekday(now, dayOf(day ?? bareDay));
+        return "date";
+      },
+    },
+    {
+      kind: "date",
+      pattern: word(`(?:on )?(${month}) (\\d{1,2})(?:st|nd|rd|th)?`),
+      apply: ([, name, date], draft, { now, months }) => {
+        draft.date = upcomingDate(now, months.get(name.toLowerCase())!, Number(date));
+        return "date";
+      },
+    },
+    {
+      kind: "date",
+      pattern: word(`(?:on )?(?:the )?(\\d{1,2})(?:st|nd|rd|th)? (?:of )?(${month})`),
+      apply: ([, date, name], draft, { now, months }) => {
+        draft.date = upcomingDate(now, months.get(name.toLowerCase())!, Number(date));
+        return "date";
+      },
+    },
+    {
+      kind: "date",
+      pattern: word(`(\\d{4})-(\\d{2})-(\\d{2})`),
+      apply: ([, year, monthIndex, date], draft) => {
+        draft.date = new Date(Number(year), Number(monthIndex) - 1, Number(date));
+        return "date";
+      },
+    },
+  ];
+}
+
+function resolveDueDate(draft: Draft, now: Date) {
+  if (!draft.date && !draft.time) return null;
+
+  let due = draft.date ?? startOfDay(now);
+  if (draft.time) {
+    due = set(due, { ...draft.time, seconds: 0, milliseconds: 0 });
+    // A bare time that has already passed today means tomorrow.
+    if (!draft.date && isBefore(due, now)) due = addDays(due, 1);
+  }
+  return due;
+}
+
+/**
+ * Pulls dates, recurrence, priority, tags, project and assignee out of a
+ * quick-add title. Recognized text is removed from the title and reported
+ * as tokens with their offsets so the input can highlight them.
+ */
+export function parseQuickAdd(input: string, options: QuickAddOptions = {}): QuickAddResult {
+  const locale = options.locale ?? enUS;
+  const ctx: Context = {
+    now: options.now ?? new Date(),
+    weekStartsOn: locale.options?.weekStartsOn ?? 0,
+    weekdays: buildNameMap(
+      7,
+      (i, width) => locale.localize.day(i as Day, { width }),
+      ENGLISH_WEEKDAYS
+    ) as Map<string, Day>,
+    fullWeekdays: buildNameMap(
+      7,
+      (i, width) => locale.localize.day(i as Day, { width }),
+      ENGLISH_WEEKDAYS,
+      false
+    ) as Map<string, Day>,
+    months: buildNameMap(
+      12,
+      (i, width) => locale.localize.month(i as never, { width }),
+      ENGLISH_MONTHS
+    ),
+    projects: new Map((options.projects ?? []).map((name) => [name.toLowerCase(), name])),
+  };
+
+  const draft: Draft = {
+    date: null,
+    time: null,
+    recurrence: null,
+    priority: null,
+    tags: [],
+    project: null,
+    assignee: null,
+  };
+  const tokens: QuickAddToken[] = [];
+  const overlaps = (start: number, end: number) =>
+    tokens.some((token) => start < token.end && end > token.start);
+
+  const apply = (matcher: Matcher, match: RegExpExecArray) => {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (overlaps(start, end)) return;
+    // A second date or time only counts once; later ones stay in the title.
+    if ((matcher.kind === "date" && draft.date) || (matcher.kind === "time" && draft.time)) {
+      return;
+    }
+    const kind = matcher.apply(match, draft, ctx);
+    if (kind) tokens.push({ kind, text: match[0], start, end });
+  };
+
+  // Dates are collected from every pattern first, so the one typed first
+  // wins rather than the one whose pattern happens to be listed first.
+  const dates: { matcher: Matcher; match: RegExpExecArray }[] = [];
+  buildMatchers(ctx).forEach((matcher) => {
+    matcher.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = matcher.pattern.exec(input))) {
+      if (matcher.kind === "date") dates.push({ matcher, match });
+      else apply(matcher, match);
+    }
+  });
+  dates
+    .sort((a, b) => a.match.index - b.match.index || b.match[0].length - a.match[0].length)
+    .forEach(({ matcher, match }) => apply(matcher, match));
+
+  tokens.sort((a, b) => a.start - b.start);
+
+  let title = "";
+  let cursor = 0;
+  tokens.forEach((token) => {
+    title += input.slice(cursor, token.start);
+    cursor = token.end;
+  });
+  title += input.slice(cursor);
+
+  return {
+    title: title.replace(/\s+/g, " ").trim(),
+    dueDate: resolveDueDate(draft, ctx.now),
+    hasTime: !!draft.time,
+    recurrence: draft.recurrence,
+    priority: draft.priority,
+    tags: draft.tags,
+    project: draft.project,
+    assignee: draft.assignee,
+    tokens,
+  };
+}
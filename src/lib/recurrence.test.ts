@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  RecurrenceRuleError,
+  nextOccurrence,
+  parseRRule,
+  serializeRRule,
+} from "./recurrence";
+
+describe("parseRRule", () => {
+  it("reads the supported parts", () => {
+    const rule = parseRRule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=5");
+    expect(rule.freq).toBe("MONTHLY");
+    expect(rule.interval).toBe(2);
+    expect(rule.byDay).toEqual([{ day: 5, nth: -1 }]);
+    expect(rule.count).toBe(5);
+  });
+
+  it("rejects values it can't read", () => {
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=XX")).toThrow(RecurrenceRuleError);
+  });
+
+  it("reads UNTIL ending in Z as UTC", () => {
+    const rule = parseRRule("FREQ=DAILY;UNTIL=20261231T235959Z");
+    expect(rule.until).toEqual(new Date(Date.UTC(2026, 11, 31, 23, 59, 59)));
+  });
+});
+
+describe("serializeRRule", () => {
+  it("round-trips rules, unknown parts included", () => {
+    const source = "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;WKST=MO";
+    expect(serializeRRule(parseRRule(source))).toBe(source);
+  });
+
+  it("writes UNTIL in UTC, stable across round trips", () => {
+    const once = serializeRRule(parseRRule("FREQ=DAILY;UNTIL=20261231T235959Z"));
+    expect(once).toBe("FREQ=DAILY;UNTIL=20261231T235959Z");
+    expect(serializeRRule(parseRRule(once))).toBe(once);
+  });
+});
+
+describe("nextOccurrence", () => {
+  // Monday, October 19, 2026, 9:00.
+  const start = new Date(2026, 9, 19, 9, 0);
+
+  it("finds the next matching weekday, keeping the time of day", () => {
+    const rule = parseRRule("FREQ=WEEKLY;BYDAY=MO,TH");
+    expect(nextOccurrence(rule, { start, after: start })).toEqual(new Date(2026, 9, 22, 9, 0));
+  });
+
+  it("skips weeks for intervals", () => {
+    const rule = parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO");
+    expect(nextOccurrence(rule, { start, after: start })).toEqual(new Date(2026, 10, 2, 9, 0));
+  });
+
+  it("stops once COUNT is reached", () => {
+    const rule = parseRRule("FREQ=DAILY;COUNT=2");
+    expect(nextOccurrence(rule, { start, after: start, index: 0 })).not.toBeNull();
+    expect(nextOccurrence(rule, { start, after: start, index: 1 })).toBeNull();
+  });
+
+  it("stops after UNTIL", () => {
+    const rule = parseRRule("FREQ=DAILY;UNTIL=20261020");
+    const after = new Date(2026, 9, 20, 9, 0);
+    expect(nextOccurrence(rule, { start, after })).toBeNull();
+  });
+
+  it("keeps occurrences on a date-only UNTIL day", () => {
+    const rule = parseRRule("FREQ=DAILY;UNTIL=20261020");
+    expect(nextOccurrence(rule, { start, after: start })).toEqual(new Date(2026, 9, 20, 9, 0));
+  });
+
+  it("counts from the completion date when anchored to it", () => {
+    const rule = parseRRule("FREQ=DAILY;INTERVAL=3;X-ANCHOR=COMPLETION");
+    const completedAt = new Date(2026, 9, 25, 18, 0);
+    expect(nextOccurrence(rule, { start, after: start, completedAt })).toEqual(
+      new Date(2026, 9, 28, 9, 0)
+    );
+  });
+});
@@ -0,0 +1,381 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  differenceInCalendarYears,
+  endOfDay,
+  format,
+  getDaysInMonth,
+  isAfter,
+  parse,
+  set,
+  startOfDay,
+  type Day,
+  type Locale,
+} from "date-fns";
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface WeekdayRule {
+  day: Day;
+  /** Nth weekday of the month (1..5 or -1 for last); only for monthly/yearly rules. */
+  nth?: number;
+}
+
+/**
+ * The subset of RFC 5545 RRULE the app understands. Unknown parts are kept in
+ * `extra` so rules written by other calendar tools survive a round trip.
+ */
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  byMonth: number[];
+  count: number | null;
+  until: Date | null;
+  /**
+   * `X-ANCHOR=COMPLETION` schedules the next occurrence relative to when the
+   * previous one was completed ("3 days after completion").
+   */
+  fromCompletion: boolean;
+  extra: [string, string][];
+}
+
+export const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+/** Iteration guard: no supported rule needs more than this many days to find a match. */
+const MAX_LOOKAHEAD_DAYS = 366 * 30;
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceRuleError";
+  }
+}
+
+/**
+ * `…Z` values are UTC; floating values are local time, and a bare date
+ * (`20261031`) runs to the end of that local day.
+ */
+function parseUntil(value: string) {
+  const utc = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/i.exec(value);
+  const date = utc
+    ? new Date(Date.UTC(+utc[1], +utc[2] - 1, +utc[3], +utc[4], +utc[5], +utc[6]))
+    : value.includes("T")
+      ? parse(value, "yyyyMMdd'T'HHmmss", new Date())
+      : endOfDay(parse(value, "yyyyMMdd", new Date()));
+  if (Number.isNaN(date.getTime())) {
+    throw new RecurrenceRuleError(`Invalid UNTIL value "${value}"`);
+  }
+  return date;
+}
+
+function parseByDay(value: string): WeekdayRule {
+  const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+  if (!match) throw new RecurrenceRuleError(`Invalid BYDAY value "${value}"`);
+  const day = RRULE_DAYS.indexOf(match[2]) as Day;
+  return match[1] ? { day, nth: Number(match[1]) } : { day };
+}
+
+function parseNumberList(value: string, name: string) {
+  return value.split(",").map((part) => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n === 0) {
+      throw new RecurrenceRuleError(`Invalid ${name} value "${part}"`);
+    }
+    return n;
+  });
+}
+
+/** Parses an RRULE body, with or without the leading `RRULE:`. */
+export function parseRRule(source: string): RecurrenceRule {
+  const rule: RecurrenceRule = {
+    freq: "DAILY",
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    count: null,
+    until: null,
+    fromCompletion: false,
+    extra: [],
+  };
+  let hasFreq = false;
+
+  source
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .filter(Boolean)
+    .forEach((part) => {
+      const [rawKey, value = ""] = part.split("=");
+      const key = rawKey.toUpperCase();
+      switch (key) {
+        case "FREQ":
+          if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(value.toUpperCase())) {
+            throw new RecurrenceRuleError(`Unsupported FREQ "${value}"`);
+          }
+          rule.freq = value.toUpperCase() as Frequency;
+          hasFreq = true;
+          break;
+        case "INTERVAL":
+          rule.interval = parseNumberList(value, key)[0];
+          if (rule.interval < 1) throw new RecurrenceRuleError("INTERVAL must be positive");
+          break;
+        case "BYDAY":
+          rule.byDay = value.toUpperCase().split(",").map(parseByDay);
+          break;
+        case "BYMONTHDAY":
+          rule.byMonthDay = parseNumberList(value, key);
+          break;
+        case "BYMONTH":
+          rule.byMonth = parseNumberList(value, key);
+          break;
+        case "COUNT":
+          rule.count = parseNumberList(value, key)[0];
+          break;
+        case "UNTIL":
+          rule.until = parseUntil(value);
+          break;
+        case "X-ANCHOR":
+          rule.fromCompletion = value.toUpperCase() === "COMPLETION";
+          break;
+        default:
+          rule.extra.push([key, value]);
+      }
+    });
+
+  if (!hasFreq) throw new RecurrenceRuleError("RRULE is missing FREQ");
+  return rule;
+}
+
+export function isValidRRule(source: string) {
+  try {
+    parseRRule(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** UNTIL in UTC (`yyyyMMdd'T'HHmmss'Z'`), so it means the same instant in every time zone. */
+function formatUntil(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+export function serializeRRule(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length) {
+    parts.push(
+      `BYDAY=${rule.byDay.map(({ day, nth }) => `${nth ?? ""}${RRULE_DAYS[day]}`).join(",")}`
+    );
+  }
+  if (rule.byMonthDay.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byMonth.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  if (rule.fromCompletion) parts.push("X-ANCHOR=COMPLETION");
+  rule.extra.forEach(([key, value]) => parts.push(`${key}=${value}`));
+  return parts.join(";");
+}
+
+function matchesMonthDay(date: Date, monthDays: number[]) {
+  const last = getDaysInMonth(date);
+  return monthDays.some((n) => (n > 0 ? n : last + n + 1) === date.getDate());
+}
+
+function matchesWeekday(date: Date, rule: WeekdayRule, freq: Frequency) {
+  if (date.getDay() !== rule.day) return false;
+  if (!rule.nth || freq === "DAILY" || freq === "WEEKLY") return true;
+
+  const nthFromStart = Math.ceil(date.getDate() / 7);
+  const nthFromEnd = -Math.ceil((getDaysInMonth(date) - date.getDate() + 1) / 7);
+  return rule.nth > 0 ? rule.nth === nthFromStart : rule.nth === nthFromEnd;
+}
+
+/** Whether `date` (a day) is produced by `rule` for a series starting on `start`. */
+function matches(rule: RecurrenceRule, start: Date, date: Date) {
+  const { freq, interval, byDay, byMonth } = rule;
+  const byMonthDay = [...rule.byMonthDay];
+
+  if (byMonth.length && !byMonth.includes(date.getMonth() + 1)) return false;
+
+  switch (freq) {
+    case "DAILY":
+      if (differenceInCalendarDays(date, start) % interval !== 0) return false;
+      break;
+    case "WEEKLY":
+      if (differenceInCalendarWeeks(date, start) % interval !== 0) return false;
+      if (!byDay.length) return date.getDay() === start.getDay();
+      break;
+    case "MONTHLY":
+      if (differenceInCalendarMonths(date, start) % interval !== 0) return false;
+      if (!byDay.length && !byMonthDay.length) byMonthDay.push(start.getDate());
+      break;
+    case "YEARLY":
+      if (differenceInCalendarYears(date, start) % interval !== 0) return false;
+      if (!byMonth.length && date.getMonth() !== start.getMonth()) return false;
+      if (!byDay.length && !byMonthDay.length) byMonthDay.push(start.getDate());
+      break;
+  }
+
+  if (byMonthDay.length && !matchesMonthDay(date, byMonthDay)) return false;
+  if (byDay.length && !byDay.some((d) => matchesWeekday(date, d, freq))) return false;
+  return true;
+}
+
+function withTimeOf(day: Date, time: Date) {
+  return set(day, {
+    hours: time.getHours(),
+    minutes: time.getMinutes(),
+    seconds: 0,
+    milliseconds: 0,
+  });
+}
+
+const addByFrequency: Record<Frequency, (date: Date, amount: number) => Date> = {
+  DAILY: addDays,
+  WEEKLY: addWeeks,
+  MONTHLY: addMonths,
+  YEARLY: addYears,
+};
+
+interface OccurrenceOptions {
+  /** First occurrence of the series; anchors intervals and the time of day. */
+  start: Date;
+  /** The occurrence being completed or skipped. */
+  after: Date;
+  /** How many occurrences the series has produced so far, for COUNT. */
+  index?: number;
+  completedAt?: Date;
+}
+
+/**
+ * The first occurrence strictly after `after`, or null once COUNT or UNTIL
+ * ends the series.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  { start, after, index = 0, completedAt }: OccurrenceOptions
+) {
+  if (rule.count !== null && index + 1 >= rule.count) return null;
+
+  let next: Date | null = null;
+  if (rule.fromCompletion) {
+    next = withTimeOf(
+      addByFrequency[rule.freq](startOfDay(completedAt ?? after), rule.interval),
+      start
+    );
+  } else {
+    const from = startOfDay(start);
+    let day = addDays(startOfDay(after), 1);
+    for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++, day = addDays(day, 1)) {
+      if (matches(rule, from, day)) {
+        next = withTimeOf(day, start);
+        break;
+      }
+    }
+  }
+
+  if (!next || (rule.until && isAfter(next, rule.until))) return null;
+  return next;
+}
+
+/** The first date on or after `from` that the rule produces, keeping its time of day. */
+export function firstOccurrence(rule: RecurrenceRule, from: Date) {
+  if (rule.fromCompletion || matches(rule, startOfDay(from), startOfDay(from))) {
+    return from;
+  }
+  // Anchor intervals on the day we are searching from.
+  return nextOccurrence({ ...rule, count: null, until: null }, { start: from, after: from }) ?? from;
+}
+
+function ordinal(n: number, locale?: Locale) {
+  if (n === -1) return "last";
+  return format(new Date(2000, 0, n), "do", { locale });
+}
+
+function weekdayName(day: Day, locale?: Locale) {
+  // 2023-01-01 was a Sunday.
+  return format(new Date(2023, 0, 1 + day), "EEEE", { locale });
+}
+
+function monthName(month: number, locale?: Locale) {
+  return format(new Date(2000, month - 1, 1), "MMMM", { locale });
+}
+
+function list(items: string[]) {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+const UNIT_NAMES: Record<Frequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+/** "Every 2 weeks on Monday and Thursday", "3 days after completion", … */
+export function describeRRule(rule: RecurrenceRule, locale?: Locale) {
+  const unit = UNIT_NAMES[rule.freq];
+  const every =
+    rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  let text: string;
+  if (rule.fromCompletion) {
+    text = `${rule.interval} ${unit}${rule.interval === 1 ? "" : "s"} after completion`;
+  } else if (
+    rule.freq === "WEEKLY" &&
+    rule.interval === 1 &&
+    rule.byDay.length === 5 &&
+    WEEKDAYS.every((d) => rule.byDay.some((b) => b.day === d))
+  ) {
+    text = "Every weekday";
+  } else {
+    const details: string[] = [];
+    const nthDays = rule.byDay.filter((d) => d.nth);
+    const plainDays = rule.byDay.filter((d) => !d.nth);
+    if (rule.byMonth.length) {
+      details.push(`in ${list(rule.byMonth.map((m) => monthName(m, locale)))}`);
+    }
+    if (rule.byMonthDay.length) {
+      const days = rule.byMonthDay.map((n) => (n === -1 ? "last day" : ordinal(n, locale)));
+      details.push(`on the ${list(days)}`);
+    }
+    if (nthDays.length) {
+      details.push(
+        `on the ${list(nthDays.map((d) => `${ordinal(d.nth!, locale)} ${weekdayName(d.day, locale)}`))}`
+      );
+    }
+    if (plainDays.length) {
+      details.push(`on ${list(plainDays.map((d) => weekdayName(d.day, locale)))}`);
+    }
+    text = [every, ...details].join(" ");
+  }
+
+  if (rule.count !== null) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${format(rule.until, "PP", { locale })}`;
+  return text;
+}
+
+/** Human-readable text for a stored rule, or the raw rule if it cannot be parsed. */
+export function describeRecurrence(source: string, locale?: Locale) {
+  try {
+    return describeRRule(parseRRule(source), locale);
+  } catch {
+    return source;
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { applyTaskPatch, buildTask } from "./tasks";
+import { buildReminder, createReminderScheduler, MISSED_REMINDER_WINDOW } from "./reminders";
+import type { ReminderTrigger, Task } from "@/types/task";
+
+const MINUTE = 60 * 1000;
+
+// Monday, October 19, 2026, 9:00.
+const now = new Date(2026, 9, 19, 9, 0);
+
+function taskWithReminder(trigger: ReminderTrigger, dueDate: string | null = null): Task {
+  return buildTask({ title: "Pay rent", dueDate, reminders: [buildReminder(trigger)] }, now);
+}
+
+const at = (minutes: number) => new Date(now.getTime() + minutes * MINUTE).toISOString();
+
+describe("createReminderScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("fires a reminder when its time comes, not before", () => {
+    const onFire = vi.fn();
+    const scheduler = createReminderScheduler(onFire);
+    const task = taskWithReminder({ type: "at", at: at(10) });
+    scheduler.update([task]);
+
+    vi.advanceTimersByTime(10 * MINUTE - 1);
+    expect(onFire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onFire).toHaveBeenCalledTimes(1);
+    expect(onFire.mock.calls[0][0].map((p) => p.task.id)).toEqual([task.id]);
+    scheduler.stop();
+  });
+
+  it("doesn't fire the same reminder twice before the delivery is recorded", () => {
+    const onFire = vi.fn();
+    const scheduler = createReminderScheduler(onFire);
+    const task = taskWithReminder({ type: "at", at: at(0) });
+
+    scheduler.update([task]);
+    scheduler.update([task]);
+    expect(onFire).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("fires reminders relative to the due date", () => {
+    const onFire = vi.fn();
+    const scheduler = createReminderScheduler(onFire);
+    scheduler.update([taskWithReminder({ type: "before-due", minutes: 30 }, at(60))]);
+
+    vi.advanceTimersByTime(30 * MINUTE);
+    expect(onFire).toHaveBeenCalledTimes(1);
+    scheduler.stop();
+  });
+
+  it("skips reminders missed for longer than the catch-up window", () => {
+    const onFire = vi.fn();
+    const scheduler = createReminderScheduler(onFire);
+    const missed = new Date(now.getTime() - MISSED_REMINDER_WINDOW - MINUTE).toISOString();
+    scheduler.update([taskWithReminder({ type: "at", at: missed })]);
+
+    vi.runOnlyPendingTimers();
+    expect(onFire).not.toHaveBeenCalled();
+    scheduler.stop();
+  });
+
+  it("drops reminders of tasks completed in the meantime", () => {
+    const onFire = vi.fn();
+    const scheduler = createReminderScheduler(onFire);
+    const task = taskWithReminder({ type: "at", at: at(10) });
+    scheduler.update([task]);
+    scheduler.update([applyTaskPatch(task, { status: "done" }, now)]);
+
+    vi.advanceTimersByTime(10 * MINUTE);
+    expect(onFire).not.toHaveBeenCalled();
+    scheduler.stop();
+  });
+
+  it("stops firing once stopped", () => {
+    const onFire = vi.fn();
+    const scheduler = createReminderScheduler(onFire);
+    scheduler.update([taskWithReminder({ type: "at", at: at(10) })]);
+    scheduler.stop();
+
+    vi.advanceTimersByTime(10 * MINUTE);
+    expect(onFire).not.toHaveBeenCalled();
+  });
+});
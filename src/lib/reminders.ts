@@ -0,0 +1,189 @@
+import { addDays, addHours, addMinutes, setHours, setMinutes, startOfDay } from "date-fns";
+
+import { isTaskDone } from "@/lib/tasks";
+import type { ReminderTrigger, Task, TaskReminder } from "@/types/task";
+
+/** Reminders missed by more than this (e.g. while the app was closed) are dropped. */
+export const MISSED_REMINDER_WINDOW = 24 * 60 * 60 * 1000;
+
+// setTimeout overflows past ~24.8 days; longer waits are re-checked in steps.
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export const MORNING_TIME = "09:00";
+
+export const reminderPresets: { label: string; trigger: ReminderTrigger }[] = [
+  { label: "At due time", trigger: { type: "before-due", minutes: 0 } },
+  { label: "30 minutes before", trigger: { type: "before-due", minutes: 30 } },
+  { label: "1 hour before", trigger: { type: "before-due", minutes: 60 } },
+  { label: "1 day before", trigger: { type: "before-due", minutes: 24 * 60 } },
+  { label: "The morning of", trigger: { type: "due-day", time: MORNING_TIME } },
+];
+
+export type SnoozeOption = "10m" | "1h" | "tomorrow";
+
+export const snoozeOptions: { id: SnoozeOption; label: string }[] = [
+  { id: "10m", label: "10 minutes" },
+  { id: "1h", label: "1 hour" },
+  { id: "tomorrow", label: "Tomorrow" },
+];
+
+function atTimeOfDay(date: Date, time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return setMinutes(setHours(startOfDay(date), hours || 0), minutes || 0);
+}
+
+/** "Tomorrow" means tomorrow morning, not 24 hours from now. */
+export function snoozeTime(option: SnoozeOption, now = new Date()) {
+  switch (option) {
+    case "10m":
+      return addMinutes(now, 10);
+    case "1h":
+      return addHours(now, 1);
+    case "tomorrow":
+      return atTimeOfDay(addDays(now, 1), MORNING_TIME);
+  }
+}
+
+export function buildReminder(trigger: ReminderTrigger): TaskReminder {
+  return {
+    id: crypto.randomUUID(),
+    trigger,
+    deliveredFor: null,
+    snoozedUntil: null,
+  };
+}
+
+export function isRelativeReminder(reminder: TaskReminder) {
+  return reminder.trigger.type !== "at";
+}
+
+function formatMinutes(minutes: number) {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return days === 1 ? "1 day" : `${days} days`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? "1 hour" : `${hours} hours`;
+  }
+  return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+}
+
+export function describeReminder({ trigger }: TaskReminder) {
+  switch (trigger.type) {
+    case "at":
+      return new Date(trigger.at).toLocaleString(undefined, {
+        dateStyle: "medium",
+        timeStyle: "short",
+      });
+    case "before-due":
+      return trigger.minutes === 0
+        ? "At due time"
+        : `${formatMinutes(trigger.minutes)} before`;
+    case "due-day":
+      return trigger.time === MORNING_TIME
+        ? "The morning of"
+        : `At ${trigger.time} on the due date`;
+  }
+}
+
+/** When the reminder is set to go off, ignoring snoozes; null without a due date. */
+export function reminderTime(reminder: TaskReminder, task: Pick<Task, "dueDate">) {
+  const { trigger } = reminder;
+  if (trigger.type === "at") return new Date(trigger.at);
+  if (!task.dueDate) return null;
+
+  const due = new Date(task.dueDate);
+  return trigger.type === "before-due"
+    ? addMinutes(due, -trigger.minutes)
+    : atTimeOfDay(due, trigger.time);
+}
+
+/**
+ * When the reminder should next be delivered: the snooze if there is one,
+ * otherwise its trigger time unless that was already delivered.
+ */
+export function nextReminderTime(reminder: TaskReminder, task: Task) {
+  if (isTaskDone(task)) return null;
+  if (reminder.snoozedUntil) return new Date(reminder.snoozedUntil);
+
+  const time = reminderTime(reminder, task);
+  return time && time.toISOString() !== reminder.deliveredFor ? time : null;
+}
+
+export interface PendingReminder {
+  task: Task;
+  reminder: TaskReminder;
+  at: Date;
+}
+
+/** Every reminder still to be delivered, soonest first. */
+export function pendingReminders(tasks: Task[]): PendingReminder[] {
+  return tasks
+    .flatMap((task) =>
+      task.reminders.map((reminder) => ({
+        task,
+        reminder,
+        at: nextReminderTime(reminder, task),
+      }))
+    )
+    .filter((pending): pending is PendingReminder => !!pending.at)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+export interface ReminderScheduler {
+  /** Replaces the tasks to schedule from; call whenever the store changes. */
+  update: (tasks: Task[]) => void;
+  stop: () => void;
+}
+
+/**
+ * Keeps a single timer for the soonest pending reminder. Nothing is kept
+ * besides the tasks themselves, so after a reload the schedule is simply
+ * recomputed and reminders missed while closed fire at once.
+ *
+ * `onFire` is expected to record the delivery on the task; until the update
+ * arrives, the scheduler remembers what it fired so nothing goes off twice.
+ */
+export function createReminderScheduler(
+  onFire: (reminders: PendingReminder[]) => void
+): ReminderScheduler {
+  let tasks: Task[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const fired = new Set<string>();
+
+  const keyOf = ({ task, reminder, at }: PendingReminder) =>
+    `${task.id}:${reminder.id}:${at.toISOString()}`;
+
+  const check = () => {
+    clearTimeout(timer);
+    timer = undefined;
+
+    const now = Date.now();
+    const pending = pendingReminders(tasks).filter((p) => !fired.has(keyOf(p)));
+    const due = pending.filter(
+      (p) => p.at.getTime() <= now && now - p.at.getTime() <= MISSED_REMINDER_WINDOW
+    );
+    const upcoming = pending.find((p) => p.at.getTime() > now);
+
+    if (upcoming) {
+      const delay = Math.min(upcoming.at.getTime() - now, MAX_TIMER_DELAY);
+      timer = setTimeout(check, delay);
+    }
+    if (due.length) {
+      due.forEach((p) => fired.add(keyOf(p)));
+      onFire(due);
+    }
+  };
+
+  return {
+    update: (next) => {
+      tasks = next;
+      check();
+    },
+    stop: () => {
+      clearTimeout(timer);
+      timer = undefined;
+    },
+  };
+}
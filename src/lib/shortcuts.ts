@@ -0,0 +1,119 @@
+/**
+ * `global` bindings work anywhere; `list` bindings only fire for the task list
+ * that holds focus (or the first one on the page when nothing is focused).
+ */
+export type ShortcutScope = "global" | "list";
+
+export interface ShortcutDefinition {
+  id: string;
+  description: string;
+  group: string;
+  scope: ShortcutScope;
+  /** Space-separated chords, e.g. `mod+k` or the sequence `g t`. */
+  keys: string;
+  /** Also fires while typing in a text field or with a dialog open. */
+  inTextFields?: boolean;
+}
+
+export interface ResolvedShortcut extends ShortcutDefinition {
+  /** Whether `keys` comes from the user's remapping rather than the default. */
+  custom: boolean;
+}
+
+const MODIFIER_ORDER = ["mod", "alt", "shift"];
+
+export const shortcutDefinitions: ShortcutDefinition[] = [
+  { id: "palette.open", description: "Open command palette", group: "General", scope: "global", keys: "mod+k", inTextFields: true },
+  { id: "shortcuts.help", description: "Show keyboard shortcuts", group: "General", scope: "global", keys: "?" },
+  { id: "sidebar.toggle", description: "Toggle sidebar", group: "General", scope: "global", keys: "mod+b", inTextFields: true },
+  { id: "history.undo", description: "Undo", group: "General", scope: "global", keys: "mod+z" },
+  { id: "history.redo", description: "Redo", group: "General", scope: "global", keys: "mod+shift+z" },
+  { id: "theme.toggle", description: "Toggle theme", group: "General", scope: "global", keys: "shift+t" },
+  { id: "go.today", description: "Go to Today", group: "Navigation", scope: "global", keys: "g t" },
+  { id: "go.list", description: "Go to List", group: "Navigation", scope: "global", keys: "g l" },
+  { id: "go.board", description: "Go to Board", group: "Navigation", scope: "global", keys: "g b" },
+  { id: "go.table", description: "Go to Table", group: "Navigation", scope: "global", keys: "g d" },
+  { id: "go.calendar", description: "Go to Calendar", group: "Navigation", scope: "global", keys: "g c" },
+  { id: "go.stats", description: "Go to Stats", group: "Navigation", scope: "global", keys: "g s" },
+  { id: "tasks.next", description: "Select next task", group: "Tasks", scope: "list", keys: "j" },
+  { id: "tasks.previous", description: "Select previous task", group: "Tasks", scope: "list", keys: "k" },
+  { id: "tasks.complete", description: "Complete selected tasks", group: "Tasks", scope: "global", keys: "x" },
+  { id: "tasks.edit", description: "Edit selected task", group: "Tasks", scope: "global", keys: "e" },
+  { id: "tasks.move", description: "Move selected tasks to a project", group: "Tasks", scope: "global", keys: "m" },
+  { id: "tasks.due", description: "Set due date of selected tasks", group: "Tasks", scope: "global", keys: "d" },
+  { id: "tasks.clear-selection", description: "Clear selection", group: "Tasks", scope: "global", keys: "escape" },
+];
+
+/** Puts modifiers in a fixed order so equal chords compare equal as strings. */
+export function normalizeChord(chord: string) {
+  const parts = chord.toLowerCase().split("+");
+  const key = parts.pop() ?? "";
+  const modifiers = MODIFIER_ORDER.filter((modifier) => parts.includes(modifier));
+  return [...modifiers, key].join("+");
+}
+
+export function normalizeKeys(keys: string) {
+  return keys.trim().split(/\s+/).filter(Boolean).map(normalizeChord).join(" ");
+}
+
+/** Applies the user's remapping (shortcut id → keys) over the defaults. */
+export function resolveShortcuts(
+  overrides: Record<string, string>,
+  definitions = shortcutDefinitions
+): ResolvedShortcut[] {
+  return definitions.map((definition) => {
+    const custom = definition.id in overrides;
+    return {
+      ...definition,
+      keys: normalizeKeys(custom ? overrides[definition.id] : definition.keys),
+      custom,
+    };
+  });
+}
+
+function scopesOverlap(a: ShortcutScope, b: ShortcutScope) {
+  return a === b || a === "global" || b === "global";
+}
+
+function isPrefix(prefix: string, keys: string) {
+  return keys.startsWith(`${prefix} `);
+}
+
+/**
+ * Two bindings conflict when they can be active at the same time and either
+ * use the same keys or one is the start of the other's sequence (`g` would
+ * swallow `g t`). Unbound shortcuts (empty keys) never conflict.
+ */
+export function findConflicts(shortcuts: ShortcutDefinition[]) {
+  const conflicts = new Map<string, string[]>();
+  shortcuts.forEach((a, i) => {
+    shortcuts.slice(i + 1).forEach((b) => {
+      if (!a.keys || !b.keys || !scopesOverlap(a.scope, b.scope)) return;
+      if (a.keys === b.keys || isPrefix(a.keys, b.keys) || isPrefix(b.keys, a.keys)) {
+        conflicts.set(a.id, [...(conflicts.get(a.id) ?? []), b.id]);
+        conflicts.set(b.id, [...(conflicts.get(b.id) ?? []), a.id]);
+      }
+    });
+  });
+  return conflicts;
+}
+
+export type SequenceMatch =
+  | { kind: "match"; shortcut: ResolvedShortcut }
+  | { kind: "pending" }
+  | { kind: "none" };
+
+/**
+ * Matches the chords typed so far against the bindings. `pending` means the
+ * chords are the start of at least one sequence and the next key decides.
+ */
+export function matchSequence(
+  chords: string[],
+  shortcuts: ResolvedShortcut[]
+): SequenceMatch {
+  const typed = chords.join(" ");
+  const shortcut = shortcuts.find((s) => s.keys === typed);
+  if (shortcut) return { kind: "match", shortcut };
+  if (shortcuts.some((s) => isPrefix(typed, s.keys))) return { kind: "pending" };
+  return { kind: "none" };
+}
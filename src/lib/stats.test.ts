@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import { applyTaskPatch, buildTask } from "./tasks";
+import {
+  averageTimeToComplete,
+  completedPerPeriod,
+  createdVsCompleted,
+  filterStatsTasks,
+  statsPeriods,
+  statsSummary,
+  type StatsRange,
+} from "./stats";
+import type { Task } from "@/types/task";
+
+// Monday, October 12 to Sunday, October 18, 2026.
+const range: StatsRange = { start: new Date(2026, 9, 12), end: new Date(2026, 9, 18, 12) };
+
+const day = (date: number, hours = 10) => new Date(2026, 9, date, hours);
+
+function task(created: Date, completed?: Date, input: Partial<Task> = {}) {
+  const built = buildTask({ title: "Task", ...input }, created);
+  return completed ? applyTaskPatch(built, { status: "done" }, completed) : built;
+}
+
+const tasks = [
+  task(day(12), day(13)),
+  task(day(12), day(15)),
+  task(day(14)),
+  task(day(1), day(14), { projectId: "work" }),
+  task(day(16), day(20)),
+];
+
+describe("statsPeriods", () => {
+  it("covers the range in days or Monday-based weeks", () => {
+    expect(statsPeriods(range, "day").map((p) => p.key)).toEqual([
+      "2026-10-12",
+      "2026-10-13",
+      "2026-10-14",
+      "2026-10-15",
+      "2026-10-16",
+      "2026-10-17",
+      "2026-10-18",
+    ]);
+    expect(statsPeriods(range, "week").map((p) => p.key)).toEqual(["2026-10-12"]);
+  });
+});
+
+describe("completedPerPeriod", () => {
+  it("counts completions per day within the range", () => {
+    const counts = completedPerPeriod(tasks, range, "day").map((p) => p.completed);
+    expect(counts).toEqual([0, 1, 1, 1, 0, 0, 0]);
+  });
+
+  it("ignores tasks reopened since", () => {
+    const reopened = applyTaskPatch(tasks[0], { status: "todo" }, day(17));
+    const counts = completedPerPeriod([reopened], range, "week").map((p) => p.completed);
+    expect(counts).toEqual([0]);
+  });
+});
+
+describe("createdVsCompleted", () => {
+  it("counts both per week", () => {
+    expect(createdVsCompleted(tasks, range, "week")).toMatchObject([
+      { key: "2026-10-12", created: 4, completed: 3 },
+    ]);
+  });
+});
+
+describe("statsSummary", () => {
+  it("counts what happened within the range", () => {
+    const summary = statsSummary(tasks, range, day(18));
+    expect(summary.created).toBe(4);
+    expect(summary.completed).toBe(3);
+    expect(summary.overdue).toBe(0);
+  });
+
+  it("counts open tasks past their due date as overdue", () => {
+    const late = task(day(12), undefined, { dueDate: day(15).toISOString() });
+    expect(statsSummary([late], range, day(18)).overdue).toBe(1);
+  });
+});
+
+describe("averageTimeToComplete", () => {
+  it("averages days from creation to completion", () => {
+    const average = averageTimeToComplete(tasks.slice(0, 2), range);
+    expect(average).toBe(2);
+  });
+
+  it("is null when nothing was completed", () => {
+    expect(averageTimeToComplete([tasks[2]], range)).toBeNull();
+  });
+});
+
+describe("filterStatsTasks", () => {
+  it("keeps the chosen projects, null standing for the Inbox", () => {
+    expect(filterStatsTasks(tasks, { projectIds: ["work"] })).toHaveLength(1);
+    expect(filterStatsTasks(tasks, { projectIds: [null] })).toHaveLength(4);
+    expect(filterStatsTasks(tasks, { projectIds: [] })).toHaveLength(5);
+  });
+});
@@ -0,0 +1,455 @@
+import {
+  addDays,
+  differenceInMilliseconds,
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  endOfDay,
+  endOfWeek,
+  format,
+  isWithinInterval,
+  startOfDay,
+  startOfWeek,
+  startOfYear,
+  subDays,
+  subWeeks,
+} from "date-fns";
+
+import { isTaskOverdue } from "@/lib/tasks";
+import type { Project } from "@/types/project";
+import { TASK_STATUSES, type Task, type TaskStatus } from "@/types/task";
+
+export type StatsGranularity = "day" | "week";
+
+export interface StatsRange {
+  start: Date;
+  end: Date;
+}
+
+export interface StatsFilter {
+  /** Only these projects; `null` stands for the Inbox. Empty means all. */
+  projectIds: (string | null)[];
+  /** Only tasks with this tag. */
+  tag?: string | null;
+}
+
+export interface StatsPeriod {
+  /** `yyyy-MM-dd` of the period's first day, for chart keys. */
+  key: string;
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+export type RangePreset = "7d" | "30d" | "90d" | "year" | "custom";
+
+export const rangePresetLabels: Record<RangePreset, string> = {
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+  year: "This year",
+  custom: "Custom range",
+};
+
+/** The range a preset stands for, ending today. */
+export function presetRange(preset: Exclude<RangePreset, "custom">, now = new Date()): StatsRange {
+  switch (preset) {
+    case "7d":
+      return { start: subDays(now, 6), end: now };
+    case "30d":
+      return { start: subDays(now, 29), end: now };
+    case "90d":
+      return { start: subDays(now, 89), end: now };
+    case "year":
+      return { start: startOfYear(now), end: now };
+  }
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The days or weeks covering `range`, in order. Weeks start on Monday. */
+export function statsPeriods(range: StatsRange, granularity: StatsGranularity): StatsPeriod[] {
+  const interval = { start: startOfDay(range.start), end: endOfDay(range.end) };
+  if (interval.start > interval.end) return [];
+
+  if (granularity === "day") {
+    return eachDayOfInterval(interval).map((day) => ({
+      key: format(day, "yyyy-MM-dd"),
+      label: format(day, "MMM d"),
+      start: day,
+      end: endOfDay(day),
+    }));
+  }
+  return eachWeekOfInterval(interval, WEEK_OPTIONS).map((week) => ({
+    key: format(week, "yyyy-MM-dd"),
+    label: `Week of ${format(week, "MMM d")}`,
+    start: week,
+    end: endOfWeek(week, WEEK_OPTIONS),
+  }));
+}
+
+function periodKey(date: Date, granularity: StatsGranularity) {
+  const start = granularity === "day" ? startOfDay(date) : startOfWeek(date, WEEK_OPTIONS);
+  return format(start, "yyyy-MM-dd");
+}
+
+function completedAt(task: Task) {
+  return task.status === "done" && task.completedAt ? new Date(task.completedAt) : null;
+}
+
+export function filterStatsTasks(tasks: Task[], { projectIds, tag }: StatsFilter) {
+  return tasks.filter(
+    (task) =>
+      (!projectIds.length || projectIds.includes(task.projectId)) &&
+      (!tag || task.tags.includes(tag))
+  );
+}
+
+/** Counts timestamps per period; ones outside the range are ignored. */
+function countByPeriod(
+  dates: Date[],
+  periods: StatsPeriod[],
+  granularity: StatsGranularity
+) {
+  const counts = new Map(periods.map((period) => [period.key, 0]));
+  dates.forEach((date) => {
+    const key = periodKey(date, granularity);
+    if (counts.has(key)) counts.set(key, counts.get(key) + 1);
+  });
+  return counts;
+}
+
+export function completedPerPeriod(
+  tasks: Task[],
+  range: StatsRange,
+  granularity: StatsGranularity
+) {
+  const periods = statsPeriods(range, granularity);
+  const completed = countByPeriod(tasks.map(completedAt).filter(Boolean), periods, granularity);
+  return periods.map(({ key, label }) => ({ key, label, completed: completed.get(key) }));
+}
+
+export function createdVsCompleted(
+  tasks: Task[],
+  range: StatsRange,
+  granularity: StatsGranularity
+) {
+  const periods = statsPeriods(range, granularity);
+  const created = countByPeriod(
+    tasks.map((task) => new Date(task.createdAt)),
+    periods,
+    granularity
+  );
+  const completed = countByPeriod(tasks.map(completedAt).filter(Boolean), periods, granularity);
+  return periods.map(({ key, label }) => ({
+    key,
+    label,
+    created: created.get(key),
+    completed: completed.get(key),
+  }));
+}
+
+/**
+ * How many tasks were overdue at the end of each period: created by then,
+ * due before then, and not completed by then. Tasks that were reopened count
+ * from their latest completion only.
+ */
+export function overdueOverTime(
+  tasks: Task[],
+  range: StatsRange,
+  granularity: StatsGranularity,
+  now = new Date()
+) {
+  return statsPeriods(range, granularity)
+    .filter((period) => period.start <= now)
+    .map(({ key, label, end }) => {
+      const at = end < now ? end : now;
+      const overdue = tasks.filter((task) => {
+        if (!task.dueDate || new Date(task.createdAt) > at) return false;
+        const done = completedAt(task);
+        return new Date(task.dueDate) < at && (!done || done > at);
+      }).length;
+      return { key, label, overdue };
+    });
+}
+
+export interface ProjectSeries {
+  /** Chart key; `inbox` for tasks without a project. */
+  key: string;
+  projectId: string | null;
+  name: string;
+  color: string | null;
+}
+
+export const INBOX_SERIES_KEY = "inbox";
+
+/**
+ * Completions per period split by project, for stacked bars. Only projects
+ * with at least one completion in the range get a series.
+ */
+export function completionByProject(
+  tasks: Task[],
+  projects: Project[],
+  range: StatsRange,
+  granularity: StatsGranularity
+) {
+  const periods = statsPeriods(range, granularity);
+  const rows = new Map(
+    periods.map(({ key, label }) => [key, { key, label } as Record<string, string | number>])
+  );
+  const used = new Set<string | null>();
+
+  tasks.forEach((task) => {
+    const done = completedAt(task);
+    const row = done && rows.get(periodKey(done, granularity));
+    if (!row) return;
+    const seriesKey = task.projectId ?? INBOX_SERIES_KEY;
+    row[seriesKey] = ((row[seriesKey] as number) ?? 0) + 1;
+    used.add(task.projectId);
+  });
+
+  const series: ProjectSeries[] = [...used].map((projectId) => {
+    const project = projects.find((p) => p.id === projectId);
+    return {
+      key: projectId ?? INBOX_SERIES_KEY,
+      projectId,
+      name: projectId ? (project?.name ?? "Deleted project") : "Inbox",
+      color: project?.color ?? null,
+    };
+  });
+  series.sort((a, b) => a.name.localeCompare(b.name));
+
+  // Every row gets every series so stacks and tooltips line up.
+  const data = [...rows.values()].map((row) => ({
+    ...Object.fromEntries(series.map((s) => [s.key, 0])),
+    ...row,
+  }));
+  return { data, series };
+}
+
+function averageDays(durations: number[]) {
+  if (!durations.length) return null;
+  const total = durations.reduce((sum, ms) => sum + ms, 0);
+  return total / durations.length / DAY_MS;
+}
+
+function completionDuration(task: Task) {
+  const done = completedAt(task);
+  return done ? Math.max(0, differenceInMilliseconds(done, new Date(task.createdAt))) : null;
+}
+
+/** Mean days from creation to completion for tasks completed in `range`, or null. */
+export function averageTimeToComplete(tasks: Task[], range: StatsRange) {
+  const interval = { start: startOfDay(range.start), end: endOfDay(range.end) };
+  return averageDays(
+    tasks
+      .filter((task) => {
+        const done = completedAt(task);
+        return done && isWithinInterval(done, interval);
+      })
+      .map(completionDuration)
+  );
+}
+
+/** The same average per period, by completion date; null where nothing was completed. */
+export function averageTimeToCompletePerPeriod(
+  tasks: Task[],
+  range: StatsRange,
+  granularity: StatsGranularity
+) {
+  const periods = statsPeriods(range, granularity);
+  const durations = new Map(periods.map((period) => [period.key, [] as number[]]));
+  tasks.forEach((task) => {
+    const done = completedAt(task);
+    durations.get(done ? periodKey(done, granularity) : "")?.push(completionDuration(task));
+  });
+  return periods.map(({ key, label }) => ({
+    key,
+    label,
+    days: averageDays(durations.get(key)),
+  }));
+}
+
+export interface StatsSummary {
+  created: number;
+  completed: number;
+  /** Open tasks past their due date right now. */
+  overdue: number;
+  averageDaysToComplete: number | null;
+}
+
+export function statsSummary(tasks: Task[], range: StatsRange, now = new Date()): StatsSummary {
+  const interval = { start: startOfDay(range.start), end: endOfDay(range.end) };
+  const inRange = (date: Date | null) => !!date && isWithinInterval(date, interval);
+
+  return {
+    created: tasks.filter((task) => inRange(new Date(task.createdAt))).length,
+    completed: tasks.filter((task) => inRange(completedAt(task))).length,
+    overdue: tasks.filter((task) => isTaskOverdue(task, now)).length,
+    averageDaysToComplete: averageTimeToComplete(tasks, range),
+  };
+}
+
+export const HEATMAP_WEEKS = 53;
+
+/** Shades a heatmap uses besides "nothing completed". */
+export const HEATMAP_LEVELS = 4;
+
+export interface HeatmapDay {
+  key: string;
+  date: Date;
+  count: number;
+  /** 0 for none, up to `HEATMAP_LEVELS` relative to the busiest day. */
+  level: number;
+  /** Days after `today` in the last week, drawn blank. */
+  future: boolean;
+}
+
+function completionsByDay(tasks: Task[]) {
+  const counts = new Map<string, number>();
+  tasks.forEach((task) => {
+    const done = completedAt(task);
+    if (!done) return;
+    const key = format(done, "yyyy-MM-dd");
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Completions per day for the weeks up to `today`, as columns of Monday to
+ * Sunday like a contribution graph.
+ */
+export function completionHeatmap(tasks: Task[], today = new Date(), weeks = HEATMAP_WEEKS) {
+  const counts = completionsByDay(tasks);
+  const first = startOfWeek(subWeeks(today, weeks - 1), WEEK_OPTIONS);
+  const end = endOfDay(today);
+
+  const days = Array.from({ length: weeks * 7 }, (_, index) => {
+    const date = addDays(first, index);
+    const key = format(date, "yyyy-MM-dd");
+    const future = date > end;
+    return { key, date, count: future ? 0 : (counts.get(key) ?? 0), future };
+  });
+  const max = Math.max(0, ...days.map((day) => day.count));
+
+  return Array.from({ length: weeks }, (_, week) =>
+    days.slice(week * 7, week * 7 + 7).map(
+      (day): HeatmapDay => ({
+        ...day,
+        level: day.count ? Math.ceil((day.count / max) * HEATMAP_LEVELS) : 0,
+      })
+    )
+  );
+}
+
+/**
+ * Runs of consecutive days with at least one completion. The current streak
+ * is still alive when nothing has been completed yet today.
+ */
+export function completionStreaks(tasks: Task[], today = new Date()) {
+  const days = [...completionsByDay(tasks).keys()].sort();
+  let longest = 0;
+  let run = 0;
+  days.forEach((key, index) => {
+    const consecutive =
+      index > 0 && format(addDays(new Date(`${days[index - 1]}T00:00`), 1), "yyyy-MM-dd") === key;
+    run = consecutive ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const done = new Set(days);
+  let cursor = done.has(format(today, "yyyy-MM-dd")) ? today : subDays(today, 1);
+  let current = 0;
+  while (done.has(format(cursor, "yyyy-MM-dd"))) {
+    current += 1;
+    cursor = subDays(cursor, 1);
+  }
+  return { current, longest };
+}
+
+/** Tasks completed on the given local day, latest first. */
+export function tasksCompletedOn(tasks: Task[], day: Date) {
+  const interval = { start: startOfDay(day), end: endOfDay(day) };
+  return tasks
+    .filter((task) => {
+      const done = completedAt(task);
+      return done && isWithinInterval(done, interval);
+    })
+    .sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+}
+
+/** The task's status at `at` from its history; null before it existed. */
+export function statusAt(task: Task, at: Date) {
+  const time = at.toISOString();
+  let status: TaskStatus | null = null;
+  for (const change of task.statusHistory) {
+    if (change.at > time) break;
+    status = change.status;
+  }
+  return status;
+}
+
+export type BurndownMetric = "tasks" | "points";
+
+/** Unestimated tasks count as one point, so they still burn down. */
+function taskWeight(task: Task, metric: BurndownMetric) {
+  return metric === "points" ? (task.estimate ?? 1) : 1;
+}
+
+/**
+ * Work left at the end of each day of `range`, against an ideal line falling
+ * from the starting amount to zero on the last day. Days after `now` only
+ * have the ideal value. Tasks added mid-range raise the remaining amount.
+ */
+export function burndown(
+  tasks: Task[],
+  range: StatsRange,
+  metric: BurndownMetric,
+  now = new Date()
+) {
+  const periods = statsPeriods(range, "day");
+  const remainingAt = (at: Date) =>
+    tasks.reduce((sum, task) => {
+      const status = statusAt(task, at);
+      return status && status !== "done" ? sum + taskWeight(task, metric) : sum;
+    }, 0);
+
+  const first = periods[0];
+  const initial = first ? remainingAt(first.end < now ? first.end : now) : 0;
+  const steps = Math.max(1, periods.length - 1);
+
+  return periods.map(({ key, label, start, end }, index) => ({
+    key,
+    label,
+    ideal: Math.round((initial - (initial * index) / steps) * 100) / 100,
+    remaining: start > now ? null : remainingAt(end < now ? end : now),
+  }));
+}
+
+/**
+ * How many tasks were in each status at the end of every period, for a
+ * cumulative flow diagram. Periods after `now` are left out.
+ */
+export function cumulativeFlow(
+  tasks: Task[],
+  range: StatsRange,
+  granularity: StatsGranularity,
+  now = new Date()
+) {
+  return statsPeriods(range, granularity)
+    .filter((period) => period.start <= now)
+    .map(({ key, label, end }) => {
+      const at = end < now ? end : now;
+      const counts = Object.fromEntries(TASK_STATUSES.map((status) => [status, 0])) as Record<
+        TaskStatus,
+        number
+      >;
+      tasks.forEach((task) => {
+        const status = statusAt(task, at);
+        if (status) counts[status] += 1;
+      });
+      return { key, label, ...counts };
+    });
+}
@@ -0,0 +1,312 @@
+import { addDays, endOfDay, format, isToday, parse, startOfDay } from "date-fns";
+
+import { rescheduleToDay } from "@/lib/calendar";
+import { isTaskOverdue } from "@/lib/tasks";
+import type { Project } from "@/types/project";
+import type { TableViewState } from "@/types/table";
+import {
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  priorityLabels,
+  statusLabels,
+  type CustomFieldDefinition,
+  type Task,
+  type TaskPatch,
+} from "@/types/task";
+
+export type TableColumnKind =
+  | "text"
+  | "number"
+  | "date"
+  | "status"
+  | "priority"
+  | "project"
+  | "tags";
+
+export interface TableColumn {
+  id: string;
+  label: string;
+  kind: TableColumnKind;
+  width: number;
+  /** Set for columns showing a custom field. */
+  fieldId?: string;
+}
+
+export const MIN_COLUMN_WIDTH = 72;
+
+export const builtinColumns: TableColumn[] = [
+  { id: "title", label: "Title", kind: "text", width: 320 },
+  { id: "status", label: "Status", kind: "status", width: 130 },
+  { id: "project", label: "Project", kind: "project", width: 170 },
+  { id: "priority", label: "Priority", kind: "priority", width: 130 },
+  { id: "dueDate", label: "Due", kind: "date", width: 140 },
+  { id: "assignee", label: "Assignee", kind: "text", width: 150 },
+  { id: "estimate", label: "Estimate", kind: "number", width: 110 },
+  { id: "tags", label: "Tags", kind: "tags", width: 190 },
+];
+
+export function fieldColumnId(fieldId: string) {
+  return `field:${fieldId}`;
+}
+
+/**
+ * Every column in display order, with the user's widths applied. Built-in
+ * columns come first by default, then custom fields in creation order.
+ */
+export function resolveTableColumns(
+  view: TableViewState,
+  fields: CustomFieldDefinition[]
+): TableColumn[] {
+  const columns = [
+    ...builtinColumns,
+    ...fields.map(
+      (field): TableColumn => ({
+        id: fieldColumnId(field.id),
+        label: field.name,
+        kind: field.type,
+        width: 150,
+        fieldId: field.id,
+      })
+    ),
+  ].map((column) => ({ ...column, width: view.widths[column.id] ?? column.width }));
+
+  const position = (id: string) => {
+    const index = view.order.indexOf(id);
+    return index === -1 ? view.order.length + columns.findIndex((c) => c.id === id) : index;
+  };
+  return columns.sort((a, b) => position(a.id) - position(b.id));
+}
+
+/** Moves `id` to where `targetId` is, shifting the columns in between. */
+export function moveColumn(order: string[], id: string, targetId: string) {
+  const without = order.filter((columnId) => columnId !== id);
+  const index = without.indexOf(targetId);
+  const at = order.indexOf(id) < order.indexOf(targetId) ? index + 1 : index;
+  return [...without.slice(0, at), id, ...without.slice(at)];
+}
+
+export interface TableContext {
+  projects: Project[];
+}
+
+function projectName(task: Task, { projects }: TableContext) {
+  return projects.find((p) => p.id === task.projectId)?.name ?? "Inbox";
+}
+
+/** The raw value behind a cell, used for sorting; null sorts last. */
+export function sortValue(task: Task, column: TableColumn, context: TableContext) {
+  if (column.fieldId) return task.customFields[column.fieldId] ?? null;
+  switch (column.id) {
+    case "title":
+      return task.title;
+    case "status":
+      return TASK_STATUSES.indexOf(task.status);
+    case "project":
+      return projectName(task, context);
+    case "priority":
+      // Most urgent first when ascending.
+      return TASK_PRIORITIES.length - TASK_PRIORITIES.indexOf(task.priority);
+    case "dueDate":
+      return task.dueDate;
+    case "assignee":
+      return task.assignee;
+    case "estimate":
+      return task.estimate;
+    case "tags":
+      return task.tags.length ? task.tags.join(", ") : null;
+    default:
+      return null;
+  }
+}
+
+/** What the cell shows, and what text filters match against. */
+export function displayValue(task: Task, column: TableColumn, context: TableContext) {
+  if (column.fieldId) return String(task.customFields[column.fieldId] ?? "");
+  switch (column.id) {
+    case "status":
+      return statusLabels[task.status];
+    case "priority":
+      return task.priority === "none" ? "" : priorityLabels[task.priority];
+    case "project":
+      return projectName(task, context);
+    case "dueDate":
+      return task.dueDate ? format(new Date(task.dueDate), "MMM d, yyyy") : "";
+    case "tags":
+      return task.tags.map((tag) => `#${tag}`).join(" ");
+    default:
+      return String(sortValue(task, column, context) ?? "");
+  }
+}
+
+export type SortDirection = "asc" | "desc";
+
+export interface TableSort {
+  columnId: string;
+  direction: SortDirection;
+}
+
+export function sortTableTasks(
+  tasks: Task[],
+  sort: TableSort | null,
+  columns: TableColumn[],
+  context: TableContext
+) {
+  const column = sort && columns.find((c) => c.id === sort.columnId);
+  if (!column) return tasks;
+
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return [...tasks].sort((a, b) => {
+    const [x, y] = [sortValue(a, column, context), sortValue(b, column, context)];
+    if (x === y) return 0;
+    // Empty cells stay at the bottom either way.
+    if (x === null || x === "") return 1;
+    if (y === null || y === "") return -1;
+    const order =
+      typeof x === "number" && typeof y === "number"
+        ? x - y
+        : String(x).localeCompare(String(y), undefined, { numeric: true });
+    return order * sign;
+  });
+}
+
+export type DueFilter = "overdue" | "today" | "week" | "none";
+
+export const dueFilterLabels: Record<DueFilter, string> = {
+  overdue: "Overdue",
+  today: "Due today",
+  week: "Next 7 days",
+  none: "No due date",
+};
+
+/** Filter values by column id; status, priority and project hold exact ids. */
+export type TableFilters = Record<string, string>;
+
+/** `null` stands for the Inbox in the project filter. */
+export const INBOX_FILTER = "inbox";
+
+function matchesDue(task: Task, filter: DueFilter, now: Date) {
+  const due = task.dueDate && new Date(task.dueDate);
+  switch (filter) {
+    case "overdue":
+      return isTaskOverdue(task, now);
+    case "today":
+      return !!due && isToday(due);
+    case "week":
+      return !!due && due >= startOfDay(now) && due <= endOfDay(addDays(now, 6));
+    case "none":
+      return !due;
+  }
+}
+
+export function matchesTableFilters(
+  task: Task,
+  columns: TableColumn[],
+  filters: TableFilters,
+  context: TableContext,
+  now = new Date()
+) {
+  return columns.every((column) => {
+    const filter = filters[column.id];
+    if (!filter) return true;
+    switch (column.kind) {
+      case "status":
+        return task.status === filter;
+      case "priority":
+        return task.priority === filter;
+      case "project":
+        return (task.projectId ?? INBOX_FILTER) === filter;
+      case "date":
+        return matchesDue(task, filter as DueFilter, now);
+      default:
+        return displayValue(task, column, context)
+          .toLowerCase()
+          .includes(filter.toLowerCase());
+    }
+  });
+}
+
+/** The text an inline editor starts from. */
+export function editValue(task: Task, column: TableColumn) {
+  if (column.fieldId) return String(task.customFields[column.fieldId] ?? "");
+  switch (column.id) {
+    case "dueDate":
+      return task.dueDate ? format(new Date(task.dueDate), "yyyy-MM-dd") : "";
+    case "tags":
+      return task.tags.join(", ");
+    case "project":
+      return task.projectId ?? INBOX_FILTER;
+    case "estimate":
+      return task.estimate === null ? "" : String(task.estimate);
+    default:
+      return String(sortValue(task, column, { projects: [] }) ?? "");
+  }
+}
+
+function parseNumber(input: string) {
+  if (!input.trim()) return null;
+  const value = Number(input);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Turns an editor's text back into a patch. Returns null when the input is
+ * invalid (e.g. an empty title), which keeps the cell as it was.
+ */
+export function parseCellInput(task: Task, column: TableColumn, input: string): TaskPatch | null {
+  if (column.fieldId) {
+    const { [column.fieldId]: _previous, ...rest } = task.customFields;
+    if (!input.trim()) return { customFields: rest };
+    const value = column.kind === "number" ? parseNumber(input) : input.trim();
+    return value === undefined ? null : { customFields: { ...rest, [column.fieldId]: value } };
+  }
+
+  switch (column.id) {
+    case "title":
+      return input.trim() ? { title: input.trim() } : null;
+    case "status":
+      return TASK_STATUSES.includes(input as Task["status"])
+        ? { status: input as Task["status"] }
+        : null;
+    case "priority":
+      return TASK_PRIORITIES.includes(input as Task["priority"])
+        ? { priority: input as Task["priority"] }
+        : null;
+    case "project":
+      return input === task.projectId || (input === INBOX_FILTER && !task.projectId)
+        ? {}
+        : { projectId: input === INBOX_FILTER ? null : input, sectionId: null };
+    case "dueDate": {
+      if (!input) return { dueDate: null };
+      const day = parse(input, "yyyy-MM-dd", new Date());
+      return Number.isNaN(day.getTime()) ? null : { dueDate: rescheduleToDay(task, day) };
+    }
+    case "assignee":
+      return { assignee: input.trim() || null };
+    case "estimate": {
+      const estimate = parseNumber(input);
+      return estimate === undefined || (estimate !== null && estimate < 0)
+        ? null
+        : { estimate };
+    }
+    case "tags":
+      return {
+        tags: [
+          ...new Set(
+            input
+              .split(/[,\s]+/)
+              .map((tag) => tag.replace(/^#/, "").trim())
+              .filter(Boolean)
+          ),
+        ],
+      };
+    default:
+      return null;
+  }
+}
+
+/** Ids from `anchorId` to `targetId` inclusive, in table order, for shift-click. */
+export function selectRange(orderedIds: string[], anchorId: string, targetId: string) {
+  const [from, to] = [orderedIds.indexOf(anchorId), orderedIds.indexOf(targetId)];
+  if (from === -1 || to === -1) return [targetId];
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
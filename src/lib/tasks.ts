@@ -0,0 +1,282 @@
+import { startOfDay } from "date-fns";
+
+import {
+  firstOccurrence,
+  nextOccurrence,
+  parseRRule,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+import type { NewTask, Task, TaskPatch, TaskTemplate } from "@/types/task";
+
+export function genTaskId() {
+  return crypto.randomUUID();
+}
+
+export function buildTask(input: NewTask, now = new Date()): Task {
+  const timestamp = now.toISOString();
+  const status = input.status ?? "todo";
+
+  const task: Task = {
+    id: genTaskId(),
+    title: input.title.trim(),
+    notes: input.notes ?? "",
+    status,
+    priority: input.priority ?? "none",
+    estimate: input.estimate ?? null,
+    projectId: input.projectId ?? null,
+    sectionId: input.sectionId ?? null,
+    parentId: input.parentId ?? null,
+    assignee: input.assignee ?? null,
+    tags: input.tags ?? [],
+    customFields: input.customFields ?? {},
+    recurrence: input.recurrence ?? null,
+    series: null,
+    order: input.order ?? now.getTime(),
+    dueDate: input.dueDate ?? null,
+    reminders: input.reminders ?? [],
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    completedAt: status === "done" ? timestamp : null,
+    statusHistory: [{ status, at: timestamp }],
+  };
+
+  return task.recurrence ? startSeries(task, now) : task;
+}
+
+/**
+ * Applies a patch and keeps `completedAt` and the status history in step with
+ * the status, so callers only ever have to think about `status`.
+ */
+export function applyTaskPatch(task: Task, patch: TaskPatch, now = new Date()): Task {
+  const timestamp = now.toISOString();
+  const next: Task = { ...task, ...patch, updatedAt: timestamp };
+
+  if (patch.status && patch.status !== task.status) {
+    next.completedAt = patch.status === "done" ? timestamp : null;
+    next.statusHistory = [...task.statusHistory, { status: patch.status, at: timestamp }];
+  }
+
+  if (patch.recurrence !== undefined && patch.recurrence !== task.recurrence) {
+    return patch.recurrence ? startSeries(next, now) : { ...next, series: null };
+  }
+
+  return next;
+}
+
+export function isTaskDone(task: Task) {
+  return task.status === "done";
+}
+
+export function isTaskOverdue(task: Task, now = new Date()) {
+  return !isTaskDone(task) && !!task.dueDate && new Date(task.dueDate) < now;
+}
+
+const priorityRank: Record<Task["priority"], number> = {
+  urgent: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+  none: 4,
+};
+
+/** Open tasks first, then by due date (unscheduled last), then priority. */
+export function compareTasks(a: Task, b: Task) {
+  if (isTaskDone(a) !== isTaskDone(b)) return isTaskDone(a) ? 1 : -1;
+  if (a.dueDate !== b.dueDate) {
+    if (!a.dueDate) return 1;
+    if (!b.dueDate) return -1;
+    return a.dueDate < b.dueDate ? -1 : 1;
+  }
+  if (a.priority !== b.priority) {
+    return priorityRank[a.priority] - priorityRank[b.priority];
+  }
+  return a.createdAt < b.createdAt ? -1 : 1;
+}
+
+export interface NestedTask {
+  task: Task;
+  /** 0 for top-level tasks, 1 for their subtasks, and so on. */
+  depth: number;
+}
+
+/**
+ * Puts each subtask right after its parent, keeping the given order among
+ * siblings. Subtasks whose parent isn't in `tasks` are shown at the top level.
+ */
+export function nestTasks(tasks: Task[]): NestedTask[] {
+  const ids = new Set(tasks.map((task) => task.id));
+  const children = new Map<Task["id"], Task[]>();
+  const roots: Task[] = [];
+  tasks.forEach((task) => {
+    if (task.parentId && task.parentId !== task.id && ids.has(task.parentId)) {
+      children.set(task.parentId, [...(children.get(task.parentId) ?? []), task]);
+    } else {
+      roots.push(task);
+    }
+  });
+
+  const nested: NestedTask[] = [];
+  const visited = new Set<Task["id"]>();
+  const visit = (task: Task, depth: number) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+    nested.push({ task, depth });
+    children.get(task.id)?.forEach((child) => visit(child, depth + 1));
+  };
+  roots.forEach((task) => visit(task, 0));
+  // Parent links that loop have no root to hang from.
+  tasks.forEach((task) => visit(task, 0));
+  return nested;
+}
+
+/** A task to create, with its parent given by position in the same list. */
+export interface TaskTreeNode {
+  input: NewTask;
+  /** Index of the parent node, which must come earlier; null at the top level. */
+  parent: number | null;
+}
+
+/**
+ * Builds tasks for a pasted or imported outline. Creation times step by a
+ * millisecond so tasks that otherwise sort the same keep the outline's order.
+ */
+export function buildTaskTree(nodes: TaskTreeNode[], now = new Date()): Task[] {
+  const tasks: Task[] = [];
+  nodes.forEach(({ input, parent }, index) => {
+    const created = new Date(now.getTime() + index);
+    tasks.push(
+      buildTask(
+        { ...input, parentId: parent === null ? null : tasks[parent].id },
+        created
+      )
+    );
+  });
+  return tasks;
+}
+
+function parseRule(task: Task): RecurrenceRule | null {
+  if (!task.recurrence) return null;
+  try {
+    return parseRRule(task.recurrence);
+  } catch {
+    return null;
+  }
+}
+
+export function templateOf(task: Task): TaskTemplate {
+  return {
+    title: task.title,
+    notes: task.notes,
+    priority: task.priority,
+    tags: task.tags,
+    projectId: task.projectId,
+    sectionId: task.sectionId,
+    assignee: task.assignee,
+  };
+}
+
+/**
+ * Makes `task` the first occurrence of a new series. A recurring task always
+ * has a due date, so one is picked from the rule when missing.
+ */
+export function startSeries(task: Task, now = new Date()): Task {
+  const rule = parseRule(task);
+  if (!rule) return { ...task, series: null };
+
+  const dueDate =
+    task.dueDate ?? firstOccurrence(rule, startOfDay(now)).toISOString();
+
+  return {
+    ...task,
+    dueDate,
+    series: {
+      id: task.series?.id ?? task.id,
+      start: dueDate,
+      occurrenceDate: dueDate,
+      index: 0,
+      template: templateOf(task),
+    },
+  };
+}
+
+/**
+ * Applies an edit to the whole series: the template follows the edit, and a
+ * new rule or due date re-anchors future occurrences on this one.
+ */
+export function applySeriesPatch(task: Task, patch: TaskPatch, now = new Date()): Task {
+  const next = applyTaskPatch(task, patch, now);
+  if (!next.series) return next;
+
+  const reanchor =
+    patch.dueDate !== undefined && patch.dueDate !== task.dueDate && next.dueDate;
+
+  return {
+    ...next,
+    series: {
+      ...next.series,
+      ...(reanchor && { start: next.dueDate, occurrenceDate: next.dueDate }),
+      template: templateOf(next),
+    },
+  };
+}
+
+function nextOccurrenceDate(task: Task, now: Date) {
+  const rule = parseRule(task);
+  if (!rule || !task.series) return null;
+
+  return nextOccurrence(rule, {
+    start: new Date(task.series.start),
+    after: new Date(task.series.occurrenceDate),
+    index: task.series.index,
+    completedAt: now,
+  });
+}
+
+/**
+ * The occurrence that follows `task` once it is completed, built from the
+ * series template so one-off edits do not carry over. Reminders relative to
+ * the due date carry over too; fixed-time ones belong to this occurrence.
+ * Null when the series has ended.
+ */
+export function buildNextOccurrence(task: Task, now = new Date()): Task | null {
+  const date = nextOccurrenceDate(task, now);
+  if (!date || !task.series) return null;
+
+  const occurrence = buildTask(
+    {
+      ...task.series.template,
+      recurrence: task.recurrence,
+      order: task.order,
+      parentId: task.parentId,
+    },
+    now
+  );
+  return {
+    ...occurrence,
+    dueDate: date.toISOString(),
+    reminders: task.reminders
+      .filter((reminder) => reminder.trigger.type !== "at")
+      .map((reminder) => ({ ...reminder, deliveredFor: null, snoozedUntil: null })),
+    series: {
+      ...task.series,
+      occurrenceDate: date.toISOString(),
+      index: task.series.index + 1,
+    },
+  };
+}
+
+/** Moves an open occurrence on to the next date without completing it. */
+export function skipOccurrencePatch(task: Task, now = new Date()): TaskPatch | null {
+  const date = nextOccurrenceDate(task, now);
+  if (!date || !task.series) return null;
+
+  return {
+    ...task.series.template,
+    dueDate: date.toISOString(),
+    series: {
+      ...task.series,
+      occurrenceDate: date.toISOString(),
+      index: task.series.index + 1,
+    },
+  };
+}
@@ -0,0 +1,300 @@
+import { z } from "zod";
+
+import type { CustomTheme, ThemeColors, ThemeMode } from "@/types/theme";
+
+export type ThemeChoice = "light" | "dark" | "system";
+
+/**
+ * Where next-themes keeps the choice. The inline script in `index.html` reads
+ * the same key to apply the theme before the app loads, so keep them in sync.
+ */
+export const THEME_STORAGE_KEY = "todo-gopher-theme";
+
+/** CSS of the active custom theme, cached for the same first-paint script. */
+export const CUSTOM_THEME_STORAGE_KEY = "todo-gopher-custom-theme";
+
+/** Id of the `<style>` element holding the active custom theme. */
+export const CUSTOM_THEME_STYLE_ID = "custom-theme";
+
+export const THEME_CHOICES: ThemeChoice[] = ["light", "dark", "system"];
+
+export const themeLabels: Record<ThemeChoice, string> = {
+  light: "Light",
+  dark: "Dark",
+  system: "System",
+};
+
+export const CHART_COLOR_COUNT = 5;
+
+/**
+ * Colors for `ChartConfig` entries. They point at the theme's chart tokens
+ * rather than fixed values, so charts follow light, dark and custom themes.
+ */
+export const chartColors = Array.from(
+  { length: CHART_COLOR_COUNT },
+  (_, index) => `hsl(var(--chart-${index + 1}))`
+);
+
+/** Contrast ratios WCAG 2.1 AA asks for text and for graphics such as chart series. */
+export const AA_TEXT_CONTRAST = 4.5;
+export const AA_GRAPHICS_CONTRAST = 3;
+
+/** The built-in palettes from `index.css`, as a starting point for new themes. */
+export const baseThemeColors: Record<ThemeMode, ThemeColors> = {
+  light: {
+    background: "#ffffff",
+    foreground: "#020817",
+    primary: "#0f172a",
+    accent: "#f1f5f9",
+    destructive: "#ef4444",
+    sidebar: "#fafafa",
+    charts: ["#e76e50", "#2a9d90", "#274754", "#e8c468", "#f4a462"],
+  },
+  dark: {
+    background: "#020817",
+    foreground: "#f8fafc",
+    primary: "#f8fafc",
+    accent: "#1e293b",
+    destructive: "#7f1d1d",
+    sidebar: "#18181b",
+    charts: ["#2662d9", "#2eb88a", "#e88c30", "#af57db", "#e23670"],
+  },
+};
+
+export const DEFAULT_RADIUS = 0.5;
+
+export function buildCustomTheme(mode: ThemeMode, name = "Custom theme"): CustomTheme {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    mode,
+    colors: structuredClone(baseThemeColors[mode]),
+    radius: DEFAULT_RADIUS,
+  };
+}
+
+type Rgb = [number, number, number];
+
+function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function rgbToHex(rgb: Rgb) {
+  return `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, "0")).join("")}`;
+}
+
+/** `#rrggbb` as the `h s% l%` triple the CSS variables hold. */
+export function hexToHslTriple(hex: string) {
+  const [r, g, b] = hexToRgb(hex).map((c) => c / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  let h = 0;
+  let s = 0;
+  if (d !== 0) {
+    s = d / (1 - Math.abs(2 * l - 1));
+    if (max === r) h = ((g - b) / d) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+    h = (h * 60 + 360) % 360;
+  }
+  const round = (n: number) => Math.round(n * 10) / 10;
+  return `${round(h)} ${round(s * 100)}% ${round(l * 100)}%`;
+}
+
+/** Blends `b` into `a`; `amount` 0 is all `a`, 1 is all `b`. */
+export function mixColors(a: string, b: string, amount: number) {
+  const [from, to] = [hexToRgb(a), hexToRgb(b)];
+  return rgbToHex(from.map((c, i) => c + (to[i] - c) * amount) as Rgb);
+}
+
+function relativeLuminance(hex: string) {
+  const [r, g, b] = hexToRgb(hex).map((c) => {
+    const channel = c / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** WCAG contrast ratio between two colors, from 1 to 21. */
+export function contrastRatio(a: string, b: string) {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort(
+    (x, y) => y - x
+  );
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/** Whichever of the candidates reads best on `color`. */
+function readableOn(color: string, candidates: string[]) {
+  return candidates.reduce((best, candidate) =>
+    contrastRatio(color, candidate) > contrastRatio(color, best) ? candidate : best
+  );
+}
+
+/**
+ * Expands the picked colors into every token `index.css` defines (without the
+ * leading `--`), as `#rrggbb`. Text colors on filled surfaces are whichever
+ * of the theme's foreground or background contrasts more.
+ */
+export function deriveThemeTokens({ colors }: CustomTheme) {
+  const { background, foreground, primary, accent, destructive, sidebar } = colors;
+  const text = [foreground, background];
+  const muted = mixColors(background, foreground, 0.06);
+  const border = mixColors(background, foreground, 0.12);
+  const primaryForeground = readableOn(primary, text);
+  const sidebarForeground = readableOn(sidebar, text);
+
+  const tokens: Record<string, string> = {
+    background,
+    foreground,
+    card: background,
+    "card-foreground": foreground,
+    popover: background,
+    "popover-foreground": foreground,
+    primary,
+    "primary-foreground": primaryForeground,
+    secondary: muted,
+    "secondary-foreground": foreground,
+    muted,
+    "muted-foreground": mixColors(foreground, background, 0.4),
+    accent,
+    "accent-foreground": readableOn(accent, text),
+    destructive,
+    "destructive-foreground": readableOn(destructive, text),
+    border,
+    input: border,
+    ring: primary,
+    "sidebar-background": sidebar,
+    "sidebar-foreground": sidebarForeground,
+    "sidebar-primary": primary,
+    "sidebar-primary-foreground": primaryForeground,
+    "sidebar-accent": mixColors(sidebar, sidebarForeground, 0.08),
+    "sidebar-accent-foreground": sidebarForeground,
+    "sidebar-border": mixColors(sidebar, sidebarForeground, 0.12),
+    "sidebar-ring": primary,
+  };
+  colors.charts.forEach((color, index) => {
+    tokens[`chart-${index + 1}`] = color;
+  });
+  return tokens;
+}
+
+/** The theme's tokens as CSS custom properties, e.g. for an inline `style`. */
+export function themeVariables(theme: CustomTheme) {
+  const variables: Record<string, string> = { "--radius": `${theme.radius}rem` };
+  Object.entries(deriveThemeTokens(theme)).forEach(([token, hex]) => {
+    variables[`--${token}`] = hexToHslTriple(hex);
+  });
+  return variables;
+}
+
+/**
+ * A stylesheet applying the theme in its own mode only. The selectors are
+ * more specific than the ones in `index.css`, so they win regardless of order.
+ */
+export function themeToCss(theme: CustomTheme) {
+  const selector = theme.mode === "dark" ? ":root.dark" : ":root:not(.dark)";
+  const declarations = Object.entries(themeVariables(theme))
+    .map(([name, value]) => `  ${name}: ${value};`)
+    .join("\n");
+  return `${selector} {\n${declarations}\n}`;
+}
+
+export interface ContrastCheck {
+  label: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  required: number;
+  passes: boolean;
+}
+
+/** The text and chart pairings the theme has to keep readable. */
+export function checkThemeContrast(theme: CustomTheme): ContrastCheck[] {
+  const tokens = deriveThemeTokens(theme);
+  type Pair = [label: string, foreground: string, background: string, required: number];
+  const pairs: Pair[] = [
+    ["Text", "foreground", "background", AA_TEXT_CONTRAST],
+    ["Muted text", "muted-foreground", "background", AA_TEXT_CONTRAST],
+    ["Muted text on muted", "muted-foreground", "muted", AA_TEXT_CONTRAST],
+    ["Primary button", "primary-foreground", "primary", AA_TEXT_CONTRAST],
+    ["Accent", "accent-foreground", "accent", AA_TEXT_CONTRAST],
+    ["Destructive button", "destructive-foreground", "destructive", AA_TEXT_CONTRAST],
+    ["Sidebar text", "sidebar-foreground", "sidebar-background", AA_TEXT_CONTRAST],
+    ...theme.colors.charts.map(
+      (_, index): Pair => [
+        `Chart ${index + 1}`,
+        `chart-${index + 1}`,
+        "background",
+        AA_GRAPHICS_CONTRAST,
+      ]
+    ),
+  ];
+
+  return pairs.map(([label, foreground, background, required]) => {
+    const ratio = contrastRatio(tokens[foreground], tokens[background]);
+    return {
+      label,
+      foreground: tokens[foreground],
+      background: tokens[background],
+      ratio,
+      required,
+      passes: ratio >= required,
+    };
+  });
+}
+
+const hexColor = z
+  .string()
+  .regex(/^#[0-9a-f]{6}$/i, "Colors must be hex values like #1e293b")
+  .transform((value) => value.toLowerCase());
+
+const themeFileSchema = z.object({
+  version: z.literal(1),
+  name: z.string().trim().min(1).max(60),
+  mode: z.enum(["light", "dark"]),
+  radius: z.number().min(0).max(2).default(DEFAULT_RADIUS),
+  colors: z.object({
+    background: hexColor,
+    foreground: hexColor,
+    primary: hexColor,
+    accent: hexColor,
+    destructive: hexColor,
+    sidebar: hexColor,
+    charts: z.array(hexColor).length(CHART_COLOR_COUNT),
+  }),
+});
+
+const THEME_FILE_VERSION = 1;
+
+/** Serializes a theme for sharing; the id stays behind since it is local. */
+export function exportTheme({ name, mode, radius, colors }: CustomTheme) {
+  return JSON.stringify(
+    { version: THEME_FILE_VERSION, name, mode, radius, colors },
+    null,
+    2
+  );
+}
+
+/** Reads a file written by `exportTheme`; throws with a readable message otherwise. */
+export function importTheme(json: string): CustomTheme {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+
+  const result = themeFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join(".");
+    throw new Error(path ? `${path}: ${issue.message}` : issue.message);
+  }
+  // Parsed as complete; `strict` is off, so zod's output types are all optional.
+  const { name, mode, radius, colors } = result.data as Omit<CustomTheme, "id">;
+  return { id: crypto.randomUUID(), name, mode, radius, colors };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import { buildProject } from "./projects";
+import { buildTask } from "./tasks";
+import {
+  exportTodoTxt,
+  formatTodoTxtLine,
+  parseTodoTxtLine,
+  planTodoTxtImport,
+  type TodoTxtContext,
+} from "./todotxt";
+import type { CustomFieldDefinition } from "@/types/task";
+
+const now = new Date(2026, 9, 19, 9, 0);
+
+const dueField: CustomFieldDefinition = { id: "field-due", name: "Due", type: "text" };
+const statusField: CustomFieldDefinition = { id: "field-status", name: "Status", type: "text" };
+
+const home = buildProject({ name: "Home Office" }, now);
+
+describe("parseTodoTxtLine", () => {
+  it("reads back what formatTodoTxtLine writes", () => {
+    const context: TodoTxtContext = { projects: [home], customFields: [dueField] };
+    const task = buildTask(
+      {
+        title: "Email +vendor about key:value 100%",
+        status: "in_progress",
+        priority: "high",
+        projectId: home.id,
+        tags: ["follow up", "work"],
+        dueDate: new Date(2026, 9, 30, 14, 30).toISOString(),
+        recurrence: "FREQ=WEEKLY;BYDAY=FR",
+        estimate: 2,
+        assignee: "Sam Lee",
+        customFields: { [dueField.id]: "end of month" },
+      },
+      now
+    );
+
+    expect(parseTodoTxtLine(formatTodoTxtLine(task, context), context.customFields)).toEqual({
+      title: task.title,
+      status: "in_progress",
+      priority: "high",
+      project: "Home_Office",
+      tags: ["follow up", "work"],
+      dueDate: task.dueDate,
+      recurrence: "FREQ=WEEKLY;BYDAY=FR",
+      estimate: 2,
+      assignee: "Sam Lee",
+      customFields: task.customFields,
+      createdAt: new Date(2026, 9, 19).toISOString(),
+      completedAt: null,
+    });
+  });
+
+  it("keeps the priority of completed tasks", () => {
+    const task = buildTask({ title: "Pay rent", status: "done", priority: "urgent" }, now);
+    const entry = parseTodoTxtLine(formatTodoTxtLine(task, { projects: [], customFields: [] }));
+    expect(entry).toMatchObject({ status: "done", priority: "urgent" });
+    expect(entry?.completedAt).toBe(new Date(2026, 9, 19).toISOString());
+  });
+});
+
+describe("planTodoTxtImport", () => {
+  it("creates exported tasks in an empty workspace and skips them in their own", () => {
+    const context: TodoTxtContext = { projects: [home], customFields: [] };
+    const tasks = [
+      buildTask({ title: "Water plants", projectId: home.id, tags: ["daily"] }, now),
+      buildTask({ title: "Book flights", priority: "medium", dueDate: now.toISOString() }, now),
+    ];
+    const text = exportTodoTxt(tasks, context);
+
+    expect(planTodoTxtImport(text, tasks, context, now).items.map((item) => item.action)).toEqual(
+      ["skip", "skip"]
+    );
+    const plan = planTodoTxtImport(text, [], context, now);
+    expect(plan.projects).toEqual([]);
+    expect(plan.items.map((item) => item.task)).toMatchObject([
+      { title: "Water plants", projectId: home.id, tags: ["daily"] },
+      { title: "Book flights", priority: "medium", dueDate: now.toISOString() },
+    ]);
+  });
+
+  it("keeps custom fields named like built-in keys apart from them", () => {
+    const context: TodoTxtContext = { projects: [], customFields: [dueField, statusField] };
+    const task = buildTask(
+      {
+        title: "Renew passport",
+        dueDate: new Date(2026, 9, 30).toISOString(),
+        customFields: { [dueField.id]: "tomorrow", [statusField.id]: "waiting" },
+      },
+      now
+    );
+
+    const text = exportTodoTxt([task], context);
+    expect(text).toContain("field_due:tomorrow");
+
+    const plan = planTodoTxtImport(text, [task], context, now);
+    expect(plan.items.map((item) => item.action)).toEqual(["skip"]);
+
+    const [created] = planTodoTxtImport(text, [], context, now).items;
+    expect(created.task).toMatchObject({
+      title: "Renew passport",
+      dueDate: task.dueDate,
+      status: "todo",
+      customFields: task.customFields,
+    });
+  });
+
+  it("reads back a field whose own name starts with the prefix", () => {
+    const field: CustomFieldDefinition = { id: "field-x", name: "field_due", type: "text" };
+    const context: TodoTxtContext = {
+      projects: [buildProject({ name: "Home" }, now)],
+      customFields: [dueField, field],
+    };
+    const task = buildTask(
+      { title: "Fix tap", customFields: { [dueField.id]: "a", [field.id]: "b" } },
+      now
+    );
+    const plan = planTodoTxtImport(exportTodoTxt([task], context), [task], context, now);
+    expect(plan.items.map((item) => item.action)).toEqual(["skip"]);
+  });
+});
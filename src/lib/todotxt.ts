@@ -0,0 +1,362 @@
+import { format, isValid, parse } from "date-fns";
+
+import { hasTimeOfDay } from "@/lib/calendar";
+import {
+  buildImportedTask,
+  changedFields,
+  createProjectResolver,
+  describeChanges,
+  mergeImportedTask,
+  taskIdentity,
+  type ImportItem,
+  type ImportPlan,
+} from "@/lib/import";
+import type { Project } from "@/types/project";
+import {
+  TASK_STATUSES,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  type Task,
+  type TaskPatch,
+  type TaskPriority,
+  type TaskStatus,
+} from "@/types/task";
+
+/**
+ * todo.txt (https://github.com/todotxt/todo.txt) maps onto tasks like this:
+ *
+ * - `x 2026-10-02 2026-09-30` — done, with completion and creation dates
+ * - `(A)`…`(D)` — urgent, high, medium, low; `pri:A` keeps it on done tasks
+ * - `+Project` — the project, `_` standing for spaces in its name
+ * - `@context` — a tag
+ * - `due:2026-10-05` or `due:2026-10-05T14:30` — the due date
+ * - `rec:` — repeat, as an RRULE body or todo.txt's own `2w`
+ * - `status:in_progress`, `est:3`, `assignee:Sam` — the matching fields
+ * - `field_name:value` — a custom field, by its name; names that would read
+ *   back as one of the keys above, such as "Due", get a `field_` prefix
+ *
+ * Extension values and tags escape spaces and `%` as `%20` and `%25`. Anything
+ * else, including unknown `key:value` pairs, stays part of the title. Title
+ * words that would read back as one of the above escape their leading `+` or
+ * `@` and their colons.
+ */
+
+const DATE_FORMAT = "yyyy-MM-dd";
+const DATE_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const priorityLetters: Partial<Record<TaskPriority, string>> = {
+  urgent: "A",
+  high: "B",
+  medium: "C",
+  low: "D",
+};
+
+const recurrenceUnits: Record<string, string> = {
+  d: "FREQ=DAILY",
+  b: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+  w: "FREQ=WEEKLY",
+  m: "FREQ=MONTHLY",
+  y: "FREQ=YEARLY",
+};
+
+const RESERVED_KEYS = ["due", "rec", "status", "est", "assignee", "pri"];
+
+/** What one todo.txt line says, before it is matched against the workspace. */
+export interface TodoTxtEntry {
+  title: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  project: string | null;
+  tags: string[];
+  dueDate: string | null;
+  recurrence: string | null;
+  estimate: number | null;
+  assignee: string | null;
+  customFields: Record<string, CustomFieldValue>;
+  createdAt: string | null;
+  completedAt: string | null;
+}
+
+function letterToPriority(letter: string): TaskPriority {
+  const match = Object.entries(priorityLetters).find(([, l]) => l === letter);
+  return match ? (match[0] as TaskPriority) : "low";
+}
+
+const FIELD_KEY_PREFIX = "field_";
+
+/** The key a custom field is written under; the prefix keeps it apart from the built-in ones. */
+function fieldKey(name: string) {
+  const key = name.trim().toLowerCase().replace(/\s+/g, "_");
+  return RESERVED_KEYS.includes(key) || key.startsWith(FIELD_KEY_PREFIX)
+    ? `${FIELD_KEY_PREFIX}${key}`
+    : key;
+}
+
+function encodeValue(value: string) {
+  return value.replace(/%/g, "%25").replace(/\s/g, "%20");
+}
+
+function decodeValue(value: string) {
+  return value.replace(/%20/g, " ").replace(/%25/g, "%");
+}
+
+/** Words that would read back as a project, tag or extension, or as an escaped word. */
+const UNSAFE_TITLE_WORD = /^[+@]|^[^\s:]+:\S+$|%(25|2B|3A|40)/i;
+
+function escapeTitleWord(word: string) {
+  if (!UNSAFE_TITLE_WORD.test(word)) return word;
+  return word
+    .replace(/%/g, "%25")
+    .replace(/:/g, "%3A")
+    .replace(/^\+/, "%2B")
+    .replace(/^@/, "%40");
+}
+
+function unescapeTitleWord(word: string) {
+  return word.replace(/%(25|2B|3A|40)/gi, (_, hex: string) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+}
+
+function parseDay(value: string) {
+  const day = parse(value, DATE_FORMAT, new Date());
+  return isValid(day) ? day : null;
+}
+
+function parseDue(value: string) {
+  const date = value.includes("T")
+    ? parse(value, DATE_TIME_FORMAT, new Date())
+    : parseDay(value);
+  return date && isValid(date) ? date.toISOString() : null;
+}
+
+function parseRecurrence(value: string) {
+  if (/FREQ=/i.test(value)) return value.toUpperCase();
+  const match = /^\+?(\d+)([dbwmy])$/i.exec(value);
+  if (!match) return null;
+  const interval = Number(match[1]);
+  const rule = recurrenceUnits[match[2].toLowerCase()];
+  return interval > 1 ? `${rule};INTERVAL=${interval}` : rule;
+}
+
+/** Reads one line; null for blank lines. */
+export function parseTodoTxtLine(
+  line: string,
+  fields: CustomFieldDefinition[] = []
+): TodoTxtEntry | null {
+  let rest = line.trim();
+  if (!rest) return null;
+
+  const entry: TodoTxtEntry = {
+    title: "",
+    status: "todo",
+    priority: "none",
+    project: null,
+    tags: [],
+    dueDate: null,
+    recurrence: null,
+    estimate: null,
+    assignee: null,
+    customFields: {},
+    createdAt: null,
+    completedAt: null,
+  };
+  const takeDate = () => {
+    const match = /^(\d{4}-\d{2}-\d{2})\s+/.exec(rest);
+    const day = match && parseDay(match[1]);
+    if (!day) return null;
+    rest = rest.slice(match[0].length);
+    return day.toISOString();
+  };
+
+  if (/^x\s/.test(rest)) {
+    entry.status = "done";
+    rest = rest.slice(2).trimStart();
+    entry.completedAt = takeDate();
+  } else {
+    const priority = /^\(([A-Z])\)\s+/.exec(rest);
+    if (priority) {
+      entry.priority = letterToPriority(priority[1]);
+      rest = rest.slice(priority[0].length);
+    }
+  }
+  entry.createdAt = takeDate();
+
+  const fieldsByKey = new Map(fields.map((field) => [fieldKey(field.name), field]));
+  const words: string[] = [];
+  let projectIndex = -1;
+
+  rest.split(/\s+/).forEach((word) => {
+    if (/^\+\S/.test(word)) {
+      projectIndex = words.length;
+      words.push(word);
+      return;
+    }
+    if (/^@\S/.test(word)) {
+      const tag = decodeValue(word.slice(1));
+      if (!entry.tags.includes(tag)) entry.tags.push(tag);
+      return;
+    }
+
+    const extension = /^([^\s:]+):(\S+)$/.exec(word);
+    const key = extension?.[1].toLowerCase();
+    const value = extension && decodeValue(extension[2]);
+    const field = key && !RESERVED_KEYS.includes(key) ? fieldsByKey.get(key) : undefined;
+    let used = true;
+    if (key === "due") {
+      entry.dueDate = parseDue(value);
+      used = entry.dueDate !== null;
+    } else if (key === "rec") {
+      entry.recurrence = parseRecurrence(value);
+      used = entry.recurrence !== null;
+    } else if (key === "status" && TASK_STATUSES.includes(value as TaskStatus)) {
+      // Completion markers win over a contradicting status.
+      if (entry.status !== "done") entry.status = value as TaskStatus;
+    } else if (key === "est" && Number.isFinite(Number(value))) {
+      entry.estimate = Number(value);
+    } else if (key === "assignee") {
+      entry.assignee = value;
+    } else if (key === "pri" && /^[A-Z]$/.test(value)) {
+      entry.priority = letterToPriority(value);
+    } else if (field && (field.type === "text" || Number.isFinite(Number(value)))) {
+      entry.customFields[field.id] = field.type === "number" ? Number(value) : value;
+    } else {
+      used = false;
+    }
+    if (!used) words.push(unescapeTitleWord(word));
+  });
+
+  // With several `+` words the last names the project; the others are
+  // probably part of the title, which exports put first.
+  if (projectIndex !== -1) {
+    entry.project = words[projectIndex].slice(1);
+    words.splice(projectIndex, 1);
+  }
+  entry.title = words.join(" ");
+  return entry;
+}
+
+export interface TodoTxtContext {
+  projects: Project[];
+  customFields: CustomFieldDefinition[];
+}
+
+export function formatTodoTxtLine(task: Task, { projects, customFields }: TodoTxtContext) {
+  const letter = priorityLetters[task.priority];
+  const created = format(new Date(task.createdAt), DATE_FORMAT);
+  const parts =
+    task.status === "done"
+      ? ["x", format(new Date(task.completedAt ?? task.updatedAt), DATE_FORMAT), created]
+      : [...(letter ? [`(${letter})`] : []), created];
+
+  parts.push(task.title.split(" ").map(escapeTitleWord).join(" "));
+  const project = projects.find((p) => p.id === task.projectId);
+  if (project) parts.push(`+${project.name.trim().replace(/\s+/g, "_")}`);
+  task.tags.forEach((tag) => parts.push(`@${encodeValue(tag)}`));
+  if (task.dueDate) {
+    const due = new Date(task.dueDate);
+    const pattern = hasTimeOfDay(task.dueDate) ? DATE_TIME_FORMAT : DATE_FORMAT;
+    parts.push(`due:${format(due, pattern)}`);
+  }
+  if (task.recurrence) parts.push(`rec:${task.recurrence}`);
+  if (task.status === "in_progress") parts.push("status:in_progress");
+  if (task.estimate !== null) parts.push(`est:${task.estimate}`);
+  if (task.assignee) parts.push(`assignee:${encodeValue(task.assignee)}`);
+  if (task.status === "done" && letter) parts.push(`pri:${letter}`);
+  customFields.forEach((field) => {
+    const value = task.customFields[field.id];
+    if (value !== undefined && value !== "") {
+      parts.push(`${fieldKey(field.name)}:${encodeValue(String(value))}`);
+    }
+  });
+  return parts.join(" ");
+}
+
+/** Open tasks first, each group in the usual order, one task per line. */
+export function exportTodoTxt(tasks: Task[], context: TodoTxtContext) {
+  const sorted = [...tasks].sort(
+    (a, b) => Number(a.status === "done") - Number(b.status === "done") || a.order - b.order
+  );
+  return sorted.map((task) => `${formatTodoTxtLine(task, context)}\n`).join("");
+}
+
+/**
+ * Decides what importing `text` would do. A line matching an existing task
+ * (same title and project) is merged when any supported field differs and
+ * skipped otherwise, so re-importing an export changes nothing.
+ */
+export function planTodoTxtImport(
+  text: string,
+  tasks: Task[],
+  { projects, customFields }: TodoTxtContext,
+  now = new Date()
+): ImportPlan {
+  const resolver = createProjectResolver(projects, now);
+  const existing = new Map<string, Task>();
+  tasks.forEach((task) => {
+    const key = taskIdentity(task);
+    if (!existing.has(key)) existing.set(key, task);
+  });
+  const seen = new Set<string>();
+
+  const items = text.split(/\r?\n/).flatMap((line, index): ImportItem[] => {
+    const entry = parseTodoTxtLine(line, customFields);
+    if (!entry) return [];
+    const base = { line: index + 1, title: entry.title || line.trim() };
+    if (!entry.title) return [{ ...base, action: "skip", detail: "No task text" }];
+
+    const projectId = resolver.resolve(entry.project);
+    const key = taskIdentity({ title: entry.title, projectId });
+    if (seen.has(key)) return [{ ...base, action: "skip", detail: "Repeats an earlier line" }];
+    seen.add(key);
+
+    const fields: TaskPatch = {
+      status: entry.status,
+      priority: entry.priority,
+      projectId,
+      tags: entry.tags,
+      dueDate: entry.dueDate,
+      recurrence: entry.recurrence,
+      estimate: entry.estimate,
+      assignee: entry.assignee,
+      customFields: entry.customFields,
+    };
+
+    const match = existing.get(key);
+    if (match) {
+      const patch = changedFields(match, {
+        ...fields,
+        // Values of deleted fields can't be in the file, so they are kept.
+        customFields: {
+          ...Object.fromEntries(
+            Object.entries(match.customFields).filter(
+              ([id]) => !customFields.some((field) => field.id === id)
+            )
+          ),
+          ...entry.customFields,
+        },
+      });
+      if (Object.keys(patch).length === 0) {
+        return [{ ...base, action: "skip", detail: "Already up to date" }];
+      }
+      return [
+        {
+          ...base,
+          action: "merge",
+          detail: describeChanges(patch),
+          task: mergeImportedTask(match, patch, entry, now),
+        },
+      ];
+    }
+
+    return [
+      {
+        ...base,
+        action: "create",
+        task: buildImportedTask({ ...fields, title: entry.title }, entry, now),
+      },
+    ];
+  });
+
+  return { items, projects: resolver.created };
+}
@@ -0,0 +1,93 @@
+/**
+ * Layout maths for windowed lists: only the items near the viewport are
+ * rendered, and the space of the others is reserved from their measured (or
+ * estimated) heights so the scrollbar stays truthful.
+ */
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+  /** Distance from the top of the list to the item, gaps included. */
+  start: number;
+  size: number;
+}
+
+export interface VirtualRange {
+  /** First rendered index. */
+  start: number;
+  /** One past the last rendered index. */
+  end: number;
+}
+
+/**
+ * Start offset of every item plus the total height as the last entry, so
+ * `offsets[i + 1] - offsets[i]` is an item's size plus the gap after it.
+ * Items never measured count as `estimate`.
+ */
+export function computeOffsets(
+  keys: string[],
+  sizes: Map<string, number>,
+  estimate: number,
+  gap = 0
+) {
+  const offsets = new Float64Array(keys.length + 1);
+  for (let i = 0; i < keys.length; i++) {
+    offsets[i + 1] = offsets[i] + (sizes.get(keys[i]) ?? estimate) + gap;
+  }
+  // No gap after the last item.
+  if (keys.length > 0) offsets[keys.length] -= gap;
+  return offsets;
+}
+
+export function totalSize(offsets: Float64Array) {
+  return offsets[offsets.length - 1];
+}
+
+/** Index of the item covering `position`, clamped to the list. */
+export function indexAt(offsets: Float64Array, position: number) {
+  const count = offsets.length - 1;
+  if (count <= 0) return 0;
+  let [low, high] = [0, count - 1];
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+/**
+ * Items overlapping `[top, top + height)` in list coordinates, widened by
+ * `overscan` items on each side so fast scrolling doesn't show blank space.
+ */
+export function visibleRange(
+  offsets: Float64Array,
+  top: number,
+  height: number,
+  overscan: number
+): VirtualRange {
+  const count = offsets.length - 1;
+  if (count <= 0 || height <= 0) return { start: 0, end: Math.min(count, overscan) };
+  const first = indexAt(offsets, Math.max(top, 0));
+  const last = indexAt(offsets, Math.max(top + height - 1, 0));
+  return {
+    start: Math.max(first - overscan, 0),
+    end: Math.min(last + overscan + 1, count),
+  };
+}
+
+/**
+ * How far to scroll, in list coordinates, to bring an item fully into a
+ * viewport showing `[top, top + height)`; null when it already is. Scrolls
+ * as little as possible, like `scrollIntoView({ block: "nearest" })`.
+ */
+export function scrollOffsetFor(
+  start: number,
+  size: number,
+  top: number,
+  height: number
+): number | null {
+  if (start < top) return start;
+  if (start + size > top + height) return Math.min(start, start + size - height);
+  return null;
+}
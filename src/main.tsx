@@ -3,3 +3,11 @@ import App from './App.tsx'
 import './index.css'
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+if (import.meta.env.DEV) {
+  // Performance fixtures, from the console: `await seedBenchmarkTasks()` adds
+  // 50k tasks and `await clearBenchmarkTasks()` removes them again.
+  void import("./hooks/use-benchmark").then(({ seedBenchmarkTasks, clearBenchmarkTasks }) =>
+    Object.assign(window, { seedBenchmarkTasks, clearBenchmarkTasks })
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Columns3 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import BoardColumnsDialog from "@/components/board/BoardColumnsDialog";
+import BoardView from "@/components/board/BoardView";
+import TaskEditDialog from "@/components/tasks/TaskEditDialog";
+import { useProjects } from "@/hooks/use-projects";
+import { useSettings } from "@/hooks/use-settings";
+import { useTasks } from "@/hooks/use-tasks";
+import { toast } from "@/hooks/use-toast";
+import { getBoardColumns, orderBetween } from "@/lib/board";
+import type { Task, TaskStatus } from "@/types/task";
+
+const ALL_PROJECTS = "all";
+
+const Board = () => {
+  const { tasks, updateTask } = useTasks();
+  const { projects, updateProject } = useProjects();
+  const { settings, updateSettings } = useSettings();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [editing, setEditing] = useState<Task | null>(null);
+  const [configuring, setConfiguring] = useState(false);
+
+  const projectId = searchParams.get("project");
+  const project = projects.find((p) => p.id === projectId);
+  const columns = getBoardColumns(project, settings.boardColumns);
+  const visible = project
+    ? tasks.filter((task) => task.projectId === project.id)
+    : tasks;
+
+  const handleMove = (task: Task, status: TaskStatus, before?: Task, after?: Task) => {
+    const column = columns.find((c) => c.status === status);
+    if (column && status !== task.status && column.wipLimit !== null) {
+      const count = visible.filter((t) => t.status === status).length + 1;
+      if (count > column.wipLimit) {
+        toast({
+          variant: "destructive",
+          title: `${column.name} is over its WIP limit`,
+          description: `${count} cards in a column limited to ${column.wipLimit}.`,
+        });
+      }
+    }
+    updateTask(task.id, { status, order: orderBetween(before, after) });
+  };
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h1 className="mr-auto text-2xl font-bold">Board</h1>
+        <Select
+          value={project?.id ?? ALL_PROJECTS}
+          onValueChange={(value) =>
+            setSearchParams(value === ALL_PROJECTS ? {} : { project: value })
+          }
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_PROJECTS}>All tasks</SelectItem>
+            {projects.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={() => setConfiguring(true)}>
+          <Columns3 />
+          Columns
+        </Button>
+      </div>
+      <BoardView
+        tasks={visible}
+        columns={columns}
+        onOpenTask={setEditing}
+        onMove={handleMove}
+      />
+      <BoardColumnsDialog
+        open={configuring}
+        columns={columns}
+        scopeLabel={project ? project.name : "all tasks"}
+        onOpenChange={setConfiguring}
+        onSave={(boardColumns) =>
+          project
+            ? updateProject(project.id, { columns: boardColumns })
+            : updateSettings({ boardColumns })
+        }
+        onReset={
+          project?.columns
+            ? () => updateProject(project.id, { columns: null })
+            : undefined
+        }
+      />
+      <TaskEditDialog
+        task={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+    </div>
+  );
+};
+
+export default Board;
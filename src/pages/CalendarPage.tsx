@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import {
+  DndContext,
+  DragOverlay,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarTaskChipContent } from "@/components/calendar/CalendarTaskChip";
+import { PlannerContext } from "@/components/calendar/planner-context";
+import { DayView, MonthView, WeekView } from "@/components/calendar/PlannerViews";
+import UnscheduledPanel, {
+  UNSCHEDULED_DROP_ID,
+} from "@/components/calendar/UnscheduledPanel";
+import TaskEditDialog from "@/components/tasks/TaskEditDialog";
+import { useTasks } from "@/hooks/use-tasks";
+import {
+  formatCursor,
+  groupTasksByDay,
+  parseDayKey,
+  rescheduleToDay,
+  shiftCursor,
+  type CalendarMode,
+} from "@/lib/calendar";
+import { compareTasks, isTaskDone } from "@/lib/tasks";
+import type { Task } from "@/types/task";
+
+const CalendarPage = () => {
+  const { tasks, updateTask } = useTasks();
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [editing, setEditing] = useState<Task | null>(null);
+  const [dragging, setDragging] = useState<Task | null>(null);
+
+  const tasksByDay = useMemo(() => groupTasksByDay(tasks), [tasks]);
+  const unscheduled = useMemo(
+    () =>
+      tasks
+        .filter((task) => !task.dueDate && !isTaskDone(task))
+        .sort(compareTasks),
+    [tasks]
+  );
+
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, {
+      activationConstraint: { delay: 200, tolerance: 5 },
+    }),
+    useSensor(KeyboardSensor)
+  );
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setDragging(null);
+    const task = tasks.find((t) => t.id === active.id);
+    if (!task || !over) return;
+
+    const target = String(over.id);
+    if (target === UNSCHEDULED_DROP_ID) {
+      if (task.dueDate) updateTask(task.id, { dueDate: null });
+      return;
+    }
+    if (target.startsWith("day:")) {
+      const dueDate = rescheduleToDay(task, parseDayKey(target.slice(4)));
+      if (dueDate !== task.dueDate) updateTask(task.id, { dueDate });
+    }
+  };
+
+  return (
+    <PlannerContext.Provider value={{ tasksByDay, onOpenTask: setEditing }}>
+      <DndContext
+        sensors={sensors}
+        onDragStart={({ active }) =>
+          setDragging(tasks.find((t) => t.id === active.id) ?? null)
+        }
+        onDragEnd={handleDragEnd}
+        onDragCancel={() => setDragging(null)}
+      >
+        <div className="flex flex-1 flex-col gap-4 p-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <h1 className="mr-auto text-2xl font-bold">
+              {formatCursor(cursor, mode)}
+            </h1>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as CalendarMode)}
+            >
+              <ToggleGroupItem value="month">Month</ToggleGroupItem>
+              <ToggleGroupItem value="week">Week</ToggleGroupItem>
+              <ToggleGroupItem value="day">Day</ToggleGroupItem>
+            </ToggleGroup>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Previous"
+                onClick={() => setCursor((c) => shiftCursor(c, mode, -1))}
+              >
+                <ChevronLeft />
+              </Button>
+              <Button variant="outline" onClick={() => setCursor(new Date())}>
+                Today
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Next"
+                onClick={() => setCursor((c) => shiftCursor(c, mode, 1))}
+              >
+                <ChevronRight />
+              </Button>
+            </div>
+          </div>
+          <div className="flex flex-col gap-4 lg:flex-row">
+            <div className="min-w-0 flex-1">
+              {mode === "month" && <MonthView month={cursor} />}
+              {mode === "week" && <WeekView date={cursor} />}
+              {mode === "day" && <DayView date={cursor} />}
+            </div>
+            <UnscheduledPanel tasks={unscheduled} onOpenTask={setEditing} />
+          </div>
+        </div>
+        <DragOverlay>
+          {dragging && <CalendarTaskChipContent task={dragging} overlay />}
+        </DragOverlay>
+      </DndContext>
+      <TaskEditDialog
+        task={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+    </PlannerContext.Provider>
+  );
+};
+
+export default CalendarPage;
@@ -1,13 +1,113 @@
-// Update this page (the content is just a fallback if you fail to update the page)
+import { useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import ExportMenu from "@/components/import-export/ExportMenu";
+import TaskEditDialog from "@/components/tasks/TaskEditDialog";
+import TaskList from "@/components/tasks/TaskList";
+import TaskQuickAdd from "@/components/tasks/TaskQuickAdd";
+import { useProjects } from "@/hooks/use-projects";
+import { useSettings } from "@/hooks/use-settings";
+import { useTaskSelection } from "@/hooks/use-task-selection";
+import { useTasks } from "@/hooks/use-tasks";
+import { compareTasks, isTaskDone } from "@/lib/tasks";
+import type { Task } from "@/types/task";
 
 const Index = () => {
+  const { tasks, isLoading, createTask, completeTask, deleteTask } = useTasks();
+  const { projects } = useProjects();
+  const { settings, updateSettings } = useSettings();
+  const { selectedIds, toggleSelected } = useTaskSelection();
+  const [editing, setEditing] = useState<Task | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tag = searchParams.get("tag");
+
+  const sorted = useMemo(
+    () =>
+      tasks
+        .filter((task) => !tag || task.tags.includes(tag))
+        .sort(compareTasks),
+    [tasks, tag]
+  );
+  const open = sorted.filter((task) => !isTaskDone(task));
+  const done = sorted.filter(isTaskDone);
+
+  const handlers = {
+    onToggle: (task: Task, completed: boolean) => completeTask(task.id, completed),
+    onEdit: setEditing,
+    onDelete: (task: Task) => deleteTask(task.id),
+    onSelect: (task: Task) => toggleSelected(task.id),
+    selectedIds,
+  };
+
   return (
-    <div className="min-h-screen flex items-center justify-center bg-background">
-      <div className="text-center">
-        <h1 className="text-4xl font-bold mb-4">Welcome to Your Blank App</h1>
-        <p className="text-xl text-muted-foreground">Start building your amazing project here!</p>
+    <>
+      <div className="mx-auto flex max-w-2xl flex-col gap-6 px-4 py-10">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold">Tasks</h1>
+            {tag && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setSearchParams({})}
+                aria-label={`Stop filtering by #${tag}`}
+              >
+                #{tag}
+                <X />
+              </Button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <ExportMenu
+              name={tag ? `#${tag}` : "Tasks"}
+              tasks={settings.showCompleted ? sorted : open}
+            />
+            <Switch
+              id="show-completed"
+              checked={settings.showCompleted}
+              onCheckedChange={(showCompleted) => updateSettings({ showCompleted })}
+            />
+            <Label htmlFor="show-completed">Show completed</Label>
+          </div>
+        </div>
+        <TaskQuickAdd projects={projects} onAdd={createTask} />
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Open · {open.length}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TaskList
+              tasks={open}
+              emptyMessage={
+                isLoading
+                  ? "Loading tasks…"
+                  : "All clear. Add a task above to get started."
+              }
+              {...handlers}
+            />
+          </CardContent>
+        </Card>
+        {settings.showCompleted && done.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Completed · {done.length}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TaskList tasks={done} {...handlers} />
+            </CardContent>
+          </Card>
+        )}
       </div>
-    </div>
+      <TaskEditDialog
+        task={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+    </>
   );
 };
 
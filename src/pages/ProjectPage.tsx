@@ -0,0 +1,180 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { MoreHorizontal, Plus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import ExportMenu from "@/components/import-export/ExportMenu";
+import ProjectColorDot from "@/components/projects/ProjectColorDot";
+import SectionFormDialog from "@/components/projects/SectionFormDialog";
+import TaskEditDialog from "@/components/tasks/TaskEditDialog";
+import TaskList from "@/components/tasks/TaskList";
+import TaskQuickAdd from "@/components/tasks/TaskQuickAdd";
+import { useProjects } from "@/hooks/use-projects";
+import { useSettings } from "@/hooks/use-settings";
+import { useTaskSelection } from "@/hooks/use-task-selection";
+import { useTasks } from "@/hooks/use-tasks";
+import { sortedSections } from "@/lib/projects";
+import { compareTasks, isTaskDone } from "@/lib/tasks";
+import type { ProjectSection } from "@/types/project";
+import type { Task } from "@/types/task";
+import NotFound from "./NotFound";
+
+const ProjectPage = () => {
+  const { projectId } = useParams();
+  const [searchParams] = useSearchParams();
+  const { tasks, isLoading, createTask, completeTask, deleteTask } = useTasks();
+  const { projects, isLoading: projectsLoading, addSection, updateSection, deleteSection } =
+    useProjects();
+  const { settings } = useSettings();
+  const { selectedIds, toggleSelected } = useTaskSelection();
+  const [editing, setEditing] = useState<Task | null>(null);
+  const [sectionDialog, setSectionDialog] = useState<{
+    section?: ProjectSection;
+  } | null>(null);
+
+  const project = projects.find((p) => p.id === projectId);
+  const sectionId = searchParams.get("section");
+  const children = projects.filter((p) => p.parentId === projectId && !p.archived);
+
+  const projectTasks = useMemo(
+    () =>
+      tasks
+        .filter((task) => task.projectId === projectId)
+        .filter((task) => settings.showCompleted || !isTaskDone(task))
+        .sort(compareTasks),
+    [tasks, projectId, settings.showCompleted]
+  );
+
+  useEffect(() => {
+    if (sectionId) {
+      document
+        .getElementById(`section-${sectionId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "start" });
+    }
+  }, [sectionId, project]);
+
+  if (!project) {
+    return projectsLoading ? null : <NotFound />;
+  }
+
+  const sections = sortedSections(project);
+  const sectionIds = new Set(sections.map((s) => s.id));
+  const handlers = {
+    onToggle: (task: Task, completed: boolean) => completeTask(task.id, completed),
+    onEdit: setEditing,
+    onDelete: (task: Task) => deleteTask(task.id),
+    onSelect: (task: Task) => toggleSelected(task.id),
+    selectedIds,
+  };
+
+  return (
+    <>
+      <div className="mx-auto flex w-full max-w-2xl flex-col gap-6 px-4 py-10">
+        <div className="flex items-center gap-3">
+          <ProjectColorDot color={project.color} className="h-3.5 w-3.5" />
+          <h1 className="mr-auto text-3xl font-bold">{project.name}</h1>
+          <ExportMenu name={project.name} tasks={tasks.filter((task) => task.projectId === project.id)} />
+          <Button variant="outline" onClick={() => setSectionDialog({})}>
+            <Plus />
+            Section
+          </Button>
+        </div>
+        {children.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {children.map((child) => (
+              <Button key={child.id} variant="secondary" size="sm" asChild>
+                <Link to={`/projects/${child.id}`}>
+                  <ProjectColorDot color={child.color} />
+                  {child.name}
+                </Link>
+              </Button>
+            ))}
+          </div>
+        )}
+        <TaskQuickAdd
+          projects={projects}
+          defaults={{
+            projectId: project.id,
+            sectionId: sectionId && sectionIds.has(sectionId) ? sectionId : null,
+          }}
+          onAdd={createTask}
+        />
+        <Card>
+          <CardContent className="pt-6">
+            <TaskList
+              tasks={projectTasks.filter(
+                (task) => !task.sectionId || !sectionIds.has(task.sectionId)
+              )}
+              emptyMessage={isLoading ? "Loading tasks…" : "No tasks outside sections."}
+              {...handlers}
+            />
+          </CardContent>
+        </Card>
+        {sections.map((section) => (
+          <Card
+            key={section.id}
+            id={`section-${section.id}`}
+            className={section.id === sectionId ? "ring-2 ring-ring" : undefined}
+          >
+            <CardHeader className="flex-row items-center space-y-0">
+              <CardTitle className="mr-auto text-lg">{section.name}</CardTitle>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label={`${section.name} options`}
+                  >
+                    <MoreHorizontal />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => setSectionDialog({ section })}>
+                    Rename…
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    className="text-destructive focus:text-destructive"
+                    onSelect={() => deleteSection(project.id, section.id)}
+                  >
+                    Delete section
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </CardHeader>
+            <CardContent>
+              <TaskList
+                tasks={projectTasks.filter((task) => task.sectionId === section.id)}
+                emptyMessage="No tasks in this section."
+                {...handlers}
+              />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <SectionFormDialog
+        open={!!sectionDialog}
+        name={sectionDialog?.section?.name}
+        onOpenChange={(open) => !open && setSectionDialog(null)}
+        onSubmit={(name) =>
+          sectionDialog?.section
+            ? updateSection(project.id, sectionDialog.section.id, { name })
+            : addSection(project.id, name)
+        }
+      />
+      <TaskEditDialog
+        task={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+    </>
+  );
+};
+
+export default ProjectPage;
@@ -0,0 +1,218 @@
+import { useRef, useState } from "react";
+import { useTheme } from "next-themes";
+import { Download, Pencil, Plus, Trash2, Upload } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import BackupCard from "@/components/import-export/BackupCard";
+import ImportExportCard from "@/components/import-export/ImportExportCard";
+import ThemeEditor from "@/components/theme/ThemeEditor";
+import { useCustomThemes } from "@/hooks/use-custom-themes";
+import { toast } from "@/hooks/use-toast";
+import {
+  THEME_CHOICES,
+  buildCustomTheme,
+  exportTheme,
+  importTheme,
+  themeLabels,
+  type ThemeChoice,
+} from "@/lib/theme";
+import { downloadFile } from "@/lib/utils";
+import type { CustomTheme, ThemeMode } from "@/types/theme";
+
+function downloadTheme(theme: CustomTheme) {
+  downloadFile(
+    exportTheme(theme),
+    `${theme.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.theme.json`,
+    "application/json"
+  );
+}
+
+const SettingsPage = () => {
+  const { theme = "system", resolvedTheme, setTheme } = useTheme();
+  const {
+    customThemes,
+    activeTheme,
+    saveCustomTheme,
+    deleteCustomTheme,
+    activateCustomTheme,
+  } = useCustomThemes();
+  const [editing, setEditing] = useState<CustomTheme | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const applyCustomTheme = (custom: CustomTheme) => {
+    activateCustomTheme(custom.id);
+    // Custom themes only replace their own mode, so switch to it to show it.
+    setTheme(custom.mode);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = saveCustomTheme(importTheme(await file.text()));
+      toast({ title: `Imported “${imported.name}”` });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't import that theme",
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-5xl flex-col gap-6 px-4 py-10">
+      <h1 className="text-3xl font-bold">Settings</h1>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Appearance</CardTitle>
+          <CardDescription>
+            System follows your device&apos;s light or dark setting.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={theme}
+            onValueChange={(value) => value && setTheme(value as ThemeChoice)}
+            className="justify-start"
+          >
+            {THEME_CHOICES.map((choice) => (
+              <ToggleGroupItem key={choice} value={choice}>
+                {themeLabels[choice]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader className="flex-row items-start justify-between gap-4 space-y-0">
+          <div className="flex flex-col gap-1.5">
+            <CardTitle className="text-lg">Custom themes</CardTitle>
+            <CardDescription>
+              Pick a few base colors; everything else is derived and checked for
+              contrast.
+            </CardDescription>
+          </div>
+          {!editing && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => fileInput.current?.click()}>
+                <Upload />
+                Import
+              </Button>
+              <Button
+                onClick={() =>
+                  setEditing(buildCustomTheme((resolvedTheme as ThemeMode) ?? "light"))
+                }
+              >
+                <Plus />
+                New theme
+              </Button>
+              <input
+                ref={fileInput}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) void handleImport(file);
+                  event.target.value = "";
+                }}
+              />
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {editing ? (
+            <ThemeEditor
+              theme={editing}
+              onCancel={() => setEditing(null)}
+              onSave={(saved) => {
+                saveCustomTheme(saved);
+                setEditing(null);
+                toast({ title: `Saved “${saved.name}”` });
+              }}
+            />
+          ) : customThemes.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No custom themes yet.
+            </p>
+          ) : (
+            <ul className="flex flex-col divide-y">
+              {customThemes.map((custom) => {
+                const active = activeTheme?.id === custom.id;
+                return (
+                  <li key={custom.id} className="flex items-center gap-3 py-3">
+                    <div className="flex -space-x-1" aria-hidden>
+                      {[custom.colors.background, custom.colors.primary, custom.colors.accent].map(
+                        (color, index) => (
+                          <span
+                            key={index}
+                            className="h-5 w-5 rounded-full border"
+                            style={{ backgroundColor: color }}
+                          />
+                        )
+                      )}
+                    </div>
+                    <span className="font-medium">{custom.name}</span>
+                    <Badge variant="outline" className="font-normal">
+                      {themeLabels[custom.mode]}
+                    </Badge>
+                    {active && <Badge>Active</Badge>}
+                    <div className="ml-auto flex gap-1">
+                      <Button
+                        variant={active ? "outline" : "secondary"}
+                        size="sm"
+                        onClick={() =>
+                          active ? activateCustomTheme(null) : applyCustomTheme(custom)
+                        }
+                      >
+                        {active ? "Stop using" : "Use"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Edit ${custom.name}`}
+                        onClick={() => setEditing(custom)}
+                      >
+                        <Pencil />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Export ${custom.name}`}
+                        onClick={() => downloadTheme(custom)}
+                      >
+                        <Download />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Delete ${custom.name}`}
+                        onClick={() => deleteCustomTheme(custom.id)}
+                      >
+                        <Trash2 />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+      <ImportExportCard />
+      <BackupCard />
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,379 @@
+import { useMemo, useState, type ReactNode } from "react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import CompletionHeatmap from "@/components/stats/CompletionHeatmap";
+import StatsFilterBar from "@/components/stats/StatsFilterBar";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useProjects } from "@/hooks/use-projects";
+import { useTasks } from "@/hooks/use-tasks";
+import {
+  averageTimeToCompletePerPeriod,
+  burndown,
+  completedPerPeriod,
+  completionByProject,
+  createdVsCompleted,
+  cumulativeFlow,
+  filterStatsTasks,
+  overdueOverTime,
+  presetRange,
+  statsSummary,
+  type BurndownMetric,
+  type RangePreset,
+  type StatsGranularity,
+  type StatsRange,
+} from "@/lib/stats";
+import { chartColors } from "@/lib/theme";
+import { statusLabels } from "@/types/task";
+
+const completedConfig = {
+  completed: { label: "Completed", color: chartColors[0] },
+} satisfies ChartConfig;
+
+const trendConfig = {
+  created: { label: "Created", color: chartColors[1] },
+  completed: { label: "Completed", color: chartColors[0] },
+} satisfies ChartConfig;
+
+const overdueConfig = {
+  overdue: { label: "Overdue", color: chartColors[4] },
+} satisfies ChartConfig;
+
+const durationConfig = {
+  days: { label: "Days to complete", color: chartColors[2] },
+} satisfies ChartConfig;
+
+const burndownConfig = {
+  remaining: { label: "Remaining", color: chartColors[0] },
+  ideal: { label: "Ideal", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const flowConfig = {
+  done: { label: statusLabels.done, color: chartColors[1] },
+  in_progress: { label: statusLabels.in_progress, color: chartColors[3] },
+  todo: { label: statusLabels.todo, color: chartColors[0] },
+} satisfies ChartConfig;
+
+// Finished work at the bottom, so the bands grow upwards like a pipeline.
+const flowStatuses = ["done", "in_progress", "todo"] as const;
+
+function formatDays(days: number | null) {
+  if (days === null) return "—";
+  if (days < 1) return `${Math.round(days * 24)}h`;
+  return `${days.toFixed(1)}d`;
+}
+
+interface ChartCardProps {
+  title: string;
+  description: string;
+  empty: boolean;
+  /** Controls shown next to the title. */
+  action?: ReactNode;
+  children: ReactNode;
+}
+
+const ChartCard = ({ title, description, empty, action, children }: ChartCardProps) => (
+  <Card>
+    <CardHeader className="flex-row items-start justify-between gap-4 space-y-0">
+      <div className="flex flex-col gap-1.5">
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </div>
+      {action}
+    </CardHeader>
+    <CardContent>
+      {empty ? (
+        <p className="flex h-56 items-center justify-center text-sm text-muted-foreground">
+          Nothing in this range.
+        </p>
+      ) : (
+        children
+      )}
+    </CardContent>
+  </Card>
+);
+
+const SummaryCard = ({ label, value }: { label: string; value: ReactNode }) => (
+  <Card>
+    <CardHeader className="p-4">
+      <CardDescription>{label}</CardDescription>
+      <CardTitle className="text-3xl tabular-nums">{value}</CardTitle>
+    </CardHeader>
+  </Card>
+);
+
+const xAxis = (
+  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+);
+const yAxis = <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />;
+
+const StatsPage = () => {
+  const { tasks } = useTasks();
+  const { projects } = useProjects();
+  const [preset, setPreset] = useState<RangePreset>("30d");
+  const [customRange, setCustomRange] = useState<StatsRange>(() => presetRange("30d"));
+  const [granularity, setGranularity] = useState<StatsGranularity>("day");
+  const [projectIds, setProjectIds] = useState<(string | null)[]>([]);
+  const [burndownMetric, setBurndownMetric] = useState<BurndownMetric>("tasks");
+
+  const range = useMemo(
+    () => (preset === "custom" ? customRange : presetRange(preset)),
+    [preset, customRange]
+  );
+
+  const stats = useMemo(() => {
+    const filtered = filterStatsTasks(tasks, { projectIds });
+    return {
+      summary: statsSummary(filtered, range),
+      completed: completedPerPeriod(filtered, range, granularity),
+      trend: createdVsCompleted(filtered, range, granularity),
+      overdue: overdueOverTime(filtered, range, granularity),
+      byProject: completionByProject(filtered, projects, range, granularity),
+      duration: averageTimeToCompletePerPeriod(filtered, range, granularity),
+      burndown: burndown(filtered, range, burndownMetric),
+      flow: cumulativeFlow(filtered, range, granularity),
+    };
+  }, [tasks, projects, projectIds, granularity, burndownMetric, range]);
+
+  const projectConfig = Object.fromEntries(
+    stats.byProject.series.map((series, index) => [
+      series.key,
+      {
+        label: series.name,
+        color: series.color ?? chartColors[index % chartColors.length],
+      },
+    ])
+  ) satisfies ChartConfig;
+
+  const { summary } = stats;
+  const period = granularity === "day" ? "day" : "week";
+
+  return (
+    <div className="mx-auto flex w-full max-w-6xl flex-col gap-6 px-4 py-10">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <h1 className="text-3xl font-bold">Stats</h1>
+        <StatsFilterBar
+          preset={preset}
+          range={range}
+          granularity={granularity}
+          projects={projects}
+          projectIds={projectIds}
+          onPresetChange={(value) => {
+            if (value === "custom" && preset !== "custom") setCustomRange(range);
+            setPreset(value);
+          }}
+          onRangeChange={setCustomRange}
+          onGranularityChange={setGranularity}
+          onProjectIdsChange={setProjectIds}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <SummaryCard label="Completed" value={summary.completed} />
+        <SummaryCard label="Created" value={summary.created} />
+        <SummaryCard label="Overdue now" value={summary.overdue} />
+        <SummaryCard
+          label="Avg. time to complete"
+          value={formatDays(summary.averageDaysToComplete)}
+        />
+      </div>
+      <CompletionHeatmap tasks={tasks} projects={projects} />
+      <div className="grid gap-4 lg:grid-cols-2">
+        <ChartCard
+          title="Completed"
+          description={`Tasks completed per ${period}`}
+          empty={summary.completed === 0}
+        >
+          <ChartContainer config={completedConfig} className="aspect-auto h-56 w-full">
+            <BarChart data={stats.completed}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              {yAxis}
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+        <ChartCard
+          title="Created vs. completed"
+          description={`New tasks against finished ones, per ${period}`}
+          empty={summary.created === 0 && summary.completed === 0}
+        >
+          <ChartContainer config={trendConfig} className="aspect-auto h-56 w-full">
+            <LineChart data={stats.trend}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              {yAxis}
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="created" stroke="var(--color-created)" strokeWidth={2} dot={false} />
+              <Line
+                dataKey="completed"
+                stroke="var(--color-completed)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        </ChartCard>
+        <ChartCard
+          title="Overdue"
+          description={`Open tasks past their due date at the end of each ${period}`}
+          empty={stats.overdue.every((row) => row.overdue === 0)}
+        >
+          <ChartContainer config={overdueConfig} className="aspect-auto h-56 w-full">
+            <AreaChart data={stats.overdue}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              {yAxis}
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Area
+                dataKey="overdue"
+                type="monotone"
+                stroke="var(--color-overdue)"
+                fill="var(--color-overdue)"
+                fillOpacity={0.3}
+              />
+            </AreaChart>
+          </ChartContainer>
+        </ChartCard>
+        <ChartCard
+          title="Completed by project"
+          description={`Completions per ${period}, stacked by project`}
+          empty={stats.byProject.series.length === 0}
+        >
+          <ChartContainer config={projectConfig} className="aspect-auto h-56 w-full">
+            <BarChart data={stats.byProject.data}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              {yAxis}
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {stats.byProject.series.map((series) => (
+                <Bar
+                  key={series.key}
+                  dataKey={series.key}
+                  stackId="projects"
+                  fill={`var(--color-${series.key})`}
+                />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+        <ChartCard
+          title="Time to complete"
+          description={`Average days from creation to completion, per ${period}`}
+          empty={summary.averageDaysToComplete === null}
+        >
+          <ChartContainer config={durationConfig} className="aspect-auto h-56 w-full">
+            <BarChart data={stats.duration}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              <YAxis tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    formatter={(value) => `${formatDays(Number(value))} on average`}
+                  />
+                }
+              />
+              <Bar dataKey="days" fill="var(--color-days)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+        <ChartCard
+          title="Burndown"
+          description="Work left each day against a steady pace to zero by the end of the range"
+          empty={stats.burndown.every((row) => !row.remaining)}
+          action={
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={burndownMetric}
+              onValueChange={(value) => value && setBurndownMetric(value as BurndownMetric)}
+            >
+              <ToggleGroupItem value="tasks">Tasks</ToggleGroupItem>
+              <ToggleGroupItem value="points">Points</ToggleGroupItem>
+            </ToggleGroup>
+          }
+        >
+          <ChartContainer config={burndownConfig} className="aspect-auto h-56 w-full">
+            <LineChart data={stats.burndown}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              <YAxis tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line
+                dataKey="ideal"
+                stroke="var(--color-ideal)"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+              <Line
+                dataKey="remaining"
+                type="stepAfter"
+                stroke="var(--color-remaining)"
+                strokeWidth={2}
+                dot={false}
+                connectNulls={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        </ChartCard>
+        <ChartCard
+          title="Cumulative flow"
+          description={`Tasks in each status at the end of every ${period}`}
+          empty={stats.flow.every((row) => !row.todo && !row.in_progress && !row.done)}
+        >
+          <ChartContainer config={flowConfig} className="aspect-auto h-56 w-full">
+            <AreaChart data={stats.flow}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              {yAxis}
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {flowStatuses.map((status) => (
+                <Area
+                  key={status}
+                  dataKey={status}
+                  stackId="flow"
+                  type="monotone"
+                  stroke={`var(--color-${status})`}
+                  fill={`var(--color-${status})`}
+                  fillOpacity={0.5}
+                />
+              ))}
+            </AreaChart>
+          </ChartContainer>
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
+
+export default StatsPage;
@@ -0,0 +1,46 @@
+import { useMemo } from "react";
+
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import TableColumnsMenu from "@/components/table/TableColumnsMenu";
+import TaskTable from "@/components/table/TaskTable";
+import { useProjects } from "@/hooks/use-projects";
+import { useSettings } from "@/hooks/use-settings";
+import { useTasks } from "@/hooks/use-tasks";
+import { compareTasks, isTaskDone } from "@/lib/tasks";
+
+const TablePage = () => {
+  const { tasks } = useTasks();
+  const { projects } = useProjects();
+  const { settings, updateSettings } = useSettings();
+
+  const visible = useMemo(
+    () =>
+      tasks
+        .filter((task) => settings.showCompleted || !isTaskDone(task))
+        .sort(compareTasks),
+    [tasks, settings.showCompleted]
+  );
+
+  return (
+    <div className="flex w-full flex-col gap-4 px-4 py-10">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold">Table</h1>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="table-show-completed"
+              checked={settings.showCompleted}
+              onCheckedChange={(showCompleted) => updateSettings({ showCompleted })}
+            />
+            <Label htmlFor="table-show-completed">Show completed</Label>
+          </div>
+          <TableColumnsMenu />
+        </div>
+      </div>
+      <TaskTable tasks={visible} projects={projects} />
+    </div>
+  );
+};
+
+export default TablePage;
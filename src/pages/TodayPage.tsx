@@ -0,0 +1,81 @@
+import { useMemo, useState } from "react";
+import { format, isBefore, isToday, startOfDay } from "date-fns";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import TaskEditDialog from "@/components/tasks/TaskEditDialog";
+import TaskList from "@/components/tasks/TaskList";
+import TaskQuickAdd from "@/components/tasks/TaskQuickAdd";
+import { useProjects } from "@/hooks/use-projects";
+import { useTaskSelection } from "@/hooks/use-task-selection";
+import { useTasks } from "@/hooks/use-tasks";
+import { compareTasks, isTaskDone } from "@/lib/tasks";
+import type { Task } from "@/types/task";
+
+const TodayPage = () => {
+  const { tasks, isLoading, createTask, completeTask, deleteTask } = useTasks();
+  const { projects } = useProjects();
+  const { selectedIds, toggleSelected } = useTaskSelection();
+  const [editing, setEditing] = useState<Task | null>(null);
+
+  const today = startOfDay(new Date());
+  const open = useMemo(
+    () => tasks.filter((task) => task.dueDate && !isTaskDone(task)).sort(compareTasks),
+    [tasks]
+  );
+  const overdue = open.filter((task) => isBefore(new Date(task.dueDate), today));
+  const dueToday = open.filter((task) => isToday(new Date(task.dueDate)));
+
+  const handlers = {
+    onToggle: (task: Task, completed: boolean) => completeTask(task.id, completed),
+    onEdit: setEditing,
+    onDelete: (task: Task) => deleteTask(task.id),
+    onSelect: (task: Task) => toggleSelected(task.id),
+    selectedIds,
+  };
+
+  return (
+    <>
+      <div className="mx-auto flex w-full max-w-2xl flex-col gap-6 px-4 py-10">
+        <div>
+          <h1 className="text-3xl font-bold">Today</h1>
+          <p className="text-sm text-muted-foreground">{format(today, "EEEE, MMMM d")}</p>
+        </div>
+        <TaskQuickAdd
+          projects={projects}
+          defaults={{ dueDate: today.toISOString() }}
+          onAdd={createTask}
+        />
+        {overdue.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg text-destructive">
+                Overdue · {overdue.length}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TaskList tasks={overdue} {...handlers} />
+            </CardContent>
+          </Card>
+        )}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Due today · {dueToday.length}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TaskList
+              tasks={dueToday}
+              emptyMessage={isLoading ? "Loading tasks…" : "Nothing due today."}
+              {...handlers}
+            />
+          </CardContent>
+        </Card>
+      </div>
+      <TaskEditDialog
+        task={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+    </>
+  );
+};
+
+export default TodayPage;
@@ -0,0 +1,52 @@
+import type { AppNotification } from "./notification";
+import type { Project } from "./project";
+import type { Settings } from "./settings";
+import type { Task } from "./task";
+
+/** Everything the app stores, in one file that can be restored elsewhere. */
+export interface BackupArchive {
+  format: "todo-gopher-backup";
+  /** Version of the file layout; see `archiveMigrations`. */
+  version: number;
+  /** Schema version of the records in `data`; older ones are migrated on restore. */
+  schemaVersion: number;
+  createdAt: string;
+  data: {
+    /** With their tags, subtasks and status history. */
+    tasks: Task[];
+    projects: Project[];
+    /** Including custom themes and custom fields. */
+    settings: Partial<Settings>;
+    /** The notification center's history. */
+    notifications: AppNotification[];
+  };
+}
+
+export type BackupTrigger = "scheduled" | "manual" | "restore";
+
+/** A backup kept in the browser, next to the data it protects. */
+export interface LocalBackup {
+  id: string;
+  createdAt: string;
+  trigger: BackupTrigger;
+  archive: BackupArchive;
+}
+
+export type BackupInterval = "off" | "hourly" | "daily" | "weekly";
+
+export const BACKUP_INTERVALS: BackupInterval[] = ["off", "hourly", "daily", "weekly"];
+
+export const backupIntervalLabels: Record<BackupInterval, string> = {
+  off: "Off",
+  hourly: "Every hour",
+  daily: "Every day",
+  weekly: "Every week",
+};
+
+export const BACKUP_RETENTION_CHOICES = [3, 7, 14, 30];
+
+export const backupTriggerLabels: Record<BackupTrigger, string> = {
+  scheduled: "Automatic",
+  manual: "Manual",
+  restore: "Before restore",
+};
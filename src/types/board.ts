@@ -0,0 +1,15 @@
+import type { TaskStatus } from "./task";
+
+export interface BoardColumn {
+  status: TaskStatus;
+  name: string;
+  /** Maximum number of cards before the column is over its limit. */
+  wipLimit: number | null;
+  color: string;
+}
+
+export const defaultBoardColumns: BoardColumn[] = [
+  { status: "todo", name: "To do", wipLimit: null, color: "#94a3b8" },
+  { status: "in_progress", name: "In progress", wipLimit: 3, color: "#3b82f6" },
+  { status: "done", name: "Done", wipLimit: null, color: "#22c55e" },
+];
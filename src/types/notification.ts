@@ -0,0 +1,25 @@
+export type NotificationKind = "reminder" | "error" | "activity";
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  description: string | null;
+  /** Task the notification is about, for deep links. */
+  taskId: string | null;
+  /** For reminders: which of the task's reminders fired, so it can be snoozed. */
+  reminderId: string | null;
+  read: boolean;
+  createdAt: string;
+}
+
+export type NewNotification = Pick<AppNotification, "kind" | "title"> &
+  Partial<Pick<AppNotification, "description" | "taskId" | "reminderId">>;
+
+export const NOTIFICATION_KINDS: NotificationKind[] = ["reminder", "error", "activity"];
+
+export const notificationKindLabels: Record<NotificationKind, string> = {
+  reminder: "Reminders",
+  error: "Errors",
+  activity: "Activity",
+};
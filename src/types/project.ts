@@ -0,0 +1,34 @@
+import type { BoardColumn } from "./board";
+
+export interface ProjectSection {
+  id: string;
+  name: string;
+  order: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  /** Any CSS color; shown as the project dot. */
+  color: string;
+  /** Parent project for nesting, or null at the top level. */
+  parentId: string | null;
+  /** Sort position among siblings; lower comes first. */
+  order: number;
+  archived: boolean;
+  sections: ProjectSection[];
+  /** Board column overrides; falls back to the workspace columns when unset. */
+  columns: BoardColumn[] | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewProject = Pick<Project, "name"> &
+  Partial<Pick<Project, "color" | "columns" | "parentId" | "order">>;
+
+export type ProjectPatch = Partial<Omit<Project, "id" | "createdAt">>;
+
+export interface ProjectNode {
+  project: Project;
+  children: ProjectNode[];
+}
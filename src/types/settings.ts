@@ -0,0 +1,36 @@
+import type { BackupInterval } from "./backup";
+import { defaultBoardColumns, type BoardColumn } from "./board";
+import { defaultTableView, type TableViewState } from "./table";
+import type { CustomFieldDefinition } from "./task";
+import type { CustomTheme } from "./theme";
+
+export interface Settings {
+  showCompleted: boolean;
+  boardColumns: BoardColumn[];
+  /** Command palette entries, most recently used first. */
+  recentCommands: string[];
+  /** User remapping of keyboard shortcuts, by shortcut id. */
+  shortcuts: Record<string, string>;
+  customThemes: CustomTheme[];
+  /** The custom theme in use for its mode, or null for the built-in themes. */
+  activeThemeId: string | null;
+  customFields: CustomFieldDefinition[];
+  tableView: TableViewState;
+  /** How often a backup is kept in the browser automatically. */
+  backupInterval: BackupInterval;
+  /** How many local backups to keep; older ones are deleted. */
+  backupRetention: number;
+}
+
+export const defaultSettings: Settings = {
+  showCompleted: true,
+  boardColumns: defaultBoardColumns,
+  recentCommands: [],
+  shortcuts: {},
+  customThemes: [],
+  activeThemeId: null,
+  customFields: [],
+  tableView: defaultTableView,
+  backupInterval: "daily",
+  backupRetention: 7,
+};
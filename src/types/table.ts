@@ -0,0 +1,14 @@
+/** Layout of the table view; column ids are built-in names or `field:<id>`. */
+export interface TableViewState {
+  /** Column order; columns missing here follow in their default order. */
+  order: string[];
+  hidden: string[];
+  /** Widths in pixels set by resizing. */
+  widths: Record<string, number>;
+}
+
+export const defaultTableView: TableViewState = {
+  order: [],
+  hidden: [],
+  widths: {},
+};
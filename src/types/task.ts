@@ -0,0 +1,123 @@
+export type TaskStatus = "todo" | "in_progress" | "done";
+
+export type TaskPriority = "none" | "low" | "medium" | "high" | "urgent";
+
+export interface Task {
+  id: string;
+  title: string;
+  notes: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  /** Story points or similar, for burndown charts; null when not estimated. */
+  estimate: number | null;
+  projectId: string | null;
+  /** A section of the task's project, or null for the project's top level. */
+  sectionId: string | null;
+  /** The task this is a subtask of, or null for a top-level task. */
+  parentId: string | null;
+  assignee: string | null;
+  tags: string[];
+  /** Values of user-defined fields, by field id; unset fields are absent. */
+  customFields: Record<string, CustomFieldValue>;
+  /** RFC 5545 RRULE body such as `FREQ=WEEKLY;BYDAY=MO`, or null. */
+  recurrence: string | null;
+  /** Set on every occurrence of a recurring task. */
+  series: TaskSeries | null;
+  /** Manual sort position within a status column; lower comes first. */
+  order: number;
+  /** ISO timestamp, or null when the task is unscheduled. */
+  dueDate: string | null;
+  reminders: TaskReminder[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  /** Every status the task has had, oldest first, so charts can replay it. */
+  statusHistory: TaskStatusChange[];
+}
+
+export type CustomFieldType = "text" | "number";
+
+export type CustomFieldValue = string | number;
+
+/** A workspace-wide field users add to tasks, e.g. "Customer" or "Cost". */
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+}
+
+export interface TaskStatusChange {
+  status: TaskStatus;
+  at: string;
+}
+
+/**
+ * When a reminder goes off: at a fixed time, a number of minutes before the
+ * due date, or at a time of day (`HH:mm`) on the due date.
+ */
+export type ReminderTrigger =
+  | { type: "at"; at: string }
+  | { type: "before-due"; minutes: number }
+  | { type: "due-day"; time: string };
+
+export interface TaskReminder {
+  id: string;
+  trigger: ReminderTrigger;
+  /**
+   * The trigger time that was last delivered. Moving the due date changes the
+   * trigger time, which re-arms a relative reminder.
+   */
+  deliveredFor: string | null;
+  /** Overrides the trigger time until the snoozed reminder is delivered. */
+  snoozedUntil: string | null;
+}
+
+/** Fields each new occurrence of a series starts from. */
+export type TaskTemplate = Pick<
+  Task,
+  "title" | "notes" | "priority" | "tags" | "projectId" | "sectionId" | "assignee"
+>;
+
+export interface TaskSeries {
+  /** Shared by all occurrences of the series. */
+  id: string;
+  /** First occurrence; anchors intervals and the time of day. */
+  start: string;
+  /**
+   * When the rule scheduled this occurrence. Rescheduling one occurrence only
+   * moves `dueDate`, so the series keeps its cadence.
+   */
+  occurrenceDate: string;
+  /** Zero-based position in the series, for COUNT. */
+  index: number;
+  template: TaskTemplate;
+}
+
+export type NewTask = Pick<Task, "title"> &
+  Partial<Pick<Task, "notes" | "status" | "priority" | "dueDate" | "projectId" | "sectionId" | "assignee" | "order" | "tags" | "recurrence" | "reminders" | "estimate" | "customFields" | "parentId">>;
+
+export type TaskPatch = Partial<Omit<Task, "id" | "createdAt" | "statusHistory">>;
+
+export const TASK_STATUSES: TaskStatus[] = ["todo", "in_progress", "done"];
+
+export const TASK_PRIORITIES: TaskPriority[] = [
+  "none",
+  "low",
+  "medium",
+  "high",
+  "urgent",
+];
+
+export const statusLabels: Record<TaskStatus, string> = {
+  todo: "To do",
+  in_progress: "In progress",
+  done: "Done",
+};
+
+export const priorityLabels: Record<TaskPriority, string> = {
+  none: "No priority",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  urgent: "Urgent",
+};
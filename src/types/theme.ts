@@ -0,0 +1,23 @@
+export type ThemeMode = "light" | "dark";
+
+/** The colors a user picks, as `#rrggbb`; every other token is derived from them. */
+export interface ThemeColors {
+  background: string;
+  foreground: string;
+  primary: string;
+  accent: string;
+  destructive: string;
+  sidebar: string;
+  /** Series colors for charts, in order. */
+  charts: string[];
+}
+
+export interface CustomTheme {
+  id: string;
+  name: string;
+  /** Which of light or dark mode the theme replaces. */
+  mode: ThemeMode;
+  colors: ThemeColors;
+  /** Corner radius in rem. */
+  radius: number;
+}